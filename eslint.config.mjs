@@ -16,6 +16,7 @@ export default [
       sourceType: 'module',
       globals: {
         ...globals.node,
+        Bun: 'readonly',
       },
     },
     plugins: {
@@ -0,0 +1,728 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createMetricsApp } from "./app";
+import { createTestApp, type TestApp } from "./test-app";
+import { auditEvents, histories, idempotencyKeys, users } from "./db";
+import { purgeExpiredTrash } from "./services/trashPurge";
+import { purgeExpiredIdempotencyKeys } from "./services/idempotencyPurge";
+import { createPostgresRateLimitStore } from "./services/rateLimitStore";
+import { createLogger } from "./lib/logger";
+import { describedRoutes } from "./middleware/openapi";
+
+let t: TestApp;
+
+beforeAll(async () => {
+  t = await createTestApp({
+    SITEADMIN_EMAILS: "admin@example.com",
+    RATE_LIMIT_PUBLIC_MAX: "3",
+    RATE_LIMIT_AUTH_MAX: "40",
+    RATE_LIMIT_AUTHENTICATED_ALGORITHM: "token-bucket",
+    RATE_LIMIT_AUTHENTICATED_MAX: "5",
+  });
+}, 60_000);
+
+afterAll(async () => {
+  await t.close();
+});
+
+beforeEach(async () => {
+  await t.reset();
+  await t.db
+    .insert(users)
+    .values(
+      ["user-1", "user-2", "admin-1"].map(firebase_uid => ({ firebase_uid }))
+    );
+});
+
+async function request(
+  path: string,
+  init: RequestInit & { uid?: string; email?: string } = {}
+) {
+  const { uid = "user-1", email, headers, ...rest } = init;
+  return t.app.request(`/api/v1${path}`, {
+    ...rest,
+    headers: {
+      Authorization: await t.bearer({ uid, ...(email && { email }) }),
+      "Content-Type": "application/json",
+      ...headers,
+    },
+  });
+}
+
+async function createHistory(value: number, uid = "user-1") {
+  const res = await request(`/users/${uid}/histories`, {
+    uid,
+    method: "POST",
+    body: JSON.stringify({ datetime: "2024-01-01T10:00:00.000Z", value }),
+  });
+  expect(res.status).toBe(201);
+  return (await res.json()).data;
+}
+
+describe("createApp", () => {
+  it("serves the public endpoints without a token", async () => {
+    const res = await t.app.request("/health");
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.status).toBe("ok");
+  });
+
+  it("reports liveness and readiness", async () => {
+    const live = await t.app.request("/health/live");
+    expect(live.status).toBe(200);
+
+    const ready = await t.app.request("/health/ready");
+    expect(ready.status).toBe(200);
+    const { data } = await ready.json();
+    expect(data.status).toBe("ready");
+    expect(data.checks.database).toMatchObject({ status: "ok" });
+    expect(data.checks.migrations).toMatchObject({ status: "ok" });
+    expect(data.checks.database.latencyMs).toEqual(expect.any(Number));
+  });
+
+  it("is not ready after a failed start or when stopping", async () => {
+    for (const move of [() => t.lifecycle.fail(), () => t.lifecycle.stop()]) {
+      move();
+      const res = await t.app.request("/health/ready");
+      expect(res.status).toBe(503);
+      expect((await res.json()).data.status).toBe("not_ready");
+      expect((await t.app.request("/health/live")).status).toBe(200);
+    }
+
+    t.lifecycle.fail();
+    const failed = await (await t.app.request("/health/ready")).json();
+    expect(failed.data).toEqual({
+      status: "not_ready",
+      phase: "failed",
+      checks: expect.any(Object),
+    });
+  });
+
+  it("rejects requests without a valid token", async () => {
+    const missing = await t.app.request("/api/v1/users/user-1/histories");
+    expect(missing.status).toBe(401);
+
+    const invalid = await t.app.request("/api/v1/users/user-1/histories", {
+      headers: { Authorization: "Bearer not-a-jwt" },
+    });
+    expect(invalid.status).toBe(401);
+  });
+
+  it("tags responses and error bodies with the request id", async () => {
+    const res = await t.app.request("/api/v1/users/user-1/histories", {
+      headers: { "X-Request-Id": "req-401" },
+    });
+    expect(res.headers.get("X-Request-Id")).toBe("req-401");
+    expect((await res.json()).requestId).toBe("req-401");
+
+    const ok = await request("/users/user-1/histories");
+    expect(ok.headers.get("X-Request-Id")).toBeTruthy();
+  });
+
+  it("sets security headers and answers malformed JSON with 400", async () => {
+    const res = await request("/users/user-1/histories", {
+      method: "POST",
+      body: '{"datetime": "2024-01-01T10:00:00.000Z", ',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      error: "Malformed JSON body",
+      code: "MALFORMED_JSON",
+    });
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+});
+
+describe("users handlers", () => {
+  it("returns the caller's own profile", async () => {
+    const res = await request("/users/user-1");
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.firebase_uid).toBe("user-1");
+  });
+});
+
+describe("histories handlers", () => {
+  it("creates and lists a user's histories", async () => {
+    const created = await createHistory(42);
+    expect(created.value).toBe(42);
+
+    const res = await request("/users/user-1/histories");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.map((h: { id: string }) => h.id)).toEqual([created.id]);
+  });
+
+  it("rejects invalid input with 400 and an issue per field", async () => {
+    const res = await request("/users/user-1/histories", {
+      method: "POST",
+      body: JSON.stringify({ datetime: "not-a-date", value: -1 }),
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.code).toBe("VALIDATION_FAILED");
+    expect(body.issues).toEqual([
+      {
+        path: "datetime",
+        code: "invalid_format",
+        message: "datetime must be a valid ISO 8601 date string",
+      },
+      {
+        path: "value",
+        code: "too_small",
+        message: "value must be a positive number",
+      },
+    ]);
+  });
+
+  it("forbids reading another user's histories", async () => {
+    await createHistory(1, "user-2");
+    const res = await request("/users/user-2/histories");
+    expect(res.status).toBe(403);
+    expect((await res.json()).code).toBe("NOT_AUTHORIZED");
+  });
+
+  it("lets a configured site admin read other users' histories", async () => {
+    await createHistory(1, "user-2");
+    const res = await request("/users/user-2/histories", {
+      uid: "admin-1",
+      email: "admin@example.com",
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data).toHaveLength(1);
+  });
+
+  it("caches the public total until it expires by the app's clock", async () => {
+    await createHistory(2);
+    const total = async () =>
+      (await (await t.app.request("/api/v1/histories/total")).json()).data
+        .total;
+    expect(await total()).toBe(2);
+
+    // Written behind the handlers' back, so the cache is not invalidated
+    await t.db.insert(histories).values({
+      user_id: "user-1",
+      datetime: new Date("2024-01-02T00:00:00.000Z"),
+      value: "3",
+    });
+    expect(await total()).toBe(2);
+
+    t.clock.advance(60_000);
+    expect(await total()).toBe(5);
+  });
+
+  it("streams a site admin's export of another user's histories", async () => {
+    await t.db.insert(histories).values(
+      Array.from({ length: 2500 }, (_, i) => ({
+        user_id: "user-2",
+        datetime: new Date(Date.UTC(2024, 0, 1) + i * 60_000),
+        value: "1",
+      }))
+    );
+    const res = await request("/users/user-2/histories/export?format=ndjson", {
+      uid: "admin-1",
+      email: "admin@example.com",
+    });
+    expect(res.status).toBe(200);
+
+    // The last batch is only read once the client reads that far, so a row
+    // added now is included -- unless the body was buffered up front
+    await t.db.insert(histories).values({
+      user_id: "user-2",
+      datetime: new Date("2025-01-01T00:00:00.000Z"),
+      value: "2",
+    });
+    expect((await res.text()).trim().split("\n")).toHaveLength(2501);
+
+    const events = await t.db.select().from(auditEvents);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        action: "history.export",
+        target_user_id: "user-2",
+        entity_id: null,
+      })
+    );
+  });
+
+  it("updates with optimistic concurrency and records a revision", async () => {
+    const created = await createHistory(1);
+    t.clock.advance(60_000);
+
+    const stale = await request(`/users/user-1/histories/${created.id}`, {
+      method: "PUT",
+      headers: { "If-Match": '"99"' },
+      body: JSON.stringify({ value: 2 }),
+    });
+    expect(stale.status).toBe(412);
+    expect(stale.headers.get("ETag")).toBe('"1"');
+    expect(await stale.json()).toMatchObject({
+      code: "PRECONDITION_FAILED",
+      data: { id: created.id, version: 1 },
+    });
+
+    const res = await request(`/users/user-1/histories/${created.id}`, {
+      method: "PUT",
+      headers: { "If-Match": '"1"' },
+      body: JSON.stringify({ value: 2 }),
+    });
+    expect(res.status).toBe(200);
+    const updated = (await res.json()).data;
+    expect(updated.value).toBe(2);
+    expect(updated.updated_at).toBe("2024-01-01T00:01:00.000Z");
+
+    const revisions = await request(
+      `/users/user-1/histories/${created.id}/revisions`
+    );
+    const [revision] = (await revisions.json()).data;
+    expect(revision.action).toBe("update");
+    expect(revision.old_value).toBe(1);
+  });
+
+  it("moves deleted histories to the trash until restored", async () => {
+    const created = await createHistory(5);
+
+    const deleted = await request(`/users/user-1/histories/${created.id}`, {
+      method: "DELETE",
+    });
+    expect(deleted.status).toBe(200);
+
+    const list = await request("/users/user-1/histories");
+    expect((await list.json()).data).toHaveLength(0);
+
+    const trash = await request("/users/user-1/histories/trash");
+    const [trashed] = (await trash.json()).data;
+    expect(trashed.id).toBe(created.id);
+    expect(trashed.purge_at).toBe("2024-01-31T00:00:00.000Z");
+
+    const restored = await request(
+      `/users/user-1/histories/trash/${created.id}/restore`,
+      { method: "POST" }
+    );
+    expect(restored.status).toBe(200);
+    expect((await restored.json()).data.version).toBe(3);
+  });
+
+  it("purges trash older than the retention period", async () => {
+    const created = await createHistory(5);
+    await request(`/users/user-1/histories/${created.id}`, {
+      method: "DELETE",
+    });
+
+    t.clock.advance(29 * 24 * 60 * 60 * 1000);
+    expect(await purgeExpiredTrash(t.db, 30, t.clock.now())).toBe(0);
+
+    t.clock.advance(2 * 24 * 60 * 60 * 1000);
+    expect(await purgeExpiredTrash(t.db, 30, t.clock.now())).toBe(1);
+  });
+});
+
+describe("idempotency", () => {
+  const create = (key: string) =>
+    request("/users/user-1/histories", {
+      method: "POST",
+      headers: { "Idempotency-Key": key },
+      body: JSON.stringify({ datetime: "2024-01-01T10:00:00.000Z", value: 1 }),
+    });
+
+  it("replays the original status, body and ETag", async () => {
+    const first = await create("key-1");
+    expect(first.status).toBe(201);
+
+    const replay = await create("key-1");
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(replay.headers.get("ETag")).toBe('"1"');
+    expect(await replay.json()).toEqual(await first.json());
+    expect(await t.db.select().from(histories)).toHaveLength(1);
+  });
+
+  it("lets a retry take over a claim whose request never finished", async () => {
+    await create("key-1");
+    // As if the request had crashed before storing its response
+    await t.db.update(idempotencyKeys).set({
+      response_status: null,
+      response_body: null,
+      locked_until: new Date(t.clock.now().getTime() + 60_000),
+    });
+
+    expect((await create("key-1")).status).toBe(409);
+
+    t.clock.advance(60_000);
+    const retry = await create("key-1");
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("Idempotent-Replayed")).toBeNull();
+    expect((await create("key-1")).headers.get("Idempotent-Replayed")).toBe(
+      "true"
+    );
+  });
+
+  it("purges expired keys", async () => {
+    await create("key-1");
+    expect(await purgeExpiredIdempotencyKeys(t.db, t.clock.now())).toBe(0);
+
+    t.clock.advance(24 * 60 * 60 * 1000);
+    expect(await purgeExpiredIdempotencyKeys(t.db, t.clock.now())).toBe(1);
+    expect(await t.db.select().from(idempotencyKeys)).toEqual([]);
+  });
+});
+
+describe("error codes", () => {
+  it("answers unknown routes and records with their codes", async () => {
+    const route = await t.app.request("/nope");
+    expect(route.status).toBe(404);
+    expect((await route.json()).code).toBe("NOT_FOUND");
+
+    const history = await request(
+      "/users/user-1/histories/00000000-0000-0000-0000-000000000000",
+      { method: "PUT", body: JSON.stringify({ value: 1 }) }
+    );
+    expect(history.status).toBe(404);
+    expect((await history.json()).code).toBe("HISTORY_NOT_FOUND");
+
+    const user = await request("/users/ghost", {
+      uid: "admin-1",
+      email: "admin@example.com",
+    });
+    expect(user.status).toBe(404);
+    expect((await user.json()).code).toBe("USER_NOT_FOUND");
+  });
+
+  it("answers ids that are not UUIDs as missing records", async () => {
+    const routes: [string, string][] = [
+      ["PUT", "/users/user-1/histories/not-a-uuid"],
+      ["DELETE", "/users/user-1/histories/not-a-uuid"],
+      ["GET", "/users/user-1/histories/not-a-uuid/revisions"],
+      ["POST", "/users/user-1/histories/trash/not-a-uuid/restore"],
+    ];
+    for (const [method, path] of routes) {
+      const res = await request(path, {
+        method,
+        ...(method === "PUT" && { body: JSON.stringify({ value: 1 }) }),
+      });
+      expect(res.status, `${method} ${path}`).toBe(404);
+      expect((await res.json()).code).toBe("HISTORY_NOT_FOUND");
+    }
+
+    const created = await createHistory(1, "user-2");
+    const revert = await request(
+      `/users/user-2/histories/${created.id}/revisions/not-a-uuid/revert`,
+      { uid: "user-2", method: "POST" }
+    );
+    expect(revert.status).toBe(404);
+    expect((await revert.json()).code).toBe("REVISION_NOT_FOUND");
+
+    const batch = await request("/users/user-2/histories/batch", {
+      uid: "user-2",
+      method: "POST",
+      body: JSON.stringify({
+        operations: [{ op: "delete", id: "not-a-uuid" }],
+      }),
+    });
+    expect(batch.status).toBe(404);
+    expect((await batch.json()).code).toBe("HISTORY_NOT_FOUND");
+
+    const token = await request("/users/user-2/tokens/not-a-uuid", {
+      uid: "user-2",
+      method: "DELETE",
+    });
+    expect(token.status).toBe(404);
+    expect((await token.json()).code).toBe("TOKEN_NOT_FOUND");
+  });
+
+  it("locates invalid query parameters", async () => {
+    const res = await request(
+      "/users/user-1/histories?from=2024-02-01&to=2024-01-01"
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).issues).toEqual([
+      {
+        path: "from",
+        code: "invalid_range",
+        message: "from must not be after to",
+      },
+    ]);
+
+    const sort = await request("/users/user-1/histories?sortBy=colour");
+    expect((await sort.json()).issues).toMatchObject([
+      { path: "sortBy", code: "invalid_value" },
+    ]);
+
+    const far = await request("/users/user-1/histories?from=99999-01-01");
+    expect(far.status).toBe(400);
+    expect((await far.json()).issues).toMatchObject([
+      { path: "from", code: "invalid_format" },
+    ]);
+  });
+
+  it("locates invalid batch operations and import rows", async () => {
+    const batch = await request("/users/user-1/histories/batch", {
+      method: "POST",
+      body: JSON.stringify({
+        operations: [
+          { op: "create", datetime: "2024-01-01T00:00:00.000Z", value: 1 },
+          { op: "update", value: 2 },
+          { op: "create", datetime: "2024-01-01T00:00:00.000Z" },
+        ],
+      }),
+    });
+    expect(batch.status).toBe(400);
+    const batchBody = await batch.json();
+    expect(batchBody.code).toBe("VALIDATION_FAILED");
+    expect(batchBody.issues).toMatchObject([
+      { path: "operations[1].id", code: "required" },
+      { path: "operations[2].value", code: "required" },
+    ]);
+    expect(batchBody.data.committed).toBe(false);
+
+    const missing = await request("/users/user-1/histories/batch", {
+      method: "POST",
+      body: JSON.stringify({
+        operations: [
+          { op: "delete", id: "00000000-0000-0000-0000-000000000000" },
+        ],
+      }),
+    });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).code).toBe("HISTORY_NOT_FOUND");
+
+    const imported = await request("/users/user-1/histories/import", {
+      method: "POST",
+      body: JSON.stringify([
+        { datetime: "2024-01-01T00:00:00.000Z", value: 1 },
+        { datetime: "yesterday", value: 1 },
+      ]),
+    });
+    expect(imported.status).toBe(400);
+    const importBody = await imported.json();
+    expect(importBody.issues).toMatchObject([
+      { path: "rows[1].datetime", code: "invalid_format" },
+    ]);
+    expect(importBody.data.errors).toMatchObject([{ row: 2 }]);
+  });
+});
+
+describe("metrics", () => {
+  it("serves request, token cache and history write metrics", async () => {
+    const created = await createHistory(1);
+    await request(`/users/user-1/histories/${created.id}`, {
+      method: "PUT",
+      body: JSON.stringify({ value: 2 }),
+    });
+    await request(`/users/user-1/histories/${created.id}`, {
+      method: "DELETE",
+    });
+
+    const res = await t.app.request("/metrics");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/plain");
+    const body = await res.text();
+
+    expect(body).toContain(
+      'http_requests_total{method="POST",route="/api/v1/users/:userId/histories",status="201"} 1'
+    );
+    expect(body).toContain(
+      'http_request_duration_seconds_count{method="DELETE",route="/api/v1/users/:userId/histories/:historyId",status="200"} 1'
+    );
+    for (const operation of ["create", "update", "delete"]) {
+      expect(body).toContain(
+        `history_writes_total{operation="${operation}"} 1`
+      );
+    }
+    // One lookup per authenticated request; the token is identical within a second
+    const { tokenCacheHits, tokenCacheMisses } = t.metrics;
+    expect(tokenCacheHits.get() + tokenCacheMisses.get()).toBe(3);
+    expect(body).toContain("token_verification_cache_hits_total");
+  });
+
+  it("answers 500 and logs when the metrics app fails", async () => {
+    const app = createMetricsApp({
+      ...t.deps,
+      metrics: {
+        ...t.metrics,
+        registry: {
+          ...t.metrics.registry,
+          render: () => {
+            throw new Error("registry broke");
+          },
+        },
+      },
+    });
+    const res = await app.request("/metrics");
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ code: "INTERNAL_ERROR" });
+    expect(res.headers.get("X-Request-Id")).toBeTruthy();
+    expect(t.logs).toContainEqual(
+      expect.objectContaining({ level: "error", err: expect.anything() })
+    );
+  });
+
+  it("expires cached token verifications by the app's clock", async () => {
+    const authorization = await t.bearer({
+      uid: "user-2",
+      email: "cache@example.com",
+    });
+    const profile = () =>
+      t.app.request("/api/v1/users/user-2", {
+        headers: { Authorization: authorization },
+      });
+    const { tokenCacheHits, tokenCacheMisses } = t.metrics;
+
+    await profile();
+    await profile();
+    expect([tokenCacheMisses.get(), tokenCacheHits.get()]).toEqual([1, 1]);
+
+    t.clock.advance(t.config.auth.tokenCacheTtlMs);
+    expect((await profile()).status).toBe(200);
+    expect([tokenCacheMisses.get(), tokenCacheHits.get()]).toEqual([2, 1]);
+  });
+});
+
+describe("OpenAPI", () => {
+  it("documents every route", async () => {
+    const res = await t.app.request("/openapi.json");
+    expect(res.status).toBe(200);
+    const document = await res.json();
+    expect(document.openapi).toBe("3.1.0");
+    expect(
+      Object.keys(document.paths["/api/v1/users/{userId}/histories"])
+    ).toEqual(["get", "post"]);
+    expect(document.components.schemas).toHaveProperty("History");
+
+    const described = describedRoutes(t.app.routes).map(
+      r => `${r.method} ${r.path}`
+    );
+    const handlers = t.app.routes
+      .filter(r => r.method !== "ALL")
+      .map(r => `${r.method} ${r.path}`);
+    expect(described).toEqual([...new Set(handlers)]);
+  });
+
+  it("serves the docs page with a nonce for its script", async () => {
+    const res = await t.app.request("/docs");
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    const nonce = /<script nonce="([^"]+)">/.exec(html)?.[1];
+    expect(nonce).toBeTruthy();
+    expect(res.headers.get("Content-Security-Policy")).toContain(
+      `'nonce-${nonce}'`
+    );
+  });
+
+  // Responses are checked against their route's spec in tests, so these
+  // only need to reach each route once
+  it("answers the remaining routes as declared", async () => {
+    const created = await createHistory(2);
+    await request(`/users/user-1/histories/${created.id}`, {
+      method: "PUT",
+      body: JSON.stringify({ value: 3 }),
+    });
+    const revisions = await request(
+      `/users/user-1/histories/${created.id}/revisions`
+    );
+    const [revision] = (await revisions.json()).data;
+    const reverted = await request(
+      `/users/user-1/histories/${created.id}/revisions/${revision.id}/revert`,
+      { method: "POST" }
+    );
+    expect(reverted.status).toBe(200);
+    expect((await reverted.json()).data.value).toBe(2);
+
+    // Let the rate limit bucket refill
+    t.clock.advance(60_000);
+    for (const path of [
+      "/users/user-1/histories?cursor=&includeTotal=true",
+      "/users/user-1/histories/stats?groupBy=month",
+      "/users/user-1/histories/export?format=ndjson",
+      "/users/user-1/tokens",
+    ]) {
+      expect([path, (await request(path)).status]).toEqual([path, 200]);
+    }
+
+    const token = await request("/users/user-2/tokens", {
+      uid: "user-2",
+      method: "POST",
+      body: JSON.stringify({ name: "ci", scopes: ["histories:read"] }),
+    });
+    expect(token.status).toBe(201);
+    const revoked = await request(
+      `/users/user-2/tokens/${(await token.json()).data.id}`,
+      { uid: "user-2", method: "DELETE" }
+    );
+    expect(revoked.status).toBe(200);
+
+    const events = await request("/admin/audit-events?action=history.create", {
+      uid: "admin-1",
+      email: "admin@example.com",
+    });
+    expect((await events.json()).data).toHaveLength(1);
+
+    const total = await t.app.request("/api/v1/histories/total?period=day");
+    expect(total.status).toBe(200);
+  });
+});
+
+describe("rate limiting", () => {
+  it("limits the public total per client IP", async () => {
+    for (let i = 0; i < 3; i++) {
+      const res = await t.app.request("/api/v1/histories/total");
+      expect(res.status).toBe(200);
+    }
+    const limited = await t.app.request("/api/v1/histories/total");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBeTruthy();
+    expect((await limited.json()).error).toBe("Too many requests");
+
+    // Health probes are never limited
+    expect((await t.app.request("/health/ready")).status).toBe(200);
+  });
+
+  it("limits authenticated routes per user", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await request("/users/user-1")).status).toBe(200);
+    }
+    const limited = await request("/users/user-1");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("RateLimit-Remaining")).toBe("0");
+    expect((await request("/users/user-2", { uid: "user-2" })).status).toBe(
+      200
+    );
+
+    // The bucket refills at 5 per minute
+    t.clock.advance(12_000);
+    expect((await request("/users/user-1")).status).toBe(200);
+  });
+
+  it("limits requests with bad tokens per client IP", async () => {
+    const badToken = () =>
+      t.app.request("/api/v1/users/user-1", {
+        headers: { Authorization: "Bearer not-a-jwt" },
+      });
+    for (let i = 0; i < 40; i++) {
+      expect((await badToken()).status).toBe(401);
+    }
+    const limited = await badToken();
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).code).toBe("RATE_LIMITED");
+  });
+
+  it("shares counts between instances through Postgres", async () => {
+    const logger = createLogger({ level: "error", write: () => {} });
+    const policy = t.config.rateLimit.policies.public;
+    const now = t.clock.now().getTime();
+    const instances = [
+      createPostgresRateLimitStore(t.db, logger),
+      createPostgresRateLimitStore(t.db, logger),
+    ];
+
+    const decisions = await Promise.all(
+      [0, 1, 0, 1].map(i => instances[i].consume("public:ip:a", policy, now))
+    );
+    expect(decisions.filter(d => d.allowed)).toHaveLength(3);
+    expect(
+      (await instances[0].consume("public:ip:b", policy, now)).allowed
+    ).toBe(true);
+
+    // Expired state starts over
+    const later = now + 2 * policy.windowMs;
+    expect(
+      await instances[1].consume("public:ip:a", policy, later)
+    ).toMatchObject({ allowed: true, remaining: 2 });
+  });
+});
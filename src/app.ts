@@ -0,0 +1,230 @@
+import { Hono, type MiddlewareHandler } from "hono";
+import { successResponse } from "@sudobility/superguide_types";
+import type { Database } from "./db";
+import routes from "./routes";
+import type { TokenVerifier } from "./services/tokenVerifier";
+import type { Config } from "./config";
+import type { Logger } from "./lib/logger";
+import { requestContext } from "./middleware/requestContext";
+import { handleError, handleNotFound } from "./middleware/errors";
+import { httpMetrics } from "./middleware/metrics";
+import {
+  corsPolicy,
+  limitBodySize,
+  rejectMalformedJson,
+  requestTimeout,
+  securityHeaders,
+} from "./middleware/security";
+import healthRouter from "./routes/health";
+import metricsRouter from "./routes/metrics";
+import { createDocsRouter, DOCS_PATH } from "./routes/docs";
+import { describeRoute } from "./middleware/openapi";
+import type { Lifecycle } from "./services/health";
+import type { AppMetrics } from "./services/metrics";
+import type { RateLimitStore } from "./services/rateLimitStore";
+import {
+  createHistoryTotalsCache,
+  type HistoryTotalsCache,
+} from "./services/historyTotals";
+import {
+  createStoredRolesCache,
+  type StoredRolesCache,
+} from "./services/roles";
+
+/** Source of the current time, injectable so tests can control it */
+export interface Clock {
+  now(): Date;
+}
+
+/** The real wall clock */
+export const systemClock: Clock = { now: () => new Date() };
+
+/** Everything the application depends on, see {@link createApp} */
+export interface AppDeps {
+  db: Database;
+  verifier: TokenVerifier;
+  clock: Clock;
+  config: Config;
+  logger: Logger;
+  metrics: AppMetrics;
+  lifecycle: Lifecycle;
+  rateLimitStore: RateLimitStore;
+}
+
+declare module "hono" {
+  interface ContextVariableMap {
+    /** The database handlers query (see {@link AppDeps}) */
+    db: Database;
+    /** The verifier {@link firebaseAuthMiddleware} checks bearer tokens with */
+    verifier: TokenVerifier;
+    /** The clock handlers take the current time from */
+    clock: Clock;
+    /** The validated configuration (see {@link loadConfig}) */
+    config: Config;
+    /** The Prometheus metrics handlers record to */
+    metrics: AppMetrics;
+    /** Startup and shutdown state, reported by `/health/ready` */
+    lifecycle: Lifecycle;
+    /** Where {@link rateLimit} counts requests */
+    rateLimitStore: RateLimitStore;
+    /** Cached `/histories/total` bodies, per application */
+    historyTotalsCache: HistoryTotalsCache;
+    /** Cached `user_roles` grants, per application */
+    storedRolesCache: StoredRolesCache;
+  }
+}
+
+/** In-process caches {@link createApp} keeps for its handlers */
+interface AppCaches {
+  historyTotalsCache: HistoryTotalsCache;
+  storedRolesCache: StoredRolesCache;
+}
+
+/**
+ * Middleware exposing `deps` and the application's caches, if it has any, as
+ * context variables (see {@link createApp}).
+ */
+function provideDeps(deps: AppDeps, caches?: AppCaches): MiddlewareHandler {
+  return async (c, next) => {
+    c.set("db", deps.db);
+    c.set("verifier", deps.verifier);
+    c.set("clock", deps.clock);
+    c.set("config", deps.config);
+    c.set("metrics", deps.metrics);
+    c.set("lifecycle", deps.lifecycle);
+    c.set("rateLimitStore", deps.rateLimitStore);
+    if (caches) {
+      c.set("historyTotalsCache", caches.historyTotalsCache);
+      c.set("storedRolesCache", caches.storedRolesCache);
+    }
+    await next();
+  };
+}
+
+/**
+ * Builds the API application around the given dependencies.
+ *
+ * Routers are stateless: a first middleware exposes `deps` to every handler
+ * and middleware as the `db`, `verifier`, `clock`, `config`, `metrics`,
+ * `lifecycle` and `rateLimitStore` context variables, so nothing reaches for a global connection or the wall clock.
+ * The app's caches -- `historyTotalsCache` and `storedRolesCache` -- are
+ * created here, expiring by `deps.clock`, so separate apps never share them.
+ * Every request is then identified and logged by {@link requestContext},
+ * which also exposes a request-bound `logger`, and counted and timed for
+ * `/metrics`. Security middleware follows: security headers, the CORS
+ * allowlist, the body size limit, the request timeout and 400s for
+ * malformed JSON. The metrics endpoint is served here unless `METRICS_PORT` moves
+ * it to {@link createMetricsApp}, and `/openapi.json` and `/docs` unless
+ * `OPENAPI_DOCS_ENABLED` is off.
+ * The production entrypoint wires in postgres.js and the configured token
+ * verifier; tests pass an in-process database and a dev verifier.
+ *
+ * @param deps - See {@link AppDeps}
+ * @returns The Hono application, serving the API under `/api/v1`
+ */
+export function createApp(deps: AppDeps): Hono {
+  const app = new Hono();
+
+  app.use("*", requestContext(deps.logger));
+  app.use(
+    "*",
+    provideDeps(deps, {
+      historyTotalsCache: createHistoryTotalsCache(deps.clock),
+      storedRolesCache: createStoredRolesCache(deps.clock),
+    })
+  );
+  app.use("*", httpMetrics(deps.metrics));
+  const { openapi } = deps.config;
+  app.use(
+    "*",
+    securityHeaders({ docsPath: openapi.docsEnabled ? DOCS_PATH : undefined })
+  );
+  app.use("*", corsPolicy(deps.config.cors.origins));
+  app.use("*", limitBodySize(deps.config.server.bodyLimitBytes));
+  app.use("*", requestTimeout(deps.config.server.requestTimeoutMs));
+  app.use("*", rejectMalformedJson);
+
+  /**
+   * Global error handlers: thrown `ApiError`s are answered with their code
+   * and status, anything else as a 500 (see {@link handleError}), and
+   * unmatched routes as a 404 `NOT_FOUND`.
+   */
+  app.onError(handleError);
+  app.notFound(handleNotFound);
+
+  /**
+   * GET / - Root endpoint returning API metadata.
+   *
+   * Public endpoint that returns the API name, version, and health status.
+   * Useful for service discovery and basic connectivity checks.
+   */
+  app.get(
+    "/",
+    describeRoute({
+      operationId: "getApiInfo",
+      summary: "API metadata",
+      tags: ["Health"],
+      responses: {
+        200: {
+          description: "The API's name, version and status",
+          data: {
+            type: "object",
+            required: ["name", "version", "status"],
+            properties: {
+              name: { type: "string" },
+              version: { type: "string" },
+              status: { const: "healthy" },
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+    }),
+    c => {
+      return c.json(
+        successResponse({
+          name: "Starter API",
+          version: "1.0.0",
+          status: "healthy",
+        })
+      );
+    }
+  );
+
+  app.route("/health", healthRouter);
+
+  const { metrics } = deps.config;
+  if (metrics.enabled && metrics.port === undefined) {
+    app.route("/metrics", metricsRouter);
+  }
+
+  app.route("/api/v1", routes);
+
+  if (openapi.docsEnabled) {
+    app.route(
+      "/",
+      createDocsRouter(() => app.routes)
+    );
+  }
+
+  return app;
+}
+
+/**
+ * Builds the application served on `METRICS_PORT`: only `/metrics`.
+ *
+ * Requests pass through {@link requestContext} as in {@link createApp}, so
+ * they carry a request id and the error handler has a `logger`.
+ *
+ * @param deps - See {@link AppDeps}
+ * @returns The Hono application
+ */
+export function createMetricsApp(deps: AppDeps): Hono {
+  const app = new Hono();
+  app.use("*", requestContext(deps.logger));
+  app.use("*", provideDeps(deps));
+  app.onError(handleError);
+  app.notFound(handleNotFound);
+  app.route("/metrics", metricsRouter);
+  return app;
+}
@@ -0,0 +1,550 @@
+import { getEnv } from "./lib/env-helper";
+import { LOG_LEVELS, type LogLevel } from "./lib/logger";
+import { JWT_ALGORITHMS, type JwtAlgorithm } from "./services/jwtVerifier";
+import { RATE_LIMIT_ALGORITHMS, type RateLimitPolicy } from "./lib/rate-limit";
+
+/** Token verifiers selectable via `AUTH_VERIFIER` (see {@link createTokenVerifier}) */
+export const TOKEN_VERIFIERS = ["firebase", "jwt", "dev"] as const;
+
+export type TokenVerifierKind = (typeof TOKEN_VERIFIERS)[number];
+
+/** Values accepted for `NODE_ENV` */
+export const NODE_ENVS = ["development", "test", "production"] as const;
+
+/** Default `LOG_LEVEL` per `NODE_ENV` */
+const DEFAULT_LOG_LEVELS: Record<(typeof NODE_ENVS)[number], LogLevel> = {
+  development: "debug",
+  test: "warn",
+  production: "info",
+};
+
+/**
+ * Route groups with their own rate limit policy: `public` routes are limited
+ * per client IP, `authenticated` routes per user, and every request to them
+ * per client IP as `auth` before its token is checked (see {@link rateLimit})
+ */
+export const RATE_LIMIT_GROUPS = ["public", "auth", "authenticated"] as const;
+
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number];
+
+/** Rate limit stores selectable via `RATE_LIMIT_STORE` */
+export const RATE_LIMIT_STORES = ["memory", "postgres"] as const;
+
+/** Settings of the `firebase` token verifier */
+export interface FirebaseConfig {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string;
+}
+
+/** Settings of the `jwt` token verifier */
+export interface JwtConfig {
+  algorithm: JwtAlgorithm;
+  secret?: string;
+  /** PEM public key, inline or read from `AUTH_JWT_PUBLIC_KEY_FILE` by the verifier */
+  publicKey?: string;
+  publicKeyFile?: string;
+  jwksFile?: string;
+  issuer?: string;
+  audience?: string;
+}
+
+/** Authentication settings */
+export interface AuthConfig {
+  verifier: TokenVerifierKind;
+  firebase: FirebaseConfig;
+  jwt: JwtConfig;
+  devSecret: string;
+  /** Emails granted the `admin` role */
+  siteAdminEmails: string[];
+  /** How long a verified token is reused, in milliseconds; 0 disables the cache */
+  tokenCacheTtlMs: number;
+}
+
+/**
+ * The application's configuration, read from the environment by
+ * {@link loadConfig}. Variable names are listed in the README.
+ */
+export interface Config {
+  server: {
+    port: number;
+    nodeEnv: (typeof NODE_ENVS)[number];
+    /** How long to keep serving after SIGTERM while readiness fails, in milliseconds */
+    shutdownDelayMs: number;
+    /** How long in-flight requests may take to finish on shutdown, in milliseconds */
+    shutdownTimeoutMs: number;
+    /**
+     * How long a request may take before it is answered with 504, in
+     * milliseconds; also the Postgres `statement_timeout`. 0 disables both
+     */
+    requestTimeoutMs: number;
+    /** Largest request body accepted, in bytes */
+    bodyLimitBytes: number;
+  };
+  database: {
+    url: string;
+  };
+  auth: AuthConfig;
+  cors: {
+    /** Allowed origins; `*` allows any. Required in production */
+    origins: string[];
+  };
+  rateLimit: {
+    enabled: boolean;
+    /** Where counts are kept; `postgres` shares them between instances */
+    store: (typeof RATE_LIMIT_STORES)[number];
+    /** Take the client IP from `X-Forwarded-For`, set by a trusted proxy */
+    trustProxy: boolean;
+    /** Policy of each route group */
+    policies: Record<RateLimitGroup, RateLimitPolicy>;
+  };
+  logging: {
+    /** Minimum level written; defaults depend on `NODE_ENV` */
+    level: LogLevel;
+  };
+  metrics: {
+    enabled: boolean;
+    /** Bearer token `/metrics` requires, if set */
+    token?: string;
+    /** Serve `/metrics` on this port instead of the API port, if set */
+    port?: number;
+    /** Address the separate metrics port binds to */
+    host: string;
+  };
+  openapi: {
+    /** Serve `/openapi.json` and the `/docs` page */
+    docsEnabled: boolean;
+    /**
+     * Check every response against its route's declared schema, answering
+     * a mismatch with 500 (see {@link describeRoute})
+     */
+    validateResponses: boolean;
+  };
+  features: {
+    /** Days a trashed history is kept before it is purged */
+    trashRetentionDays: number;
+    /** How long `/histories/total` responses are cached, in seconds */
+    historiesTotalCacheTtlSeconds: number;
+  };
+}
+
+/**
+ * Thrown by {@link loadConfig} when the environment is invalid. The message
+ * lists every problem, one per line.
+ */
+export class ConfigError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid configuration:\n  - ${errors.join("\n  - ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/** Reads a raw environment value; empty strings count as unset */
+export type EnvSource = (key: string) => string | undefined;
+
+/** Milliseconds per unit suffix accepted by {@link parseDuration} */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as `250ms`, `30s`, `5m`, `1h` or `7d`. A bare number
+ * is taken as milliseconds.
+ *
+ * @param raw - The duration string
+ * @returns The duration in milliseconds, or null if `raw` is not a duration
+ */
+export function parseDuration(raw: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/i.exec(raw.trim());
+  if (!match) return null;
+  return Math.round(
+    Number(match[1]) * DURATION_UNITS[(match[2] ?? "ms").toLowerCase()]
+  );
+}
+
+/** Bytes per unit suffix accepted by {@link parseByteSize} */
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+/**
+ * Parses a size such as `512kb`, `2mb` or `1gb` (binary units). A bare
+ * number is taken as bytes.
+ *
+ * @param raw - The size string
+ * @returns The size in bytes, or null if `raw` is not a size
+ */
+export function parseByteSize(raw: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(raw.trim());
+  if (!match) return null;
+  return Math.floor(
+    Number(match[1]) * BYTE_UNITS[(match[2] ?? "b").toLowerCase()]
+  );
+}
+
+/**
+ * Reads typed values from an {@link EnvSource}, collecting every problem
+ * instead of stopping at the first. Each reader returns its default (or a
+ * placeholder) when the value is invalid, so parsing always completes.
+ */
+class EnvReader {
+  readonly errors: string[] = [];
+
+  constructor(private readonly source: EnvSource) {}
+
+  /** Whether the variable has a non-empty value */
+  has(key: string): boolean {
+    return this.source(key) !== undefined && this.source(key) !== "";
+  }
+
+  string(key: string, defaultValue = ""): string {
+    return this.has(key) ? this.source(key)! : defaultValue;
+  }
+
+  optional(key: string): string | undefined {
+    return this.has(key) ? this.source(key) : undefined;
+  }
+
+  required(key: string, when = true, reason = ""): string {
+    if (!this.has(key)) {
+      if (when) this.errors.push(`${key} is required${reason}`);
+      return "";
+    }
+    return this.source(key)!;
+  }
+
+  integer(
+    key: string,
+    defaultValue: number,
+    { min = -Infinity, max = Infinity } = {}
+  ): number {
+    if (!this.has(key)) return defaultValue;
+    const raw = this.source(key)!.trim();
+    const value = Number(raw);
+    if (!/^-?\d+$/.test(raw) || value < min || value > max) {
+      const range =
+        max === Infinity ? ` >= ${min}` : ` between ${min} and ${max}`;
+      this.errors.push(`${key} must be an integer${range} (got "${raw}")`);
+      return defaultValue;
+    }
+    return value;
+  }
+
+  boolean(key: string, defaultValue: boolean): boolean {
+    if (!this.has(key)) return defaultValue;
+    const raw = this.source(key)!.trim().toLowerCase();
+    if (["true", "1", "yes", "on"].includes(raw)) return true;
+    if (["false", "0", "no", "off"].includes(raw)) return false;
+    this.errors.push(`${key} must be true or false (got "${raw}")`);
+    return defaultValue;
+  }
+
+  list(key: string, defaultValue: string[] = []): string[] {
+    if (!this.has(key)) return defaultValue;
+    return this.source(key)!
+      .split(",")
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  duration(key: string, defaultValue: string): number {
+    const raw = this.string(key, defaultValue);
+    const value = parseDuration(raw);
+    if (value === null) {
+      this.errors.push(
+        `${key} must be a duration such as 500ms, 30s, 5m or 1h (got "${raw}")`
+      );
+      return parseDuration(defaultValue)!;
+    }
+    return value;
+  }
+
+  byteSize(key: string, defaultValue: string): number {
+    const raw = this.string(key, defaultValue);
+    const value = parseByteSize(raw);
+    if (value === null || value === 0) {
+      this.errors.push(
+        `${key} must be a size such as 512kb or 2mb (got "${raw}")`
+      );
+      return parseByteSize(defaultValue)!;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(
+    key: string,
+    values: readonly T[],
+    defaultValue: T
+  ): T {
+    const raw = this.string(key, defaultValue);
+    if (!(values as readonly string[]).includes(raw)) {
+      this.errors.push(
+        `${key} must be one of: ${values.join(", ")} (got "${raw}")`
+      );
+      return defaultValue;
+    }
+    return raw as T;
+  }
+}
+
+/**
+ * Reads the policy of each {@link RATE_LIMIT_GROUPS} entry:
+ * `RATE_LIMIT_ALGORITHM`, `RATE_LIMIT_WINDOW` and `RATE_LIMIT_MAX` apply to
+ * every group unless overridden by `RATE_LIMIT_<GROUP>_*`, e.g.
+ * `RATE_LIMIT_PUBLIC_MAX`.
+ */
+function readRateLimitPolicies(
+  env: EnvReader
+): Record<RateLimitGroup, RateLimitPolicy> {
+  const defaults: RateLimitPolicy = {
+    algorithm: env.oneOf(
+      "RATE_LIMIT_ALGORITHM",
+      RATE_LIMIT_ALGORITHMS,
+      "sliding-window"
+    ),
+    windowMs: env.duration("RATE_LIMIT_WINDOW", "1m"),
+    max: env.integer("RATE_LIMIT_MAX", 100, { min: 1 }),
+  };
+
+  const policies = {} as Record<RateLimitGroup, RateLimitPolicy>;
+  for (const group of RATE_LIMIT_GROUPS) {
+    const prefix = `RATE_LIMIT_${group.toUpperCase()}`;
+    policies[group] = {
+      algorithm: env.oneOf(
+        `${prefix}_ALGORITHM`,
+        RATE_LIMIT_ALGORITHMS,
+        defaults.algorithm
+      ),
+      windowMs: env.has(`${prefix}_WINDOW`)
+        ? env.duration(`${prefix}_WINDOW`, "1m")
+        : defaults.windowMs,
+      max: env.integer(`${prefix}_MAX`, defaults.max, { min: 1 }),
+    };
+  }
+  return policies;
+}
+
+/**
+ * Parses the configuration without throwing.
+ *
+ * Every variable is coerced to its type with its default applied, then
+ * cross-field rules are checked -- e.g. the Firebase credentials are only
+ * required when `AUTH_VERIFIER=firebase`.
+ *
+ * @param source - Where values come from (default {@link getEnv}, which
+ *   prefers `.env.local` over the process environment)
+ * @returns A complete config, and every validation error found
+ */
+export function parseConfig(source: EnvSource = key => getEnv(key)): {
+  config: Config;
+  errors: string[];
+} {
+  const env = new EnvReader(source);
+
+  const nodeEnv = env.oneOf("NODE_ENV", NODE_ENVS, "development");
+  const verifier = env.oneOf("AUTH_VERIFIER", TOKEN_VERIFIERS, "firebase");
+  const algorithm = env.oneOf("AUTH_JWT_ALGORITHM", JWT_ALGORITHMS, "HS256");
+
+  const usesFirebase = verifier === "firebase";
+  const forFirebase = " when AUTH_VERIFIER=firebase";
+  const usesJwt = verifier === "jwt";
+  // Whoever knows the secret can mint any token, admin roles included, so
+  // there is no default for it to fall back to
+  const usesDev = verifier === "dev";
+
+  const config: Config = {
+    server: {
+      port: env.integer("PORT", 8022, { min: 1, max: 65535 }),
+      nodeEnv,
+      shutdownDelayMs: env.duration("SHUTDOWN_DELAY", "0s"),
+      shutdownTimeoutMs: env.duration("SHUTDOWN_TIMEOUT", "30s"),
+      requestTimeoutMs: env.duration("REQUEST_TIMEOUT", "30s"),
+      bodyLimitBytes: env.byteSize("BODY_LIMIT", "2mb"),
+    },
+    database: {
+      url: env.required("DATABASE_URL"),
+    },
+    auth: {
+      verifier,
+      firebase: {
+        projectId: env.required(
+          "FIREBASE_PROJECT_ID",
+          usesFirebase,
+          forFirebase
+        ),
+        clientEmail: env.required(
+          "FIREBASE_CLIENT_EMAIL",
+          usesFirebase,
+          forFirebase
+        ),
+        privateKey: env
+          .required("FIREBASE_PRIVATE_KEY", usesFirebase, forFirebase)
+          .replace(/\\n/g, "\n"),
+      },
+      jwt: {
+        algorithm,
+        secret: env.optional("AUTH_JWT_SECRET"),
+        publicKey: env.optional("AUTH_JWT_PUBLIC_KEY")?.replace(/\\n/g, "\n"),
+        publicKeyFile: env.optional("AUTH_JWT_PUBLIC_KEY_FILE"),
+        jwksFile: env.optional("AUTH_JWKS_FILE"),
+        issuer: env.optional("AUTH_JWT_ISSUER"),
+        audience: env.optional("AUTH_JWT_AUDIENCE"),
+      },
+      devSecret: env.required(
+        "AUTH_DEV_SECRET",
+        usesDev,
+        " when AUTH_VERIFIER=dev"
+      ),
+      siteAdminEmails: env.list("SITEADMIN_EMAILS"),
+      tokenCacheTtlMs: env.duration("AUTH_TOKEN_CACHE_TTL", "5m"),
+    },
+    cors: {
+      // Browsers may call a development or test API from anywhere; production
+      // must name its front ends
+      origins:
+        nodeEnv === "production"
+          ? env.list("CORS_ORIGINS")
+          : env.list("CORS_ORIGINS", ["*"]),
+    },
+    rateLimit: {
+      enabled: env.boolean("RATE_LIMIT_ENABLED", true),
+      store: env.oneOf("RATE_LIMIT_STORE", RATE_LIMIT_STORES, "memory"),
+      trustProxy: env.boolean("RATE_LIMIT_TRUST_PROXY", false),
+      policies: readRateLimitPolicies(env),
+    },
+    logging: {
+      level: env.oneOf("LOG_LEVEL", LOG_LEVELS, DEFAULT_LOG_LEVELS[nodeEnv]),
+    },
+    metrics: {
+      enabled: env.boolean("METRICS_ENABLED", true),
+      token: env.optional("METRICS_TOKEN"),
+      port: env.has("METRICS_PORT")
+        ? env.integer("METRICS_PORT", 9464, { min: 1, max: 65535 })
+        : undefined,
+      host: env.string("METRICS_HOST", "127.0.0.1"),
+    },
+    openapi: {
+      docsEnabled: env.boolean("OPENAPI_DOCS_ENABLED", true),
+      validateResponses: env.boolean(
+        "OPENAPI_VALIDATE_RESPONSES",
+        nodeEnv === "test"
+      ),
+    },
+    features: {
+      trashRetentionDays: env.integer("HISTORY_TRASH_RETENTION_DAYS", 30, {
+        min: 1,
+      }),
+      historiesTotalCacheTtlSeconds: env.integer(
+        "HISTORIES_TOTAL_CACHE_TTL_SECONDS",
+        60,
+        { min: 0 }
+      ),
+    },
+  };
+
+  const { jwt } = config.auth;
+  if (usesJwt && algorithm === "HS256" && !jwt.secret) {
+    env.errors.push(
+      "AUTH_JWT_SECRET is required when AUTH_VERIFIER=jwt and AUTH_JWT_ALGORITHM=HS256"
+    );
+  }
+  if (
+    usesJwt &&
+    algorithm === "RS256" &&
+    !jwt.publicKey &&
+    !jwt.publicKeyFile &&
+    !jwt.jwksFile
+  ) {
+    env.errors.push(
+      "AUTH_JWT_PUBLIC_KEY, AUTH_JWT_PUBLIC_KEY_FILE or AUTH_JWKS_FILE is required when AUTH_VERIFIER=jwt and AUTH_JWT_ALGORITHM=RS256"
+    );
+  }
+  if (verifier === "dev" && nodeEnv === "production") {
+    env.errors.push(
+      "AUTH_VERIFIER=dev cannot be used when NODE_ENV=production"
+    );
+  }
+  if (nodeEnv === "production" && config.cors.origins.length === 0) {
+    env.errors.push(
+      "CORS_ORIGINS is required when NODE_ENV=production (use * to allow any origin)"
+    );
+  }
+  const { metrics } = config;
+  if (
+    metrics.enabled &&
+    nodeEnv === "production" &&
+    !metrics.token &&
+    metrics.port === undefined
+  ) {
+    env.errors.push(
+      "METRICS_TOKEN or METRICS_PORT is required when NODE_ENV=production, so /metrics is not public (or set METRICS_ENABLED=false)"
+    );
+  }
+  if (metrics.port !== undefined && metrics.port === config.server.port) {
+    env.errors.push("METRICS_PORT must differ from PORT");
+  }
+
+  return { config, errors: env.errors };
+}
+
+/**
+ * Reads and validates the configuration. Call once at startup.
+ *
+ * @param source - Where values come from (default {@link getEnv})
+ * @returns The validated config
+ * @throws {ConfigError} Listing every invalid or missing variable
+ */
+export function loadConfig(source?: EnvSource): Config {
+  const { config, errors } = parseConfig(source);
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+  return config;
+}
+
+/** Placeholder printed instead of secret values */
+const REDACTED = "[redacted]";
+
+/**
+ * Returns a copy of `config` that is safe to log: secrets are replaced by
+ * `[redacted]` and the password in `DATABASE_URL` is masked. Unset secrets
+ * stay empty, so the output still shows whether they are configured.
+ *
+ * @param config - The config to print
+ */
+export function redactConfig(config: Config): Config {
+  const redact = <T extends string | undefined>(value: T): T =>
+    (value ? REDACTED : value) as T;
+
+  let url = config.database.url;
+  try {
+    const { password } = new URL(url);
+    if (password) {
+      url = url.replace(`:${password}@`, `:${REDACTED}@`);
+    }
+  } catch {
+    url = redact(url);
+  }
+
+  return {
+    ...config,
+    database: { ...config.database, url },
+    auth: {
+      ...config.auth,
+      firebase: {
+        ...config.auth.firebase,
+        privateKey: redact(config.auth.firebase.privateKey),
+      },
+      jwt: { ...config.auth.jwt, secret: redact(config.auth.jwt.secret) },
+      devSecret: redact(config.auth.devSecret),
+    },
+    metrics: { ...config.metrics, token: redact(config.metrics.token) },
+  };
+}
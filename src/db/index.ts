@@ -1,24 +1,41 @@
 import { drizzle, type PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
 import postgres, { type Sql } from "postgres";
 import * as schema from "./schema";
 import { getRequiredEnv } from "../lib/env-helper";
+import { runMigrations, checkSchemaDrift } from "./migrator";
+import type { Logger } from "../lib/logger";
 
 let _client: Sql | null = null;
 let _db: PostgresJsDatabase<typeof schema> | null = null;
 
+/** Options of the PostgreSQL client, see {@link getClient} */
+export interface ClientOptions {
+  /**
+   * Postgres `statement_timeout` of every connection, in milliseconds:
+   * queries running longer are cancelled by the server. 0 (the default)
+   * disables it.
+   */
+  statementTimeoutMs?: number;
+}
+
 /**
  * Gets or creates the raw PostgreSQL client connection.
  *
  * Uses the `DATABASE_URL` environment variable for the connection string.
  * The client is created lazily on first call and reused for subsequent calls.
  *
+ * @param options - Applied when the client is created, i.e. on the first
+ *   call; the server entrypoint makes that call before anything else
  * @returns The postgres.js SQL client instance
  * @throws If the `DATABASE_URL` environment variable is not set
  */
-function getClient(): Sql {
+export function getClient({ statementTimeoutMs = 0 }: ClientOptions = {}): Sql {
   if (!_client) {
     const connectionString = getRequiredEnv("DATABASE_URL");
-    _client = postgres(connectionString);
+    _client = postgres(connectionString, {
+      connection: { statement_timeout: statementTimeoutMs },
+    });
   }
   return _client;
 }
@@ -46,53 +63,50 @@ export const db: PostgresJsDatabase<typeof schema> = new Proxy(
 );
 
 /**
- * Initializes the database schema by creating tables if they do not exist.
+ * Any Drizzle database over the application schema, whatever the driver:
+ * postgres.js in production (see {@link db}), or an in-process stand-in such
+ * as PGlite in tests. Handlers receive one through {@link createApp}.
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/** A Drizzle transaction handle, as passed to `db.transaction` callbacks */
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+/**
+ * Brings the database schema up to date by applying pending migrations.
  *
- * Creates the following in the `starter` schema (all operations are idempotent):
- * 1. The `starter` schema itself (`CREATE SCHEMA IF NOT EXISTS`)
- * 2. The `starter.users` table with columns: `firebase_uid` (PK), `email`,
- *    `display_name`, `created_at`, `updated_at`
- * 3. The `starter.histories` table with columns: `id` (UUID PK), `user_id` (FK to users),
- *    `datetime`, `value` (numeric 12,2), `created_at`, `updated_at`
- * 4. An index on `starter.histories(user_id)` for efficient user-scoped queries
+ * Delegates to {@link runMigrations}, which applies every migration in
+ * `src/db/migrations/` that is not yet recorded in the
+ * `superguide.schema_migrations` ledger, inside a single transaction.
+ * Afterwards the live schema is compared with the Drizzle definitions in
+ * `schema.ts` and any drift is logged as a warning.
  *
- * This function uses raw SQL (not Drizzle migrations) and should be called once
- * at application startup. It is safe to call multiple times.
+ * Should be called once at application startup. It is safe to call multiple
+ * times, including from several instances at once.
  *
- * @throws If the database connection fails or SQL execution errors
+ * @param logger - Where progress and drift warnings are written
+ * @throws If the database connection fails, the ledger does not match the
+ *   codebase, or a migration statement errors
  */
-export async function initDatabase() {
+export async function initDatabase(logger: Logger) {
   const client = getClient();
 
-  await client`CREATE SCHEMA IF NOT EXISTS starter`;
-
-  await client`
-    CREATE TABLE IF NOT EXISTS starter.users (
-      firebase_uid VARCHAR(128) PRIMARY KEY,
-      email VARCHAR(255),
-      display_name VARCHAR(255),
-      created_at TIMESTAMP DEFAULT NOW(),
-      updated_at TIMESTAMP DEFAULT NOW()
-    )
-  `;
-
-  await client`
-    CREATE TABLE IF NOT EXISTS starter.histories (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      user_id VARCHAR(128) NOT NULL REFERENCES starter.users(firebase_uid) ON DELETE CASCADE,
-      datetime TIMESTAMP NOT NULL,
-      value NUMERIC(12, 2) NOT NULL,
-      created_at TIMESTAMP DEFAULT NOW(),
-      updated_at TIMESTAMP DEFAULT NOW()
-    )
-  `;
+  const applied = await runMigrations(client);
+  if (applied.length > 0) {
+    logger.info("Applied migrations", { migrations: applied });
+  }
 
-  await client`
-    CREATE INDEX IF NOT EXISTS starter_histories_user_idx
-    ON starter.histories(user_id)
-  `;
+  const drift = await checkSchemaDrift(client);
+  for (const { table, column } of drift) {
+    logger.warn(
+      column
+        ? `Schema drift: column ${table}.${column} is declared in schema.ts but missing from the database`
+        : `Schema drift: table ${table} is declared in schema.ts but missing from the database`,
+      { table, column }
+    );
+  }
 
-  console.log("Database tables initialized");
+  logger.info("Database schema up to date");
 }
 
 /**
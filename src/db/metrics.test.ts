@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import type { Sql } from "postgres";
+import { createAppMetrics } from "../services/metrics";
+import { instrumentClient, queryOperation } from "./metrics";
+
+/**
+ * A stand-in for a postgres.js client: `unsafe` returns a lazy promise,
+ * `begin` hands the callback a transaction handle with its own `unsafe`.
+ */
+function fakeClient(fail = false) {
+  const handle = () => ({
+    unsafe: () => {
+      const query = {
+        then: (
+          resolve: (v: unknown) => unknown,
+          reject: (e: unknown) => unknown
+        ) =>
+          (fail ? Promise.reject(new Error("boom")) : Promise.resolve([])).then(
+            resolve,
+            reject
+          ),
+        values: () => query,
+      };
+      return query;
+    },
+  });
+  return {
+    ...handle(),
+    options: { max: 10 },
+    begin: async (callback: (tx: unknown) => unknown) => callback(handle()),
+  };
+}
+
+describe("queryOperation", () => {
+  it("labels statements by their first keyword", () => {
+    expect(queryOperation('select "id" from "histories"')).toBe("select");
+    expect(queryOperation("  INSERT INTO x VALUES (1)")).toBe("insert");
+    expect(queryOperation("with t as (select 1) select * from t")).toBe("with");
+    expect(queryOperation("TRUNCATE x")).toBe("other");
+  });
+});
+
+describe("instrumentClient", () => {
+  it("times queries and reports pool usage", async () => {
+    const metrics = createAppMetrics();
+    const client = instrumentClient(fakeClient() as unknown as Sql, metrics);
+
+    await client.unsafe("select 1").values();
+    await client.unsafe("delete from x");
+
+    expect(metrics.dbQueryDuration.get({ operation: "select" }).count).toBe(1);
+    expect(metrics.dbQueryDuration.get({ operation: "delete" }).count).toBe(1);
+    expect(metrics.dbPoolMax.get()).toBe(10);
+    expect(metrics.dbPoolActive.get()).toBe(0);
+  });
+
+  it("counts an open transaction as one active connection", async () => {
+    const metrics = createAppMetrics();
+    const client = instrumentClient(fakeClient() as unknown as Sql, metrics);
+
+    const active: number[] = [];
+    await client.begin(async tx => {
+      active.push(metrics.dbPoolActive.get());
+      await tx.unsafe("update x set y = 1");
+      active.push(metrics.dbPoolActive.get());
+    });
+
+    expect(active).toEqual([1, 1]);
+    expect(metrics.dbPoolActive.get()).toBe(0);
+    expect(metrics.dbQueryDuration.get({ operation: "update" }).count).toBe(1);
+  });
+
+  it("records failed queries and passes the error on", async () => {
+    const metrics = createAppMetrics();
+    const client = instrumentClient(
+      fakeClient(true) as unknown as Sql,
+      metrics
+    );
+
+    await expect(client.unsafe("select 1")).rejects.toThrow("boom");
+    expect(metrics.dbQueryDuration.get({ operation: "select" }).count).toBe(1);
+    expect(metrics.dbPoolActive.get()).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import type { Sql } from "postgres";
+import type { AppMetrics } from "../services/metrics";
+
+/** The metrics {@link instrumentClient} records */
+export type DatabaseMetrics = Pick<
+  AppMetrics,
+  "dbQueryDuration" | "dbPoolActive" | "dbPoolMax"
+>;
+
+/** Statement kinds reported as the `operation` label; anything else is `other` */
+const OPERATIONS = new Set(["select", "insert", "update", "delete", "with"]);
+
+/** The `operation` label for a SQL statement: its first keyword */
+export function queryOperation(query: string): string {
+  const keyword = /^\s*([a-z]+)/i.exec(query)?.[1]?.toLowerCase() ?? "";
+  return OPERATIONS.has(keyword) ? keyword : "other";
+}
+
+/**
+ * Wraps the query entry points of a postgres.js client (or transaction
+ * handle) in place. `unsafe` is what Drizzle sends every statement through;
+ * `begin` and `savepoint` hand out new handles, which are wrapped in turn.
+ *
+ * @param countActive - Whether each query holds a pool connection of its own;
+ *   false inside a transaction, whose connection is counted by `begin`
+ */
+function instrument(sql: any, metrics: DatabaseMetrics, countActive: boolean) {
+  const unsafe = sql.unsafe;
+  sql.unsafe = (query: string, ...args: unknown[]) => {
+    const pending = unsafe.call(sql, query, ...args);
+    const then = pending.then;
+    // postgres.js queries are lazy: they run when first awaited
+    pending.then = function (
+      onFulfilled?: (value: unknown) => unknown,
+      onRejected?: (reason: unknown) => unknown
+    ) {
+      const started = performance.now();
+      if (countActive) metrics.dbPoolActive.inc();
+      const done = () => {
+        metrics.dbQueryDuration.observe(
+          { operation: queryOperation(query) },
+          (performance.now() - started) / 1000
+        );
+        if (countActive) metrics.dbPoolActive.dec();
+      };
+      return then.call(
+        this,
+        (value: unknown) => {
+          done();
+          return onFulfilled ? onFulfilled(value) : value;
+        },
+        (reason: unknown) => {
+          done();
+          if (onRejected) return onRejected(reason);
+          throw reason;
+        }
+      );
+    };
+    return pending;
+  };
+
+  for (const method of ["begin", "savepoint"] as const) {
+    const original = sql[method];
+    if (!original) continue;
+    const holdsConnection = method === "begin";
+    sql[method] = (...args: any[]) => {
+      const callback = args.pop();
+      if (holdsConnection) metrics.dbPoolActive.inc();
+      return original
+        .call(sql, ...args, (tx: unknown) =>
+          callback(instrument(tx, metrics, false))
+        )
+        .finally(() => {
+          if (holdsConnection) metrics.dbPoolActive.dec();
+        });
+    };
+  }
+
+  return sql;
+}
+
+/**
+ * Records database metrics for every statement run through `client`:
+ * - `db_query_duration_seconds{operation}` -- time from dispatch to result
+ * - `db_pool_connections_active` -- connections busy with a query outside a
+ *   transaction, or with an open transaction
+ * - `db_pool_connections_max` -- the client's `max` pool size
+ *
+ * The client is modified in place, so the Drizzle instance built on it is
+ * covered too. Call once, before the first query.
+ *
+ * @param client - The postgres.js client (see {@link getClient})
+ * @param metrics - Where to record
+ * @returns The same client
+ */
+export function instrumentClient(client: Sql, metrics: DatabaseMetrics): Sql {
+  metrics.dbPoolMax.set({}, client.options.max);
+  return instrument(client, metrics, true);
+}
@@ -0,0 +1,88 @@
+import { getClient, closeDatabase } from "./index";
+import {
+  runMigrations,
+  rollbackMigrations,
+  getMigrationStatus,
+  checkSchemaDrift,
+} from "./migrator";
+
+/**
+ * Command-line entrypoint for managing database migrations.
+ *
+ * Usage:
+ * - `bun src/db/migrate.ts up` -- apply all pending migrations
+ * - `bun src/db/migrate.ts status` -- list migrations and report schema drift
+ * - `bun src/db/migrate.ts down [steps]` -- roll back the last `steps` migrations (default 1)
+ *
+ * Uses the same `DATABASE_URL` as the API server.
+ */
+async function main(args: string[]): Promise<number> {
+  const [command = "status", stepsArg] = args;
+  const client = getClient();
+
+  switch (command) {
+    case "up": {
+      const applied = await runMigrations(client);
+      console.log(
+        applied.length > 0
+          ? `Applied: ${applied.join(", ")}`
+          : "No pending migrations"
+      );
+      return 0;
+    }
+
+    case "down": {
+      const steps = parseInt(stepsArg || "1", 10);
+      if (!Number.isInteger(steps) || steps < 1) {
+        console.error("steps must be a positive integer");
+        return 1;
+      }
+      const rolledBack = await rollbackMigrations(client, steps);
+      console.log(
+        rolledBack.length > 0
+          ? `Rolled back: ${rolledBack.join(", ")}`
+          : "No migrations to roll back"
+      );
+      return 0;
+    }
+
+    case "status": {
+      const status = await getMigrationStatus(client);
+      for (const m of status) {
+        const appliedAt = m.appliedAt ? m.appliedAt.toISOString() : "-";
+        console.log(
+          `${m.state.padEnd(17)} ${m.id.padEnd(32)} ${appliedAt}  ${m.description}`
+        );
+      }
+
+      const drift = await checkSchemaDrift(client);
+      for (const { table, column } of drift) {
+        console.log(
+          `drift             ${column ? `${table}.${column}` : table}`
+        );
+      }
+
+      const broken = status.some(
+        m => m.state === "checksum_mismatch" || m.state === "unknown"
+      );
+      return broken || drift.length > 0 ? 1 : 0;
+    }
+
+    default:
+      console.error(
+        `Unknown command: ${command}. Use up, down [steps] or status.`
+      );
+      return 1;
+  }
+}
+
+main(process.argv.slice(2))
+  .then(async code => {
+    await closeDatabase();
+    process.exit(code);
+  })
+  .catch(async err => {
+    console.error("Migration command failed:", err);
+    await closeDatabase();
+    process.exit(1);
+  });
@@ -0,0 +1,39 @@
+import type { Migration } from "./types";
+
+/**
+ * Creates the `superguide` schema with the `users` and `histories` tables
+ * exactly as declared in `src/db/schema.ts`.
+ *
+ * Statements use `IF NOT EXISTS` so deployments where the tables were
+ * created by hand are adopted into the ledger without errors.
+ */
+const migration: Migration = {
+  id: "0001_initial_schema",
+  description: "Create superguide schema with users and histories tables",
+  up: [
+    `CREATE SCHEMA IF NOT EXISTS superguide`,
+    `CREATE TABLE IF NOT EXISTS superguide.users (
+      firebase_uid VARCHAR(128) PRIMARY KEY,
+      email VARCHAR(255),
+      display_name VARCHAR(255),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS superguide.histories (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id VARCHAR(128) NOT NULL REFERENCES superguide.users(firebase_uid) ON DELETE CASCADE,
+      datetime TIMESTAMP NOT NULL,
+      value NUMERIC(12, 2) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS superguide_histories_user_idx
+      ON superguide.histories(user_id)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS superguide.histories`,
+    `DROP TABLE IF EXISTS superguide.users`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,59 @@
+import type { Migration } from "./types";
+
+/**
+ * One-time move of data created by the old raw-SQL `initDatabase()`, which
+ * wrote to a `starter` schema, into the `superguide` schema.
+ *
+ * Rows are copied with `ON CONFLICT DO NOTHING` so rows that already exist in
+ * `superguide` win. The old schema is then renamed to `starter_archived`
+ * rather than dropped, so the original data stays available for inspection.
+ * On databases that never had a `starter` schema this migration is a no-op.
+ *
+ * Rolling back renames `starter_archived` back to `starter`; copied rows are
+ * left in place because they may have been modified since the move.
+ */
+const migration: Migration = {
+  id: "0002_move_starter_data",
+  description: "Move legacy starter.* data into the superguide schema",
+  up: [
+    `DO $$
+    BEGIN
+      IF to_regclass('starter.users') IS NOT NULL THEN
+        INSERT INTO superguide.users
+          (firebase_uid, email, display_name, created_at, updated_at)
+        SELECT firebase_uid, email, display_name, created_at, updated_at
+        FROM starter.users
+        ON CONFLICT (firebase_uid) DO NOTHING;
+      END IF;
+
+      IF to_regclass('starter.histories') IS NOT NULL THEN
+        INSERT INTO superguide.histories
+          (id, user_id, datetime, value, created_at, updated_at)
+        SELECT id, user_id, datetime, value, created_at, updated_at
+        FROM starter.histories
+        ON CONFLICT (id) DO NOTHING;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM information_schema.schemata WHERE schema_name = 'starter'
+      ) THEN
+        ALTER SCHEMA starter RENAME TO starter_archived;
+      END IF;
+    END
+    $$`,
+  ],
+  down: [
+    `DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.schemata
+        WHERE schema_name = 'starter_archived'
+      ) THEN
+        ALTER SCHEMA starter_archived RENAME TO starter;
+      END IF;
+    END
+    $$`,
+  ],
+};
+
+export default migration;
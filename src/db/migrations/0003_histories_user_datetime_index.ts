@@ -0,0 +1,24 @@
+import type { Migration } from "./types";
+
+/**
+ * Replaces the single-column `user_id` index on `histories` with a composite
+ * `(user_id, datetime)` index. The composite index still serves plain
+ * user-scoped lookups and also supports datetime ordering and keyset
+ * pagination without a sort step.
+ */
+const migration: Migration = {
+  id: "0003_histories_user_datetime_index",
+  description: "Replace histories user_id index with (user_id, datetime)",
+  up: [
+    `CREATE INDEX IF NOT EXISTS superguide_histories_user_datetime_idx
+      ON superguide.histories(user_id, datetime)`,
+    `DROP INDEX IF EXISTS superguide.superguide_histories_user_idx`,
+  ],
+  down: [
+    `CREATE INDEX IF NOT EXISTS superguide_histories_user_idx
+      ON superguide.histories(user_id)`,
+    `DROP INDEX IF EXISTS superguide.superguide_histories_user_datetime_idx`,
+  ],
+};
+
+export default migration;
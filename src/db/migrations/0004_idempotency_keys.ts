@@ -0,0 +1,27 @@
+import type { Migration } from "./types";
+
+/**
+ * Creates the `idempotency_keys` table used by the `Idempotency-Key`
+ * middleware to store per-user request fingerprints and responses.
+ */
+const migration: Migration = {
+  id: "0004_idempotency_keys",
+  description: "Create idempotency_keys table",
+  up: [
+    `CREATE TABLE IF NOT EXISTS superguide.idempotency_keys (
+      user_id VARCHAR(128) NOT NULL REFERENCES superguide.users(firebase_uid) ON DELETE CASCADE,
+      key VARCHAR(255) NOT NULL,
+      request_hash VARCHAR(64) NOT NULL,
+      response_status INTEGER,
+      response_body JSONB,
+      created_at TIMESTAMP DEFAULT NOW(),
+      expires_at TIMESTAMP NOT NULL,
+      PRIMARY KEY (user_id, key)
+    )`,
+    `CREATE INDEX IF NOT EXISTS superguide_idempotency_keys_expires_idx
+      ON superguide.idempotency_keys(expires_at)`,
+  ],
+  down: [`DROP TABLE IF EXISTS superguide.idempotency_keys`],
+};
+
+export default migration;
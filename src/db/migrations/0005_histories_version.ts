@@ -0,0 +1,17 @@
+import type { Migration } from "./types";
+
+/**
+ * Adds a `version` counter to `histories` for optimistic concurrency.
+ * Existing rows start at version 1.
+ */
+const migration: Migration = {
+  id: "0005_histories_version",
+  description: "Add version column to histories",
+  up: [
+    `ALTER TABLE superguide.histories
+      ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`,
+  ],
+  down: [`ALTER TABLE superguide.histories DROP COLUMN IF EXISTS version`],
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import type { Migration } from "./types";
+
+/**
+ * Adds `deleted_at` to `histories` so deletes move records to a trash from
+ * which they can be restored until the retention purge removes them.
+ */
+const migration: Migration = {
+  id: "0006_histories_soft_delete",
+  description: "Add deleted_at column to histories for soft delete",
+  up: [
+    `ALTER TABLE superguide.histories
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`,
+    `CREATE INDEX IF NOT EXISTS superguide_histories_deleted_at_idx
+      ON superguide.histories(deleted_at)`,
+  ],
+  down: [
+    `DELETE FROM superguide.histories WHERE deleted_at IS NOT NULL`,
+    `DROP INDEX IF EXISTS superguide.superguide_histories_deleted_at_idx`,
+    `ALTER TABLE superguide.histories DROP COLUMN IF EXISTS deleted_at`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import type { Migration } from "./types";
+
+/**
+ * Creates the `history_revisions` table recording the before and after
+ * values of every change to a history record, and who made it.
+ */
+const migration: Migration = {
+  id: "0007_history_revisions",
+  description: "Create history_revisions table",
+  up: [
+    `CREATE TABLE IF NOT EXISTS superguide.history_revisions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      history_id UUID NOT NULL REFERENCES superguide.histories(id) ON DELETE CASCADE,
+      user_id VARCHAR(128) NOT NULL,
+      version INTEGER NOT NULL,
+      action VARCHAR(16) NOT NULL,
+      old_datetime TIMESTAMP NOT NULL,
+      old_value NUMERIC(12, 2) NOT NULL,
+      new_datetime TIMESTAMP NOT NULL,
+      new_value NUMERIC(12, 2) NOT NULL,
+      actor_id VARCHAR(128) NOT NULL,
+      actor_site_admin BOOLEAN NOT NULL DEFAULT FALSE,
+      reverted_revision_id UUID,
+      created_at TIMESTAMP DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS superguide_history_revisions_history_idx
+      ON superguide.history_revisions(history_id, created_at)`,
+  ],
+  down: [`DROP TABLE IF EXISTS superguide.history_revisions`],
+};
+
+export default migration;
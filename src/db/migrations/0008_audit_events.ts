@@ -0,0 +1,34 @@
+import type { Migration } from "./types";
+
+/**
+ * Creates the `audit_events` table recording mutating API calls and site
+ * admin reads of other users' data.
+ */
+const migration: Migration = {
+  id: "0008_audit_events",
+  description: "Create audit_events table",
+  up: [
+    `CREATE TABLE IF NOT EXISTS superguide.audit_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      actor_id VARCHAR(128) NOT NULL,
+      actor_email VARCHAR(255),
+      target_user_id VARCHAR(128),
+      method VARCHAR(8) NOT NULL,
+      route VARCHAR(255) NOT NULL,
+      action VARCHAR(64) NOT NULL,
+      entity_id VARCHAR(128),
+      request_id VARCHAR(128) NOT NULL,
+      status INTEGER NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS superguide_audit_events_actor_idx
+      ON superguide.audit_events(actor_id, created_at)`,
+    `CREATE INDEX IF NOT EXISTS superguide_audit_events_target_idx
+      ON superguide.audit_events(target_user_id, created_at)`,
+    `CREATE INDEX IF NOT EXISTS superguide_audit_events_created_idx
+      ON superguide.audit_events(created_at)`,
+  ],
+  down: [`DROP TABLE IF EXISTS superguide.audit_events`],
+};
+
+export default migration;
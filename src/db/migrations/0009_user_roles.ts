@@ -0,0 +1,21 @@
+import type { Migration } from "./types";
+
+/**
+ * Creates the `user_roles` table granting `admin` and `support` roles to
+ * users independently of their Firebase custom claims.
+ */
+const migration: Migration = {
+  id: "0009_user_roles",
+  description: "Create user_roles table",
+  up: [
+    `CREATE TABLE IF NOT EXISTS superguide.user_roles (
+      user_id VARCHAR(128) NOT NULL REFERENCES superguide.users(firebase_uid) ON DELETE CASCADE,
+      role VARCHAR(32) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      PRIMARY KEY (user_id, role)
+    )`,
+  ],
+  down: [`DROP TABLE IF EXISTS superguide.user_roles`],
+};
+
+export default migration;
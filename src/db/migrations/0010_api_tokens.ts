@@ -0,0 +1,29 @@
+import type { Migration } from "./types";
+
+/**
+ * Creates the `api_tokens` table storing hashed personal access tokens.
+ */
+const migration: Migration = {
+  id: "0010_api_tokens",
+  description: "Create api_tokens table",
+  up: [
+    `CREATE TABLE IF NOT EXISTS superguide.api_tokens (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id VARCHAR(128) NOT NULL REFERENCES superguide.users(firebase_uid) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      token_hash VARCHAR(64) NOT NULL,
+      token_prefix VARCHAR(12) NOT NULL,
+      scopes JSONB NOT NULL,
+      expires_at TIMESTAMP,
+      last_used_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW()
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS superguide_api_tokens_hash_idx
+      ON superguide.api_tokens(token_hash)`,
+    `CREATE INDEX IF NOT EXISTS superguide_api_tokens_user_idx
+      ON superguide.api_tokens(user_id)`,
+  ],
+  down: [`DROP TABLE IF EXISTS superguide.api_tokens`],
+};
+
+export default migration;
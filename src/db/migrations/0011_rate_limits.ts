@@ -0,0 +1,21 @@
+import type { Migration } from "./types";
+
+/**
+ * Creates the `rate_limits` table backing the Postgres rate limit store.
+ */
+const migration: Migration = {
+  id: "0011_rate_limits",
+  description: "Create rate_limits table",
+  up: [
+    `CREATE TABLE IF NOT EXISTS superguide.rate_limits (
+      key VARCHAR(255) PRIMARY KEY,
+      state JSONB NOT NULL,
+      expires_at TIMESTAMP NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS superguide_rate_limits_expires_idx
+      ON superguide.rate_limits(expires_at)`,
+  ],
+  down: [`DROP TABLE IF EXISTS superguide.rate_limits`],
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import type { Migration } from "./types";
+
+/**
+ * Adds a lease to in-progress idempotency keys, so a claim left behind by a
+ * crashed request can be taken over once it lapses, and the response
+ * headers replayed with a stored response.
+ *
+ * Claims already in progress get no lease and can be taken over at once.
+ */
+const migration: Migration = {
+  id: "0012_idempotency_key_leases",
+  description: "Add locked_until and response_headers to idempotency_keys",
+  up: [
+    `ALTER TABLE superguide.idempotency_keys
+      ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP`,
+    `ALTER TABLE superguide.idempotency_keys
+      ADD COLUMN IF NOT EXISTS response_headers JSONB`,
+  ],
+  down: [
+    `ALTER TABLE superguide.idempotency_keys DROP COLUMN IF EXISTS response_headers`,
+    `ALTER TABLE superguide.idempotency_keys DROP COLUMN IF EXISTS locked_until`,
+  ],
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import type { Migration } from "./types";
+import m0001 from "./0001_initial_schema";
+import m0002 from "./0002_move_starter_data";
+import m0003 from "./0003_histories_user_datetime_index";
+import m0004 from "./0004_idempotency_keys";
+import m0005 from "./0005_histories_version";
+import m0006 from "./0006_histories_soft_delete";
+import m0007 from "./0007_history_revisions";
+import m0008 from "./0008_audit_events";
+import m0009 from "./0009_user_roles";
+import m0010 from "./0010_api_tokens";
+import m0011 from "./0011_rate_limits";
+import m0012 from "./0012_idempotency_key_leases";
+
+export type { Migration } from "./types";
+
+/**
+ * All known migrations, in the order they must be applied.
+ *
+ * Migrations are TypeScript modules rather than `.sql` files so they are
+ * included in the `bun build` bundle. To add one, create the next numbered
+ * file in this directory and append it here.
+ */
+export const migrations: Migration[] = [
+  m0001,
+  m0002,
+  m0003,
+  m0004,
+  m0005,
+  m0006,
+  m0007,
+  m0008,
+  m0009,
+  m0010,
+  m0011,
+  m0012,
+];
@@ -0,0 +1,19 @@
+/**
+ * A single versioned schema migration.
+ *
+ * Migrations are applied in ascending `id` order and recorded in the
+ * `superguide.schema_migrations` ledger table. Once a migration has been
+ * applied to any deployment its `up` statements must never change -- the
+ * migrator stores a checksum and refuses to start if it no longer matches.
+ * Add a new migration instead.
+ */
+export interface Migration {
+  /** Sortable identifier, e.g. `"0001_initial_schema"` */
+  id: string;
+  /** Short human-readable description shown by the status command */
+  description: string;
+  /** SQL statements executed in order when applying the migration */
+  up: string[];
+  /** SQL statements executed in order when rolling the migration back */
+  down: string[];
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { getTableConfig } from "drizzle-orm/pg-core";
+import {
+  checksumMigration,
+  planMigrations,
+  SCHEMA_TABLES,
+  type AppliedMigration,
+} from "./migrator";
+import { migrations, type Migration } from "./migrations";
+
+const m1: Migration = {
+  id: "0001_first",
+  description: "first",
+  up: ["CREATE TABLE a (id INT)"],
+  down: ["DROP TABLE a"],
+};
+
+const m2: Migration = {
+  id: "0002_second",
+  description: "second",
+  up: ["CREATE TABLE b (id INT)"],
+  down: ["DROP TABLE b"],
+};
+
+function applied(m: Migration): AppliedMigration {
+  return { id: m.id, checksum: checksumMigration(m), applied_at: new Date() };
+}
+
+describe("migrator", () => {
+  describe("checksumMigration", () => {
+    it("should be stable for the same statements", () => {
+      expect(checksumMigration(m1)).toBe(checksumMigration({ ...m1 }));
+    });
+
+    it("should change when up statements change", () => {
+      const changed = { ...m1, up: ["CREATE TABLE a (id BIGINT)"] };
+      expect(checksumMigration(changed)).not.toBe(checksumMigration(m1));
+    });
+
+    it("should ignore description and down statements", () => {
+      const changed = { ...m1, description: "other", down: [] };
+      expect(checksumMigration(changed)).toBe(checksumMigration(m1));
+    });
+  });
+
+  describe("planMigrations", () => {
+    it("should return all migrations when none are applied", () => {
+      expect(planMigrations([m1, m2], []).map(m => m.id)).toEqual([
+        "0001_first",
+        "0002_second",
+      ]);
+    });
+
+    it("should skip applied migrations", () => {
+      expect(planMigrations([m1, m2], [applied(m1)]).map(m => m.id)).toEqual([
+        "0002_second",
+      ]);
+    });
+
+    it("should order pending migrations by id", () => {
+      expect(planMigrations([m2, m1], []).map(m => m.id)).toEqual([
+        "0001_first",
+        "0002_second",
+      ]);
+    });
+
+    it("should throw when an applied migration was modified", () => {
+      const row = { ...applied(m1), checksum: "stale" };
+      expect(() => planMigrations([m1, m2], [row])).toThrow(
+        "has been modified after it was applied"
+      );
+    });
+
+    it("should throw when an applied migration is missing from the codebase", () => {
+      expect(() => planMigrations([m2], [applied(m1)])).toThrow(
+        "does not exist in the codebase"
+      );
+    });
+  });
+
+  describe("registered migrations", () => {
+    it("should have unique ids in ascending order", () => {
+      const ids = migrations.map(m => m.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect([...ids].sort()).toEqual(ids);
+    });
+
+    it("should create every column declared in schema.ts", () => {
+      const sql = migrations.flatMap(m => m.up).join("\n");
+      expect(SCHEMA_TABLES.length).toBeGreaterThan(0);
+      for (const table of SCHEMA_TABLES) {
+        const config = getTableConfig(table);
+        expect(sql).toContain(`superguide.${config.name}`);
+        for (const column of config.columns) {
+          expect(sql).toContain(column.name);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import { createHash } from "crypto";
+import { is } from "drizzle-orm";
+import {
+  getTableConfig,
+  PgTable,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import type { Sql, TransactionSql } from "postgres";
+import { migrations as allMigrations, type Migration } from "./migrations";
+import * as schema from "./schema";
+import type { Database } from "./index";
+
+/** Schema that holds every application table, including the ledger */
+const SCHEMA = "superguide";
+
+/**
+ * Key for the transaction-scoped advisory lock that serializes migration runs,
+ * so several instances starting at once cannot apply the same migration twice.
+ */
+const LOCK_KEY = "superguide_schema_migrations";
+
+/**
+ * Every Drizzle table declared in `schema.ts`, which the migrations are
+ * expected to produce. Used by {@link checkSchemaDrift} to detect a database
+ * that no longer matches `schema.ts`.
+ */
+export const SCHEMA_TABLES: PgTable[] = (
+  Object.values(schema) as unknown[]
+).filter((value): value is PgTable => is(value, PgTable));
+
+/** A row of the `superguide.schema_migrations` ledger table */
+export interface AppliedMigration {
+  id: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/** Status of a single migration as reported by {@link getMigrationStatus} */
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  /**
+   * - `applied` -- recorded in the ledger with a matching checksum
+   * - `pending` -- not yet applied
+   * - `checksum_mismatch` -- applied, but its `up` statements have since changed
+   * - `unknown` -- recorded in the ledger but missing from the codebase
+   */
+  state: "applied" | "pending" | "checksum_mismatch" | "unknown";
+  appliedAt: Date | null;
+}
+
+/** A column declared in `schema.ts` that is missing from the database */
+export interface SchemaDrift {
+  table: string;
+  column: string | null;
+}
+
+/**
+ * Computes a stable SHA-256 checksum of a migration's `up` statements.
+ *
+ * @param migration - The migration to hash
+ * @returns Hex-encoded checksum stored in the ledger when the migration is applied
+ */
+export function checksumMigration(migration: Migration): string {
+  return createHash("sha256").update(migration.up.join("\n;\n")).digest("hex");
+}
+
+/**
+ * Determines which migrations still need to be applied.
+ *
+ * Validates the ledger against the known migrations first: every applied
+ * migration must still exist and must still have the same checksum. Either
+ * condition failing means the code and database have diverged, which is
+ * reported as an error rather than silently skipped.
+ *
+ * @param known - All migrations in the codebase, in order
+ * @param applied - Rows from the ledger table
+ * @returns Migrations not yet applied, in the order they must run
+ * @throws If an applied migration is unknown or its checksum has changed
+ */
+export function planMigrations(
+  known: Migration[],
+  applied: AppliedMigration[]
+): Migration[] {
+  const knownById = new Map(known.map(m => [m.id, m]));
+
+  for (const row of applied) {
+    const migration = knownById.get(row.id);
+    if (!migration) {
+      throw new Error(
+        `Migration ${row.id} is recorded in the database but does not exist in the codebase`
+      );
+    }
+    if (checksumMigration(migration) !== row.checksum) {
+      throw new Error(
+        `Migration ${row.id} has been modified after it was applied; add a new migration instead`
+      );
+    }
+  }
+
+  const appliedIds = new Set(applied.map(row => row.id));
+  return [...known]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .filter(m => !appliedIds.has(m.id));
+}
+
+/**
+ * Statements that create the ledger table if it does not exist. The ledger
+ * is managed here rather than by a migration, so it is not in `schema.ts`.
+ */
+export const LEDGER_DDL = [
+  `CREATE SCHEMA IF NOT EXISTS ${SCHEMA}`,
+  `
+    CREATE TABLE IF NOT EXISTS ${SCHEMA}.schema_migrations (
+      id VARCHAR(255) PRIMARY KEY,
+      description TEXT NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `,
+];
+
+/** The ledger as a Drizzle table, for reading it through a {@link Database} */
+export const schemaMigrations = schema.starterSchema.table(
+  "schema_migrations",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    description: text("description").notNull(),
+    checksum: varchar("checksum", { length: 64 }).notNull(),
+    applied_at: timestamp("applied_at").notNull().defaultNow(),
+  }
+);
+
+/**
+ * Acquires the migration lock and makes sure the ledger table exists.
+ * Must be called inside a transaction; the lock is released on commit/rollback.
+ */
+async function prepareLedger(tx: TransactionSql): Promise<void> {
+  await tx`SELECT pg_advisory_xact_lock(hashtext(${LOCK_KEY}))`;
+  for (const statement of LEDGER_DDL) {
+    await tx.unsafe(statement);
+  }
+}
+
+/** Reads the ledger, oldest migration first */
+async function readLedger(
+  sql: Sql | TransactionSql
+): Promise<AppliedMigration[]> {
+  return sql.unsafe<AppliedMigration[]>(
+    `SELECT id, checksum, applied_at FROM ${SCHEMA}.schema_migrations ORDER BY id`
+  );
+}
+
+/**
+ * Applies all pending migrations.
+ *
+ * Runs in a single transaction guarded by an advisory lock: either every
+ * pending migration is applied and recorded in the ledger, or none are.
+ *
+ * @param client - The postgres.js client
+ * @param known - Migrations to consider (defaults to all migrations in the codebase)
+ * @returns The ids of the migrations that were applied, in order
+ * @throws If the ledger does not match the codebase or a statement fails
+ */
+export async function runMigrations(
+  client: Sql,
+  known: Migration[] = allMigrations
+): Promise<string[]> {
+  return client.begin(async tx => {
+    // Index builds may outlast the request timeout the pool is configured with
+    await tx.unsafe("SET LOCAL statement_timeout = 0");
+    await prepareLedger(tx);
+    const pending = planMigrations(known, await readLedger(tx));
+
+    for (const migration of pending) {
+      for (const statement of migration.up) {
+        await tx.unsafe(statement);
+      }
+      await tx.unsafe(
+        `INSERT INTO ${SCHEMA}.schema_migrations (id, description, checksum) VALUES ($1, $2, $3)`,
+        [migration.id, migration.description, checksumMigration(migration)]
+      );
+    }
+
+    return pending.map(m => m.id);
+  });
+}
+
+/**
+ * Rolls back the most recently applied migrations.
+ *
+ * Executes each migration's `down` statements newest first and removes it from
+ * the ledger, all inside one transaction.
+ *
+ * @param client - The postgres.js client
+ * @param steps - Number of migrations to roll back (default 1)
+ * @param known - Migrations to consider (defaults to all migrations in the codebase)
+ * @returns The ids of the migrations that were rolled back, newest first
+ * @throws If an applied migration no longer exists in the codebase
+ */
+export async function rollbackMigrations(
+  client: Sql,
+  steps = 1,
+  known: Migration[] = allMigrations
+): Promise<string[]> {
+  const knownById = new Map(known.map(m => [m.id, m]));
+
+  return client.begin(async tx => {
+    await prepareLedger(tx);
+    const applied = (await readLedger(tx)).reverse().slice(0, steps);
+
+    for (const row of applied) {
+      const migration = knownById.get(row.id);
+      if (!migration) {
+        throw new Error(
+          `Cannot roll back ${row.id}: migration does not exist in the codebase`
+        );
+      }
+      for (const statement of migration.down) {
+        await tx.unsafe(statement);
+      }
+      await tx.unsafe(`DELETE FROM ${SCHEMA}.schema_migrations WHERE id = $1`, [
+        row.id,
+      ]);
+    }
+
+    return applied.map(row => row.id);
+  });
+}
+
+/**
+ * Reports the state of every migration, known or recorded.
+ *
+ * Unlike {@link runMigrations} this never throws on ledger mismatches; they are
+ * reported as `checksum_mismatch` or `unknown` entries instead.
+ *
+ * @param client - The postgres.js client
+ * @param known - Migrations to consider (defaults to all migrations in the codebase)
+ * @returns One entry per migration, sorted by id
+ */
+export async function getMigrationStatus(
+  client: Sql,
+  known: Migration[] = allMigrations
+): Promise<MigrationStatus[]> {
+  const [{ exists }] = await client<{ exists: boolean }[]>`
+    SELECT to_regclass(${`${SCHEMA}.schema_migrations`}) IS NOT NULL AS exists
+  `;
+  const applied = exists ? await readLedger(client) : [];
+  const appliedById = new Map(applied.map(row => [row.id, row]));
+
+  const result: MigrationStatus[] = known.map(m => {
+    const row = appliedById.get(m.id);
+    return {
+      id: m.id,
+      description: m.description,
+      state: !row
+        ? "pending"
+        : row.checksum === checksumMigration(m)
+          ? "applied"
+          : "checksum_mismatch",
+      appliedAt: row?.applied_at ?? null,
+    };
+  });
+
+  const knownIds = new Set(known.map(m => m.id));
+  for (const row of applied) {
+    if (!knownIds.has(row.id)) {
+      result.push({
+        id: row.id,
+        description: "",
+        state: "unknown",
+        appliedAt: row.applied_at,
+      });
+    }
+  }
+
+  return result.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Lists the known migrations the ledger does not record as applied.
+ *
+ * Runs through the application's Drizzle database rather than a postgres.js
+ * client, for the readiness probe.
+ *
+ * @param db - The database
+ * @param known - Migrations to consider (defaults to all migrations in the codebase)
+ * @returns Ids of the pending migrations, in order
+ * @throws If the ledger cannot be read or does not match the codebase (see
+ *   {@link planMigrations})
+ */
+export async function listPendingMigrations(
+  db: Database,
+  known: Migration[] = allMigrations
+): Promise<string[]> {
+  const applied = await db
+    .select({
+      id: schemaMigrations.id,
+      checksum: schemaMigrations.checksum,
+      applied_at: schemaMigrations.applied_at,
+    })
+    .from(schemaMigrations);
+  return planMigrations(known, applied).map(m => m.id);
+}
+
+/**
+ * Compares the live database against the Drizzle table definitions.
+ *
+ * Every table and column declared in `schema.ts` must exist in the database
+ * once all migrations have run. A non-empty result means a schema change was
+ * made in `schema.ts` without a matching migration.
+ *
+ * @param client - The postgres.js client
+ * @returns Missing tables (`column: null`) and columns; empty when in sync
+ */
+export async function checkSchemaDrift(client: Sql): Promise<SchemaDrift[]> {
+  const rows = await client<{ table_name: string; column_name: string }[]>`
+    SELECT table_name, column_name
+    FROM information_schema.columns
+    WHERE table_schema = ${SCHEMA}
+  `;
+
+  const existing = new Map<string, Set<string>>();
+  for (const row of rows) {
+    if (!existing.has(row.table_name)) {
+      existing.set(row.table_name, new Set());
+    }
+    existing.get(row.table_name)!.add(row.column_name);
+  }
+
+  const drift: SchemaDrift[] = [];
+  for (const table of SCHEMA_TABLES) {
+    const config = getTableConfig(table);
+    const columns = existing.get(config.name);
+    if (!columns) {
+      drift.push({ table: config.name, column: null });
+      continue;
+    }
+    for (const column of config.columns) {
+      if (!columns.has(column.name)) {
+        drift.push({ table: config.name, column: column.name });
+      }
+    }
+  }
+
+  return drift;
+}
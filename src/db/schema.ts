@@ -5,13 +5,21 @@ import {
   timestamp,
   numeric,
   index,
+  integer,
+  jsonb,
+  primaryKey,
+  boolean,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 
 /**
- * The `starter` PostgreSQL schema.
+ * The `superguide` PostgreSQL schema.
  *
- * All tables for the Starter application are created under this schema
+ * All tables for the Superguide application are created under this schema
  * to isolate them from other applications sharing the same database.
+ *
+ * Changes to the tables below must be accompanied by a new migration in
+ * `src/db/migrations/`; the migrator reports any drift at startup.
  */
 export const starterSchema = pgSchema("superguide");
 
@@ -20,7 +28,7 @@ export const starterSchema = pgSchema("superguide");
 // =============================================================================
 
 /**
- * Drizzle ORM definition for the `starter.users` table.
+ * Drizzle ORM definition for the `superguide.users` table.
  *
  * Stores user accounts keyed by Firebase Authentication UID.
  * Users are auto-created on their first authenticated API request
@@ -41,12 +49,42 @@ export const users = starterSchema.table("users", {
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// =============================================================================
+// User Roles Table
+// =============================================================================
+
+/**
+ * Drizzle ORM definition for the `superguide.user_roles` table.
+ *
+ * Grants roles (see {@link ROLES}) to users, in addition to any carried in
+ * their Firebase custom claims. Users without a row hold only the implicit
+ * `user` role.
+ *
+ * Columns:
+ * - `user_id` (VARCHAR 128, PK part, FK -> users.firebase_uid) - The user
+ * - `role` (VARCHAR 32, PK part) - `admin`, `support` or `user`
+ * - `created_at` (TIMESTAMP, default NOW()) - When the role was granted
+ */
+export const userRoles = starterSchema.table(
+  "user_roles",
+  {
+    user_id: varchar("user_id", { length: 128 })
+      .notNull()
+      .references(() => users.firebase_uid, { onDelete: "cascade" }),
+    role: varchar("role", { length: 32 }).notNull(),
+    created_at: timestamp("created_at").defaultNow(),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.user_id, table.role] }),
+  })
+);
+
 // =============================================================================
 // Histories Table
 // =============================================================================
 
 /**
- * Drizzle ORM definition for the `starter.histories` table.
+ * Drizzle ORM definition for the `superguide.histories` table.
  *
  * Stores historical data points associated with users. Each record has a
  * datetime and a numeric value. Records are cascade-deleted when their
@@ -57,11 +95,19 @@ export const users = starterSchema.table("users", {
  * - `user_id` (VARCHAR 128, FK -> users.firebase_uid, NOT NULL) - Owning user
  * - `datetime` (TIMESTAMP, NOT NULL) - When the event occurred
  * - `value` (NUMERIC 12,2, NOT NULL) - Numeric value for the record
+ * - `version` (INTEGER, NOT NULL, default 1) - Incremented on every update;
+ *   exposed as the record's `ETag` for optimistic concurrency
  * - `created_at` (TIMESTAMP, default NOW()) - Record creation time
  * - `updated_at` (TIMESTAMP, default NOW()) - Last update time
+ * - `deleted_at` (TIMESTAMP, nullable) - When the record was moved to the
+ *   trash; null for live records. Trashed records are hidden from all queries
+ *   and hard-deleted after the retention window
  *
  * Indexes:
- * - `superguide_histories_user_idx` on `user_id` for efficient user-scoped queries
+ * - `superguide_histories_user_datetime_idx` on `(user_id, datetime)` for
+ *   user-scoped queries, datetime ordering and keyset pagination
+ * - `superguide_histories_deleted_at_idx` on `deleted_at` for trash listing
+ *   and the retention purge
  */
 export const histories = starterSchema.table(
   "histories",
@@ -72,10 +118,271 @@ export const histories = starterSchema.table(
       .references(() => users.firebase_uid, { onDelete: "cascade" }),
     datetime: timestamp("datetime").notNull(),
     value: numeric("value", { precision: 12, scale: 2 }).notNull(),
+    version: integer("version").notNull().default(1),
     created_at: timestamp("created_at").defaultNow(),
     updated_at: timestamp("updated_at").defaultNow(),
+    deleted_at: timestamp("deleted_at"),
+  },
+  table => ({
+    userDatetimeIdx: index("superguide_histories_user_datetime_idx").on(
+      table.user_id,
+      table.datetime
+    ),
+    deletedAtIdx: index("superguide_histories_deleted_at_idx").on(
+      table.deleted_at
+    ),
+  })
+);
+
+// =============================================================================
+// Idempotency Keys Table
+// =============================================================================
+
+/**
+ * Drizzle ORM definition for the `superguide.idempotency_keys` table.
+ *
+ * Records the outcome of mutating requests sent with an `Idempotency-Key`
+ * header so that retries return the original response instead of repeating
+ * the mutation (see {@link idempotency}). Keys are scoped per user.
+ *
+ * Columns:
+ * - `user_id` (VARCHAR 128, PK part, FK -> users.firebase_uid) - Authenticated user
+ * - `key` (VARCHAR 255, PK part) - Client-supplied idempotency key
+ * - `request_hash` (VARCHAR 64, NOT NULL) - SHA-256 of method, path and body
+ * - `response_status` (INTEGER, nullable) - Stored status; null while in progress
+ * - `response_body` (JSONB, nullable) - Stored response body
+ * - `response_headers` (JSONB, nullable) - Stored response headers replayed
+ *   with the body, e.g. `ETag`
+ * - `locked_until` (TIMESTAMP, nullable) - While in progress, until when the
+ *   claim holds; a lapsed claim may be taken over by a retry
+ * - `created_at` (TIMESTAMP, default NOW()) - When the key was first seen
+ * - `expires_at` (TIMESTAMP, NOT NULL) - When the key may be reused
+ *
+ * Indexes:
+ * - `superguide_idempotency_keys_expires_idx` on `expires_at` for purging
+ */
+export const idempotencyKeys = starterSchema.table(
+  "idempotency_keys",
+  {
+    user_id: varchar("user_id", { length: 128 })
+      .notNull()
+      .references(() => users.firebase_uid, { onDelete: "cascade" }),
+    key: varchar("key", { length: 255 }).notNull(),
+    request_hash: varchar("request_hash", { length: 64 }).notNull(),
+    response_status: integer("response_status"),
+    response_body: jsonb("response_body"),
+    response_headers: jsonb("response_headers").$type<Record<string, string>>(),
+    locked_until: timestamp("locked_until"),
+    created_at: timestamp("created_at").defaultNow(),
+    expires_at: timestamp("expires_at").notNull(),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.user_id, table.key] }),
+    expiresIdx: index("superguide_idempotency_keys_expires_idx").on(
+      table.expires_at
+    ),
+  })
+);
+
+// =============================================================================
+// History Revisions Table
+// =============================================================================
+
+/**
+ * Drizzle ORM definition for the `superguide.history_revisions` table.
+ *
+ * Append-only log of changes to history records. A row is written whenever
+ * a history is updated, moved to the trash, restored or reverted, capturing
+ * the values before and after the change and who made it. Revisions are
+ * cascade-deleted when their history is permanently purged.
+ *
+ * Columns:
+ * - `id` (UUID, PK, auto-generated) - Unique revision identifier
+ * - `history_id` (UUID, FK -> histories.id, NOT NULL) - The changed record
+ * - `user_id` (VARCHAR 128, NOT NULL) - The record's owner
+ * - `version` (INTEGER, NOT NULL) - The record's `version` after the change
+ * - `action` (VARCHAR 16, NOT NULL) - `update`, `delete`, `restore` or `revert`
+ * - `old_datetime` / `old_value` (NOT NULL) - Values before the change
+ * - `new_datetime` / `new_value` (NOT NULL) - Values after the change
+ * - `actor_id` (VARCHAR 128, NOT NULL) - Firebase UID of the user who made it
+ * - `actor_site_admin` (BOOLEAN, NOT NULL, default false) - Whether the actor
+ *   changed another user's record through the site admin bypass
+ * - `reverted_revision_id` (UUID, nullable) - For `revert`, the revision
+ *   whose old values were restored
+ * - `created_at` (TIMESTAMP, default NOW()) - When the change was made
+ *
+ * Indexes:
+ * - `superguide_history_revisions_history_idx` on `(history_id, created_at)`
+ *   for listing a record's revisions
+ */
+export const historyRevisions = starterSchema.table(
+  "history_revisions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    history_id: uuid("history_id")
+      .notNull()
+      .references(() => histories.id, { onDelete: "cascade" }),
+    user_id: varchar("user_id", { length: 128 }).notNull(),
+    version: integer("version").notNull(),
+    action: varchar("action", { length: 16 }).notNull(),
+    old_datetime: timestamp("old_datetime").notNull(),
+    old_value: numeric("old_value", { precision: 12, scale: 2 }).notNull(),
+    new_datetime: timestamp("new_datetime").notNull(),
+    new_value: numeric("new_value", { precision: 12, scale: 2 }).notNull(),
+    actor_id: varchar("actor_id", { length: 128 }).notNull(),
+    actor_site_admin: boolean("actor_site_admin").notNull().default(false),
+    reverted_revision_id: uuid("reverted_revision_id"),
+    created_at: timestamp("created_at").defaultNow(),
+  },
+  table => ({
+    historyIdx: index("superguide_history_revisions_history_idx").on(
+      table.history_id,
+      table.created_at
+    ),
+  })
+);
+
+// =============================================================================
+// Audit Events Table
+// =============================================================================
+
+/**
+ * Drizzle ORM definition for the `superguide.audit_events` table.
+ *
+ * Append-only log of every mutating API call and every read of another
+ * user's data by a site admin (see {@link audit}). There are deliberately no
+ * foreign keys: events must outlive the users and records they mention.
+ *
+ * Columns:
+ * - `id` (UUID, PK, auto-generated) - Unique event identifier
+ * - `actor_id` (VARCHAR 128, NOT NULL) - Firebase UID of the caller
+ * - `actor_email` (VARCHAR 255, nullable) - The caller's email at the time
+ * - `target_user_id` (VARCHAR 128, nullable) - The `:userId` acted upon
+ * - `method` (VARCHAR 8, NOT NULL) - HTTP method
+ * - `route` (VARCHAR 255, NOT NULL) - Matched route pattern, e.g.
+ *   `/api/v1/users/:userId/histories/:historyId`
+ * - `action` (VARCHAR 64, NOT NULL) - Named action, e.g. `history.update`
+ * - `entity_id` (VARCHAR 128, nullable) - Id of the affected record
+ * - `request_id` (VARCHAR 128, NOT NULL) - Correlates the event with logs
+ * - `status` (INTEGER, NOT NULL) - HTTP status of the response
+ * - `created_at` (TIMESTAMP, NOT NULL, default NOW()) - When it happened
+ *
+ * Indexes:
+ * - `superguide_audit_events_actor_idx` on `(actor_id, created_at)`
+ * - `superguide_audit_events_target_idx` on `(target_user_id, created_at)`
+ * - `superguide_audit_events_created_idx` on `created_at` for time-range scans
+ */
+export const auditEvents = starterSchema.table(
+  "audit_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    actor_id: varchar("actor_id", { length: 128 }).notNull(),
+    actor_email: varchar("actor_email", { length: 255 }),
+    target_user_id: varchar("target_user_id", { length: 128 }),
+    method: varchar("method", { length: 8 }).notNull(),
+    route: varchar("route", { length: 255 }).notNull(),
+    action: varchar("action", { length: 64 }).notNull(),
+    entity_id: varchar("entity_id", { length: 128 }),
+    request_id: varchar("request_id", { length: 128 }).notNull(),
+    status: integer("status").notNull(),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  table => ({
+    actorIdx: index("superguide_audit_events_actor_idx").on(
+      table.actor_id,
+      table.created_at
+    ),
+    targetIdx: index("superguide_audit_events_target_idx").on(
+      table.target_user_id,
+      table.created_at
+    ),
+    createdIdx: index("superguide_audit_events_created_idx").on(
+      table.created_at
+    ),
+  })
+);
+
+// =============================================================================
+// API Tokens Table
+// =============================================================================
+
+/**
+ * Drizzle ORM definition for the `superguide.api_tokens` table.
+ *
+ * Personal access tokens that let scripts and integrations authenticate
+ * without a short-lived Firebase ID token. Only a SHA-256 hash of each token
+ * is stored (see {@link hashApiToken}).
+ *
+ * Columns:
+ * - `id` (UUID, PK, auto-generated) - Unique token identifier
+ * - `user_id` (VARCHAR 128, FK -> users.firebase_uid, NOT NULL) - Owner
+ * - `name` (VARCHAR 100, NOT NULL) - Display name chosen by the owner
+ * - `token_hash` (VARCHAR 64, NOT NULL, unique) - SHA-256 of the token
+ * - `token_prefix` (VARCHAR 12, NOT NULL) - First characters of the token,
+ *   so owners can tell their tokens apart
+ * - `scopes` (JSONB, NOT NULL) - Permissions the token grants, e.g.
+ *   `["histories:read"]`
+ * - `expires_at` (TIMESTAMP, nullable) - Null for tokens that never expire
+ * - `last_used_at` (TIMESTAMP, nullable) - When the token last authenticated
+ * - `created_at` (TIMESTAMP, default NOW()) - Creation time
+ *
+ * Indexes:
+ * - `superguide_api_tokens_hash_idx` (unique) on `token_hash` for lookup
+ * - `superguide_api_tokens_user_idx` on `user_id` for listing
+ */
+export const apiTokens = starterSchema.table(
+  "api_tokens",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    user_id: varchar("user_id", { length: 128 })
+      .notNull()
+      .references(() => users.firebase_uid, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    token_hash: varchar("token_hash", { length: 64 }).notNull(),
+    token_prefix: varchar("token_prefix", { length: 12 }).notNull(),
+    scopes: jsonb("scopes").$type<string[]>().notNull(),
+    expires_at: timestamp("expires_at"),
+    last_used_at: timestamp("last_used_at"),
+    created_at: timestamp("created_at").defaultNow(),
+  },
+  table => ({
+    hashIdx: uniqueIndex("superguide_api_tokens_hash_idx").on(
+      table.token_hash
+    ),
+    userIdx: index("superguide_api_tokens_user_idx").on(table.user_id),
+  })
+);
+
+// =============================================================================
+// Rate Limits Table
+// =============================================================================
+
+/**
+ * Drizzle ORM definition for the `superguide.rate_limits` table.
+ *
+ * Per-client rate limit state of the Postgres rate limit store, shared by
+ * every instance (see {@link createPostgresRateLimitStore}). Rows are
+ * locked while a request is counted and purged once expired.
+ *
+ * Columns:
+ * - `key` (VARCHAR 255, PK) - Route group and client, e.g. `public:ip:203.0.113.7`
+ * - `state` (JSONB, NOT NULL) - The algorithm's state (see {@link RateLimitState});
+ *   `{}` for a row inserted but not yet counted
+ * - `expires_at` (TIMESTAMP, NOT NULL) - When the state no longer matters
+ *
+ * Indexes:
+ * - `superguide_rate_limits_expires_idx` on `expires_at` for purging
+ */
+export const rateLimits = starterSchema.table(
+  "rate_limits",
+  {
+    key: varchar("key", { length: 255 }).primaryKey(),
+    state: jsonb("state").notNull(),
+    expires_at: timestamp("expires_at").notNull(),
   },
-  (table) => ({
-    userIdx: index("superguide_histories_user_idx").on(table.user_id),
+  table => ({
+    expiresIdx: index("superguide_rate_limits_expires_idx").on(
+      table.expires_at
+    ),
   })
 );
@@ -0,0 +1,55 @@
+import { parseConfig } from "./config";
+import { createDevVerifier } from "./services/jwtVerifier";
+
+/**
+ * Command-line entrypoint for minting tokens accepted by the `dev` token
+ * verifier (`AUTH_VERIFIER=dev`).
+ *
+ * Usage:
+ * - `bun run auth:dev-token <uid> [email] [roles] [ttlSeconds]`
+ *
+ * `roles` is comma-separated (e.g. `admin,support`); `ttlSeconds` defaults to
+ * one hour. Signs with the same `AUTH_DEV_SECRET` as the API server and
+ * prints the token, ready for `Authorization: Bearer <token>`.
+ */
+async function main(args: string[]): Promise<number> {
+  const [uid, email, roles, ttlArg] = args;
+  if (!uid) {
+    console.error(
+      "Usage: bun run auth:dev-token <uid> [email] [roles] [ttlSeconds]"
+    );
+    return 1;
+  }
+
+  const ttlSeconds = parseInt(ttlArg || "3600", 10);
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+    console.error("ttlSeconds must be a positive integer");
+    return 1;
+  }
+
+  // Only the auth settings matter here, so other config errors are ignored
+  const { auth } = parseConfig().config;
+  if (auth.verifier !== "dev") {
+    console.warn(
+      "Note: the API only accepts this token with AUTH_VERIFIER=dev"
+    );
+  }
+
+  const token = await createDevVerifier(auth.devSecret).mint(
+    {
+      uid,
+      ...(email && { email }),
+      ...(roles && { roles: roles.split(",").map(role => role.trim()) }),
+    },
+    ttlSeconds
+  );
+  console.log(token);
+  return 0;
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error("Failed to mint dev token:", err);
+    process.exit(1);
+  });
@@ -1,74 +1,122 @@
-import { Hono } from "hono";
-import { cors } from "hono/cors";
-import { logger } from "hono/logger";
-import { initDatabase } from "./db";
-import routes from "./routes";
-import { successResponse, errorResponse } from "@sudobility/superguide_types";
-import { getEnv } from "./lib/env-helper";
-
-const app = new Hono();
-
-app.use("*", logger());
-app.use("*", cors());
+import { closeDatabase, db, getClient, initDatabase } from "./db";
+import { instrumentClient } from "./db/metrics";
+import { createApp, createMetricsApp, systemClock } from "./app";
+import { ConfigError, loadConfig, redactConfig } from "./config";
+import { createLogger } from "./lib/logger";
+import { createLifecycle } from "./services/health";
+import { createAppMetrics } from "./services/metrics";
+import {
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+} from "./services/rateLimitStore";
+import { startMetricsServer } from "./services/metricsServer";
+import { createTokenVerifier } from "./services/tokenVerifier";
+import { shutdown } from "./services/shutdown";
+import { startTrashPurgeSchedule } from "./services/trashPurge";
+import { startIdempotencyPurgeSchedule } from "./services/idempotencyPurge";
 
 /**
- * Global error handler for unhandled exceptions.
- *
- * Catches any errors that propagate from route handlers or middleware
- * (e.g., database connection failures, constraint violations, unexpected runtime errors)
- * and returns a properly formatted `errorResponse` with a 500 status code.
- *
- * This prevents raw stack traces from being exposed in production responses.
- * The original error is logged to stderr for debugging purposes.
+ * Validates the configuration before anything else runs, so a bad
+ * environment fails fast with every problem listed at once.
  */
-app.onError((err, c) => {
-  console.error("Unhandled error:", err);
-  return c.json(errorResponse("Internal server error"), 500);
-});
+function loadConfigOrExit() {
+  try {
+    return loadConfig();
+  } catch (err) {
+    console.error(err instanceof ConfigError ? err.message : err);
+    process.exit(1);
+  }
+}
 
-/**
- * GET / - Root endpoint returning API metadata.
- *
- * Public endpoint that returns the API name, version, and health status.
- * Useful for service discovery and basic connectivity checks.
- */
-app.get("/", (c) => {
-  return c.json(
-    successResponse({
-      name: "Starter API",
-      version: "1.0.0",
-      status: "healthy",
-    })
-  );
-});
+const config = loadConfigOrExit();
+const logger = createLogger({ level: config.logging.level });
+logger.info("Configuration loaded", { config: redactConfig(config) });
 
-/**
- * GET /health - Health check endpoint.
- *
- * Public endpoint that returns a simple health status.
- * Used by load balancers, container orchestrators, and monitoring systems
- * to determine if the service is running.
- */
-app.get("/health", (c) => {
-  return c.json(successResponse({ status: "ok", version: "1.0.0" }));
-});
+const metrics = createAppMetrics();
+// First use of the client: creates it with the request timeout, so queries
+// of a timed-out request are cancelled by the server
+instrumentClient(
+  getClient({ statementTimeoutMs: config.server.requestTimeoutMs }),
+  metrics
+);
 
-app.route("/api/v1", routes);
+const deps = {
+  db,
+  verifier: createTokenVerifier(config.auth, metrics, systemClock),
+  clock: systemClock,
+  config,
+  logger,
+  metrics,
+  lifecycle: createLifecycle(),
+  rateLimitStore:
+    config.rateLimit.store === "postgres"
+      ? createPostgresRateLimitStore(db, logger)
+      : createMemoryRateLimitStore(),
+};
+
+const app = createApp(deps);
 
-const port = parseInt(getEnv("PORT", "8022")!);
+const metricsServer =
+  config.metrics.enabled && config.metrics.port !== undefined
+    ? startMetricsServer(createMetricsApp(deps), {
+        host: config.metrics.host,
+        port: config.metrics.port,
+        logger,
+      })
+    : null;
 
-initDatabase()
+// Served while migrations run: /health/live answers, /health/ready waits
+const server = Bun.serve({ port: config.server.port, fetch: app.fetch });
+let purgeTimer: ReturnType<typeof setInterval> | null = null;
+let idempotencyPurgeTimer: ReturnType<typeof setInterval> | null = null;
+
+initDatabase(logger)
   .then(() => {
-    console.log(`Starter API running on http://localhost:${port}`);
+    purgeTimer = startTrashPurgeSchedule(deps);
+    idempotencyPurgeTimer = startIdempotencyPurgeSchedule(deps);
+    deps.lifecycle.ready();
+    logger.info(`Starter API running on http://localhost:${server.port}`);
   })
-  .catch((err) => {
-    console.error("Failed to initialize database:", err);
-    process.exit(1);
+  .catch(err => {
+    deps.lifecycle.fail();
+    logger.error("Failed to initialize database", { err });
+    // Keep answering /health/ready (503, phase `failed`) for the same delay
+    // a shutdown gives load balancers, then exit
+    setTimeout(() => process.exit(1), config.server.shutdownDelayMs);
   });
 
-export default {
-  port,
-  fetch: app.fetch,
-};
+let stopping: Promise<void> | null = null;
+
+/** Drains and exits on the first SIGTERM or SIGINT; later signals are ignored */
+function onSignal(signal: "SIGTERM" | "SIGINT") {
+  logger.info("Received shutdown signal", { signal });
+  stopping ??= shutdown({
+    lifecycle: deps.lifecycle,
+    logger,
+    stopServer: force => server.stop(force),
+    steps: [
+      {
+        name: "trash purge schedule",
+        run: () => purgeTimer && clearInterval(purgeTimer),
+      },
+      {
+        name: "idempotency key purge schedule",
+        run: () =>
+          idempotencyPurgeTimer && clearInterval(idempotencyPurgeTimer),
+      },
+      {
+        name: "metrics server",
+        run: () =>
+          metricsServer && new Promise(resolve => metricsServer.close(resolve)),
+      },
+      { name: "database pool", run: closeDatabase },
+    ],
+    delayMs: config.server.shutdownDelayMs,
+    timeoutMs: config.server.shutdownTimeoutMs,
+  }).then(() => process.exit(0));
+}
+
+process.on("SIGTERM", onSignal);
+process.on("SIGINT", onSignal);
 
 export { app };
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { HTTPException } from "hono/http-exception";
+import {
+  ApiError,
+  ERROR_CODES,
+  nestIssues,
+  validationFailed,
+} from "./api-error";
+
+describe("api-error", () => {
+  describe("ApiError", () => {
+    it("should take its status from the code", () => {
+      const err = new ApiError("HISTORY_NOT_FOUND", "History not found");
+      expect(err).toBeInstanceOf(HTTPException);
+      expect(err.status).toBe(404);
+      expect(new ApiError("RATE_LIMITED", "Slow down").status).toBe(
+        ERROR_CODES.RATE_LIMITED
+      );
+    });
+
+    it("should build the response body", () => {
+      const err = new ApiError("PRECONDITION_FAILED", "Stale", {
+        data: { version: 2 },
+      });
+      expect(err.toBody()).toEqual({
+        success: false,
+        error: "Stale",
+        code: "PRECONDITION_FAILED",
+        data: { version: 2 },
+        timestamp: expect.any(String),
+      });
+    });
+
+    it("should leave out absent issues and data", () => {
+      const body = new ApiError("NOT_AUTHORIZED", "Not authorized").toBody();
+      expect(body).not.toHaveProperty("issues");
+      expect(body).not.toHaveProperty("data");
+    });
+  });
+
+  describe("validationFailed", () => {
+    it("should keep the issues of a parse failure", () => {
+      const issues = [
+        { path: "from", code: "invalid_range" as const, message: "bad" },
+      ];
+      const err = validationFailed({ error: "bad", issues });
+      expect(err.code).toBe("VALIDATION_FAILED");
+      expect(err.status).toBe(400);
+      expect(err.issues).toBe(issues);
+    });
+
+    it("should blame the given field otherwise", () => {
+      expect(
+        validationFailed(
+          { error: "cursor is invalid" },
+          "cursor",
+          "invalid_format"
+        ).issues
+      ).toEqual([
+        {
+          path: "cursor",
+          code: "invalid_format",
+          message: "cursor is invalid",
+        },
+      ]);
+    });
+  });
+
+  describe("nestIssues", () => {
+    it("should prefix issue paths", () => {
+      expect(
+        nestIssues("operations[2]", [
+          { path: "value", code: "required", message: "value is required" },
+          { path: "", code: "required", message: "No fields to update" },
+        ]).map(issue => issue.path)
+      ).toEqual(["operations[2].value", "operations[2]"]);
+    });
+  });
+});
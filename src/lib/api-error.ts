@@ -0,0 +1,171 @@
+import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { errorResponse } from "@sudobility/superguide_types";
+
+/**
+ * The catalogue of error codes the API answers with, and the HTTP status
+ * each maps to.
+ *
+ * Codes are part of the API contract: clients branch on `code` rather than
+ * on the human-readable `error` message, which may be reworded at any time.
+ * Add codes freely, but never rename or repurpose one.
+ */
+export const ERROR_CODES = {
+  /** The request's parameters or body are invalid; `issues` lists each problem */
+  VALIDATION_FAILED: 400,
+  /** The body is not valid JSON */
+  MALFORMED_JSON: 400,
+  /** The revision is a delete or restore, which cannot be reverted */
+  REVISION_NOT_REVERTIBLE: 400,
+  /** No credentials, or invalid, revoked or expired ones */
+  NOT_AUTHENTICATED: 401,
+  /** The caller may not act on this resource */
+  NOT_AUTHORIZED: 403,
+  /** No route matches the request */
+  NOT_FOUND: 404,
+  USER_NOT_FOUND: 404,
+  HISTORY_NOT_FOUND: 404,
+  REVISION_NOT_FOUND: 404,
+  TOKEN_NOT_FOUND: 404,
+  /** A request with the same `Idempotency-Key` is still in progress */
+  IDEMPOTENCY_KEY_IN_USE: 409,
+  /** `If-Match` does not match; `data` holds the current record */
+  PRECONDITION_FAILED: 412,
+  /** The body exceeds `BODY_LIMIT` */
+  PAYLOAD_TOO_LARGE: 413,
+  /** The `Idempotency-Key` was already used with a different request */
+  IDEMPOTENCY_KEY_REUSED: 422,
+  /** The client's rate limit quota is used up; see `Retry-After` */
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  /** The service is starting, stopping or cannot reach its dependencies */
+  SERVICE_UNAVAILABLE: 503,
+  /** The request took longer than `REQUEST_TIMEOUT` */
+  TIMEOUT: 504,
+} as const satisfies Record<string, ContentfulStatusCode>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/** Kinds of problem a {@link ValidationIssue} reports */
+export const VALIDATION_ISSUE_CODES = [
+  /** The field is missing */
+  "required",
+  /** The field has the wrong JSON type, e.g. a string instead of a number */
+  "invalid_type",
+  /** The field is a string in the wrong format, e.g. not an ISO 8601 date */
+  "invalid_format",
+  /** The field is not one of the accepted values */
+  "invalid_value",
+  /** The field is below its minimum, e.g. a non-positive value or an empty list */
+  "too_small",
+  /** The field is above its maximum */
+  "too_big",
+  /** A lower bound is greater than its upper bound */
+  "invalid_range",
+  /** The field cannot be combined with another parameter */
+  "incompatible",
+] as const;
+
+export type ValidationIssueCode = (typeof VALIDATION_ISSUE_CODES)[number];
+
+/** One problem with one field of a request */
+export interface ValidationIssue {
+  /**
+   * Where the field is: a query parameter (`from`) or a path into the JSON
+   * body (`operations[2].value`); empty for the body as a whole
+   */
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+}
+
+/** Body of an error response: `errorResponse` plus the machine-readable parts */
+export interface ApiErrorBody extends Omit<
+  ReturnType<typeof errorResponse>,
+  "data"
+> {
+  code: ErrorCode;
+  issues?: ValidationIssue[];
+  data?: unknown;
+}
+
+/** Optional parts of an {@link ApiError} */
+export interface ApiErrorOptions {
+  /** Per-field problems, for `VALIDATION_FAILED` */
+  issues?: ValidationIssue[];
+  /** Context returned to the client, e.g. the current record on a 412 */
+  data?: unknown;
+  /** The underlying error, kept for logs */
+  cause?: unknown;
+}
+
+/**
+ * An error the API reports to the client, identified by a stable
+ * {@link ErrorCode} that determines the HTTP status.
+ *
+ * Handlers and middleware throw it; `app.onError` answers with
+ * {@link ApiError.toBody}. As an `HTTPException`, it can also be handed to
+ * Hono middleware that expects one, such as `timeout`.
+ *
+ * `throw new ApiError("HISTORY_NOT_FOUND", "History not found")`
+ */
+export class ApiError extends HTTPException {
+  readonly code: ErrorCode;
+  readonly issues?: ValidationIssue[];
+  readonly data?: unknown;
+
+  constructor(code: ErrorCode, message: string, options: ApiErrorOptions = {}) {
+    super(ERROR_CODES[code], { message, cause: options.cause });
+    this.name = "ApiError";
+    this.code = code;
+    this.issues = options.issues;
+    this.data = options.data;
+  }
+
+  /** The JSON response body */
+  toBody(): ApiErrorBody {
+    return {
+      ...errorResponse(this.message),
+      code: this.code,
+      ...(this.issues && { issues: this.issues }),
+      ...(this.data !== undefined && { data: this.data }),
+    };
+  }
+}
+
+/**
+ * Builds the `VALIDATION_FAILED` error for a failed parse.
+ *
+ * Parsers that know which fields failed return `issues`; for the others the
+ * caller names the field, and the parse error becomes its only issue.
+ *
+ * `if (!sortBy.ok) throw validationFailed(sortBy, "sortBy", "invalid_value")`
+ *
+ * @param failure - The failed {@link ParseResult}
+ * @param path - The field to blame when `failure` carries no issues
+ * @param code - The issue code to use when `failure` carries no issues
+ * @returns The error, for the caller to throw
+ */
+export function validationFailed(
+  failure: { error: string; issues?: ValidationIssue[] },
+  path = "",
+  code: ValidationIssueCode = "invalid_value"
+): ApiError {
+  return new ApiError("VALIDATION_FAILED", failure.error, {
+    issues: failure.issues ?? [{ path, code, message: failure.error }],
+  });
+}
+
+/**
+ * Prefixes the paths of `issues` with the location of the value they were
+ * found in, e.g. `value` within `operations[2]` becomes `operations[2].value`.
+ */
+export function nestIssues(
+  prefix: string,
+  issues: ValidationIssue[]
+): ValidationIssue[] {
+  return issues.map(issue => ({
+    ...issue,
+    path: issue.path ? `${prefix}.${issue.path}` : prefix,
+  }));
+}
@@ -0,0 +1,84 @@
+import type { ErrorCode } from "./api-error";
+import type { ParameterSpec } from "./openapi";
+
+/*
+ * Parameters several routes share, for their `describeRoute` specs.
+ */
+
+/** Description of the `:userId` path parameter */
+export const USER_ID_PARAM = {
+  userId: "Firebase UID of the user whose data is accessed",
+};
+
+/**
+ * The `limit` and `offset` query parameters of an offset-paginated list.
+ *
+ * @param defaultLimit - Page size when `limit` is absent
+ * @param maxLimit - Largest page size; larger values are clamped
+ */
+export function paginationQuery(
+  defaultLimit: number,
+  maxLimit: number
+): Record<string, ParameterSpec> {
+  return {
+    limit: {
+      description: `Page size (default ${defaultLimit}, max ${maxLimit})`,
+      schema: { type: "integer", minimum: 1, maximum: maxLimit },
+    },
+    offset: {
+      description: "Number of records to skip",
+      schema: { type: "integer", minimum: 0 },
+    },
+  };
+}
+
+/**
+ * The `from` and `to` query parameters of an inclusive date range.
+ *
+ * @param field - The field the range applies to, e.g. `datetime`
+ */
+export function dateRangeQuery(field: string): Record<string, ParameterSpec> {
+  return {
+    from: {
+      description: `Earliest \`${field}\`, inclusive (ISO 8601 date or date-time)`,
+    },
+    to: {
+      description: `Latest \`${field}\`, inclusive (ISO 8601 date or date-time)`,
+    },
+  };
+}
+
+/** The `timezone` query parameter */
+export const TIMEZONE_QUERY: ParameterSpec = {
+  description: "IANA timezone name (default `UTC`)",
+  schema: { type: "string", examples: ["Europe/Paris"] },
+};
+
+/** The `If-Match` header of conditional writes */
+export const IF_MATCH_HEADER: Record<string, ParameterSpec> = {
+  "If-Match": {
+    description:
+      'The record\'s ETag (`"<version>"`); the write only applies if the record is unchanged',
+  },
+};
+
+/** The `Idempotency-Key` header, see `idempotency` */
+export const IDEMPOTENCY_KEY_HEADER: Record<string, ParameterSpec> = {
+  "Idempotency-Key": {
+    description:
+      "Retries with the same key and body replay the original response instead of repeating the write",
+    schema: { type: "string", minLength: 1, maxLength: 255 },
+  },
+};
+
+/** Errors the `idempotency` middleware answers with */
+export const IDEMPOTENCY_ERRORS: ErrorCode[] = [
+  "VALIDATION_FAILED",
+  "IDEMPOTENCY_KEY_IN_USE",
+  "IDEMPOTENCY_KEY_REUSED",
+];
+
+/** Headers of a response carrying one history record */
+export const ETAG_RESPONSE_HEADER = {
+  ETag: 'The record\'s version as an entity tag, `"<version>"`',
+};
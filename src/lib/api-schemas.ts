@@ -0,0 +1,557 @@
+import type {
+  HistoryCreateRequest,
+  HistoryTotalResponse,
+  HistoryUpdateRequest,
+  User,
+} from "@sudobility/superguide_types";
+import {
+  ERROR_CODES,
+  VALIDATION_ISSUE_CODES,
+  type ApiErrorBody,
+  type ValidationIssue,
+} from "./api-error";
+import { TOKEN_SCOPES } from "./api-token";
+import type { ImportRowError } from "./history-import";
+import { MAX_VALUE, VALUE_DECIMALS } from "./history-validation";
+import {
+  HISTORY_STATS_PERIODS,
+  HISTORY_TOTAL_PERIODS,
+  type HistoryPage,
+  type HistoryStatsBucket,
+  type HistoryStatsResponse,
+} from "./history-query";
+import { ref, type JsonSchema, type ObjectSchemaOf } from "./json-schema";
+import type {
+  SerializedApiToken,
+  SerializedAuditEvent,
+  SerializedHistory,
+  SerializedHistoryRevision,
+} from "./serializers";
+import { LIFECYCLE_PHASES, type DependencyStatus } from "../services/health";
+import { REVISION_ACTIONS } from "../services/historyRevisions";
+
+/*
+ * The shapes the API sends and accepts, as JSON Schema. They are published
+ * as `components.schemas` of `/openapi.json` and checked against real
+ * responses (see `describeRoute`).
+ *
+ * Schemas of types declared in TypeScript -- `@sudobility/superguide_types`
+ * or the serializers -- are written `satisfies ObjectSchemaOf<T>`, so adding
+ * or removing a field on one side without the other fails type checking.
+ * Response schemas forbid additional properties, so a handler that returns
+ * an undeclared field fails the tests.
+ */
+
+const dateTime: JsonSchema = { type: "string", format: "date-time" };
+const nullableDateTime: JsonSchema = {
+  type: ["string", "null"],
+  format: "date-time",
+};
+const user = {
+  type: "object",
+  description: "A user profile, keyed by Firebase UID",
+  required: [
+    "firebase_uid",
+    "email",
+    "display_name",
+    "created_at",
+    "updated_at",
+  ],
+  properties: {
+    firebase_uid: { type: "string" },
+    email: { type: ["string", "null"] },
+    display_name: { type: ["string", "null"] },
+    created_at: nullableDateTime,
+    updated_at: nullableDateTime,
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<User>;
+
+/** A history `value`, within what the `NUMERIC(12,2)` column holds */
+const historyValue: JsonSchema = {
+  type: "number",
+  exclusiveMinimum: 0,
+  maximum: MAX_VALUE - 10 ** -VALUE_DECIMALS,
+};
+
+const historyProperties = {
+  id: { type: "string", format: "uuid" },
+  user_id: { type: "string", description: "Firebase UID of the owner" },
+  datetime: { ...dateTime, description: "When the event occurred" },
+  value: historyValue,
+  version: {
+    type: "integer",
+    minimum: 1,
+    description: 'Incremented on every change; the ETag is `"<version>"`',
+  },
+  created_at: nullableDateTime,
+  updated_at: nullableDateTime,
+} satisfies ObjectSchemaOf<SerializedHistory>["properties"];
+
+const history = {
+  type: "object",
+  description: "A history record",
+  required: Object.keys(historyProperties),
+  properties: historyProperties,
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<SerializedHistory>;
+
+const trashedHistory = {
+  type: "object",
+  description: "A history record in the trash",
+  required: [...Object.keys(historyProperties), "deleted_at", "purge_at"],
+  properties: {
+    ...historyProperties,
+    deleted_at: dateTime,
+    purge_at: {
+      ...dateTime,
+      description: "When the retention purge will permanently delete it",
+    },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<
+  SerializedHistory & { deleted_at: string; purge_at: string }
+>;
+
+const historyCreateRequest = {
+  type: "object",
+  required: ["datetime", "value"],
+  properties: {
+    datetime: { ...dateTime, description: "ISO 8601 date string" },
+    value: historyValue,
+  },
+} satisfies ObjectSchemaOf<HistoryCreateRequest>;
+
+const historyUpdateRequest = {
+  type: "object",
+  description: "At least one field is required",
+  properties: {
+    datetime: { ...dateTime, description: "ISO 8601 date string" },
+    value: historyValue,
+  },
+} satisfies ObjectSchemaOf<HistoryUpdateRequest>;
+
+const historyPage = {
+  type: "object",
+  description: "A keyset-paginated page of histories",
+  required: ["items", "nextCursor", "hasMore"],
+  properties: {
+    items: { type: "array", items: ref("History") },
+    nextCursor: {
+      type: ["string", "null"],
+      description: "Pass as `cursor` for the next page; null on the last page",
+    },
+    hasMore: { type: "boolean" },
+    total: {
+      type: "integer",
+      minimum: 0,
+      description: "Number of matching records, with `includeTotal=true`",
+    },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<HistoryPage>;
+
+const historyStatsBucket = {
+  type: "object",
+  required: ["period", "start", "count", "sum", "average", "min", "max"],
+  properties: {
+    period: {
+      type: "string",
+      format: "date",
+      description: "Local start date of the bucket in the requested timezone",
+    },
+    start: { ...dateTime, description: "Start of the bucket, in UTC" },
+    count: { type: "integer", minimum: 1 },
+    sum: { type: "number" },
+    average: { type: "number" },
+    min: { type: "number" },
+    max: { type: "number" },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<HistoryStatsBucket>;
+
+const historyStats = {
+  type: "object",
+  required: ["groupBy", "timezone", "buckets"],
+  properties: {
+    groupBy: { enum: HISTORY_STATS_PERIODS },
+    timezone: { type: "string" },
+    buckets: { type: "array", items: ref("HistoryStatsBucket") },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<HistoryStatsResponse>;
+
+const historyTotal = {
+  type: "object",
+  required: ["total"],
+  properties: {
+    total: { type: "number" },
+    period: { enum: HISTORY_TOTAL_PERIODS },
+    series: {
+      type: "array",
+      description: "Per-period totals in ascending order, with `period`",
+      items: {
+        type: "object",
+        required: ["period", "total"],
+        properties: {
+          period: { type: "string", format: "date" },
+          total: { type: "number" },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<
+  HistoryTotalResponse & { period?: string; series?: unknown[] }
+>;
+
+const historyRevision = {
+  type: "object",
+  description: "One recorded change to a history record",
+  required: [
+    "id",
+    "history_id",
+    "version",
+    "action",
+    "old_datetime",
+    "old_value",
+    "new_datetime",
+    "new_value",
+    "actor_id",
+    "actor_site_admin",
+    "reverted_revision_id",
+    "created_at",
+  ],
+  properties: {
+    id: { type: "string", format: "uuid" },
+    history_id: { type: "string", format: "uuid" },
+    version: { type: "integer", minimum: 1 },
+    action: { enum: REVISION_ACTIONS },
+    old_datetime: dateTime,
+    old_value: { type: "number" },
+    new_datetime: dateTime,
+    new_value: { type: "number" },
+    actor_id: { type: "string" },
+    actor_site_admin: { type: "boolean" },
+    reverted_revision_id: { type: ["string", "null"], format: "uuid" },
+    created_at: nullableDateTime,
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<SerializedHistoryRevision>;
+
+const batchOperation: JsonSchema = {
+  oneOf: [
+    {
+      type: "object",
+      required: ["op", "datetime", "value"],
+      properties: {
+        op: { const: "create" },
+        datetime: dateTime,
+        value: historyValue,
+      },
+    },
+    {
+      type: "object",
+      required: ["op", "id"],
+      properties: {
+        op: { const: "update" },
+        id: { type: "string", format: "uuid" },
+        datetime: dateTime,
+        value: historyValue,
+      },
+    },
+    {
+      type: "object",
+      required: ["op", "id"],
+      properties: {
+        op: { const: "delete" },
+        id: { type: "string", format: "uuid" },
+      },
+    },
+  ],
+};
+
+const batchRequest: JsonSchema = {
+  type: "object",
+  required: ["operations"],
+  properties: {
+    operations: {
+      type: "array",
+      minItems: 1,
+      maxItems: 500,
+      items: ref("BatchOperation"),
+    },
+    atomic: {
+      type: "boolean",
+      default: true,
+      description:
+        "All-or-nothing when true; otherwise each operation succeeds or fails on its own",
+    },
+  },
+};
+
+const batchOperationResult: JsonSchema = {
+  type: "object",
+  required: ["index", "op", "status"],
+  properties: {
+    index: {
+      type: "integer",
+      minimum: 0,
+      description: "Position of the operation in `operations`",
+    },
+    op: { type: "string" },
+    status: {
+      type: "integer",
+      description: "Status the equivalent single request would have returned",
+    },
+    data: {
+      anyOf: [ref("History"), { type: "null" }],
+      description: "The created or updated record; null for deletes",
+    },
+    error: { type: "string" },
+    code: { enum: Object.keys(ERROR_CODES) },
+    issues: { type: "array", items: ref("ValidationIssue") },
+  },
+  additionalProperties: false,
+};
+
+const batchResponse: JsonSchema = {
+  type: "object",
+  required: ["committed", "results"],
+  properties: {
+    committed: { type: "boolean" },
+    results: { type: "array", items: ref("BatchOperationResult") },
+  },
+  additionalProperties: false,
+};
+
+const importRequest: JsonSchema = {
+  description: "The rows, as an array or wrapped in `rows`",
+  oneOf: [
+    { type: "array", items: ref("HistoryCreateRequest") },
+    {
+      type: "object",
+      required: ["rows"],
+      properties: {
+        rows: { type: "array", items: ref("HistoryCreateRequest") },
+      },
+    },
+  ],
+};
+
+const importRowError = {
+  type: "object",
+  required: ["row", "error", "issues"],
+  properties: {
+    row: {
+      type: "integer",
+      minimum: 1,
+      description: "1-based position among the data rows",
+    },
+    error: { type: "string" },
+    issues: { type: "array", items: ref("ValidationIssue") },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<ImportRowError>;
+
+const importReport: JsonSchema = {
+  type: "object",
+  required: [
+    "dryRun",
+    "total",
+    "valid",
+    "invalid",
+    "inserted",
+    "skippedDuplicates",
+    "errors",
+  ],
+  properties: {
+    dryRun: { type: "boolean" },
+    total: { type: "integer", minimum: 0 },
+    valid: { type: "integer", minimum: 0 },
+    invalid: { type: "integer", minimum: 0 },
+    inserted: { type: "integer", minimum: 0 },
+    skippedDuplicates: { type: "integer", minimum: 0 },
+    errors: { type: "array", items: ref("ImportRowError") },
+  },
+  additionalProperties: false,
+};
+
+const apiTokenProperties = {
+  id: { type: "string", format: "uuid" },
+  name: { type: "string" },
+  token_prefix: {
+    type: "string",
+    description: "First characters of the token, to tell tokens apart",
+  },
+  scopes: { type: "array", items: { enum: TOKEN_SCOPES } },
+  expires_at: nullableDateTime,
+  last_used_at: nullableDateTime,
+  created_at: nullableDateTime,
+} satisfies ObjectSchemaOf<SerializedApiToken>["properties"];
+
+const apiToken = {
+  type: "object",
+  description: "A personal access token, without the token itself",
+  required: Object.keys(apiTokenProperties),
+  properties: apiTokenProperties,
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<SerializedApiToken>;
+
+const createdApiToken = {
+  type: "object",
+  description: "A new personal access token, with the token shown only once",
+  required: [...Object.keys(apiTokenProperties), "token"],
+  properties: {
+    ...apiTokenProperties,
+    token: {
+      type: "string",
+      pattern: "^sgp_",
+      description: "Send as `Authorization: Bearer <token>`",
+    },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<SerializedApiToken & { token: string }>;
+
+const apiTokenCreateRequest: JsonSchema = {
+  type: "object",
+  required: ["name", "scopes"],
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 100 },
+    scopes: {
+      type: "array",
+      minItems: 1,
+      items: { enum: TOKEN_SCOPES },
+      description: "`histories:write` implies `histories:read`",
+    },
+    expiresAt: {
+      ...dateTime,
+      description: "Omit for a token that never expires",
+    },
+  },
+};
+
+const auditEvent = {
+  type: "object",
+  required: [
+    "id",
+    "actor_id",
+    "actor_email",
+    "target_user_id",
+    "method",
+    "route",
+    "action",
+    "entity_id",
+    "request_id",
+    "status",
+    "created_at",
+  ],
+  properties: {
+    id: { type: "string", format: "uuid" },
+    actor_id: { type: "string" },
+    actor_email: { type: ["string", "null"] },
+    target_user_id: { type: ["string", "null"] },
+    method: { type: "string" },
+    route: { type: "string" },
+    action: { type: "string", examples: ["history.update"] },
+    entity_id: { type: ["string", "null"] },
+    request_id: { type: "string" },
+    status: { type: "integer" },
+    created_at: dateTime,
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<SerializedAuditEvent>;
+
+const validationIssue = {
+  type: "object",
+  required: ["path", "code", "message"],
+  properties: {
+    path: {
+      type: "string",
+      description:
+        "Query parameter or path into the body, e.g. `operations[2].value`; empty for the body as a whole",
+    },
+    code: { enum: VALIDATION_ISSUE_CODES },
+    message: { type: "string" },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<ValidationIssue>;
+
+const errorResponse = {
+  type: "object",
+  required: ["success", "error", "code", "timestamp"],
+  properties: {
+    success: { const: false },
+    error: { type: "string", description: "Human-readable; may change" },
+    code: {
+      enum: Object.keys(ERROR_CODES),
+      description: "Stable error code clients branch on",
+    },
+    issues: { type: "array", items: ref("ValidationIssue") },
+    data: { description: "Context for the error, e.g. the current record" },
+    timestamp: dateTime,
+    requestId: {
+      type: "string",
+      description: "The request's `X-Request-Id`, for support",
+    },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<ApiErrorBody & { requestId?: string }>;
+
+const dependencyStatus = {
+  type: "object",
+  required: ["status", "latencyMs"],
+  properties: {
+    status: { enum: ["ok", "fail"] },
+    latencyMs: { type: "number", minimum: 0 },
+    error: { type: "string" },
+  },
+  additionalProperties: false,
+} satisfies ObjectSchemaOf<DependencyStatus>;
+
+const readiness: JsonSchema = {
+  type: "object",
+  required: ["status", "phase", "checks"],
+  properties: {
+    status: { enum: ["ready", "not_ready"] },
+    phase: { enum: LIFECYCLE_PHASES },
+    checks: {
+      type: "object",
+      additionalProperties: ref("DependencyStatus"),
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Every named schema, by name. Routes refer to them with `ref("History")`,
+ * and `/openapi.json` publishes them under `components.schemas`.
+ */
+export const API_SCHEMAS: Record<string, JsonSchema> = {
+  User: user,
+  History: history,
+  TrashedHistory: trashedHistory,
+  HistoryCreateRequest: historyCreateRequest,
+  HistoryUpdateRequest: historyUpdateRequest,
+  HistoryPage: historyPage,
+  HistoryStatsBucket: historyStatsBucket,
+  HistoryStats: historyStats,
+  HistoryTotal: historyTotal,
+  HistoryRevision: historyRevision,
+  BatchOperation: batchOperation,
+  BatchRequest: batchRequest,
+  BatchOperationResult: batchOperationResult,
+  BatchResponse: batchResponse,
+  ImportRequest: importRequest,
+  ImportRowError: importRowError,
+  ImportReport: importReport,
+  ApiToken: apiToken,
+  CreatedApiToken: createdApiToken,
+  ApiTokenCreateRequest: apiTokenCreateRequest,
+  AuditEvent: auditEvent,
+  ValidationIssue: validationIssue,
+  ErrorResponse: errorResponse,
+  DependencyStatus: dependencyStatus,
+  Readiness: readiness,
+};
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  API_TOKEN_PREFIX,
+  generateApiToken,
+  hashApiToken,
+  isApiToken,
+  validateApiTokenCreate,
+} from "./api-token";
+
+const NOW = new Date("2024-06-01T00:00:00.000Z");
+
+describe("api-token", () => {
+  describe("generateApiToken", () => {
+    it("should generate distinct prefixed tokens", () => {
+      const a = generateApiToken();
+      const b = generateApiToken();
+      expect(a.startsWith(API_TOKEN_PREFIX)).toBe(true);
+      expect(a).not.toBe(b);
+      expect(isApiToken(a)).toBe(true);
+    });
+  });
+
+  describe("hashApiToken", () => {
+    it("should produce a stable hex SHA-256 digest", () => {
+      const hash = hashApiToken("sgp_example");
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashApiToken("sgp_example")).toBe(hash);
+      expect(hashApiToken("sgp_other")).not.toBe(hash);
+    });
+  });
+
+  describe("isApiToken", () => {
+    it("should not match Firebase ID tokens", () => {
+      expect(isApiToken("eyJhbGciOiJSUzI1NiJ9.payload.sig")).toBe(false);
+    });
+  });
+
+  describe("validateApiTokenCreate", () => {
+    it("should accept a read-only token without expiry", () => {
+      expect(
+        validateApiTokenCreate(
+          { name: " cron ", scopes: ["histories:read"] },
+          NOW
+        )
+      ).toEqual({
+        ok: true,
+        value: { name: "cron", scopes: ["histories:read"], expiresAt: null },
+      });
+    });
+
+    it("should add read access to write-scoped tokens", () => {
+      const result = validateApiTokenCreate(
+        {
+          name: "sheet",
+          scopes: ["histories:write"],
+          expiresAt: "2024-07-01T00:00:00.000Z",
+        },
+        NOW
+      );
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.scopes).toEqual([
+          "histories:read",
+          "histories:write",
+        ]);
+        expect(result.value.expiresAt?.toISOString()).toBe(
+          "2024-07-01T00:00:00.000Z"
+        );
+      }
+    });
+
+    it("should require a name", () => {
+      expect(
+        validateApiTokenCreate({ scopes: ["histories:read"] }, NOW)
+      ).toMatchObject({
+        ok: false,
+        error: "name is required",
+        issues: [{ path: "name", code: "required" }],
+      });
+    });
+
+    it("should reject unknown or empty scopes", () => {
+      expect(
+        validateApiTokenCreate({ name: "x", scopes: ["audit:read"] }, NOW).ok
+      ).toBe(false);
+      expect(validateApiTokenCreate({ name: "x", scopes: [] }, NOW).ok).toBe(
+        false
+      );
+    });
+
+    it("should reject an expiry in the past", () => {
+      expect(
+        validateApiTokenCreate(
+          {
+            name: "x",
+            scopes: ["histories:read"],
+            expiresAt: "2024-01-01T00:00:00.000Z",
+          },
+          NOW
+        )
+      ).toMatchObject({ ok: false, error: "expiresAt must be in the future" });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { createHash, randomBytes } from "crypto";
+import { isValidDatetime } from "./serializers";
+import { parseFailure, type ParseResult } from "./history-query";
+import type { Permission } from "./permissions";
+
+/** Prefix identifying personal access tokens in an `Authorization` header */
+export const API_TOKEN_PREFIX = "sgp_";
+
+/** Maximum length of a token's display name */
+export const MAX_TOKEN_NAME_LENGTH = 100;
+
+/** Permissions a personal access token can be scoped to */
+export const TOKEN_SCOPES = [
+  "histories:read",
+  "histories:write",
+] as const satisfies readonly Permission[];
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+/** Validated fields for creating a personal access token */
+export interface ApiTokenCreateValues {
+  name: string;
+  scopes: TokenScope[];
+  /** Null for a token that never expires */
+  expiresAt: Date | null;
+}
+
+/**
+ * Generates a new personal access token: {@link API_TOKEN_PREFIX} followed
+ * by 32 random bytes, base64url-encoded.
+ */
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * Hashes a personal access token for storage and lookup. Only the hash is
+ * ever stored; the plaintext is shown to the user once, at creation.
+ *
+ * @returns The SHA-256 digest, hex-encoded
+ */
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Whether a bearer token is a personal access token rather than a Firebase ID token */
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Validates the body of a token creation request.
+ *
+ * - `name` is required, 1-100 characters after trimming
+ * - `scopes` is a non-empty array of {@link TOKEN_SCOPES};
+ *   `histories:write` implies `histories:read`
+ * - `expiresAt`, if present and not null, must be a date in the future
+ *
+ * @param body - The parsed JSON request body
+ * @param now - The current time (injectable for tests)
+ * @returns The validated values, or the first validation error
+ */
+export function validateApiTokenCreate(
+  body: unknown,
+  now = new Date()
+): ParseResult<ApiTokenCreateValues> {
+  const { name, scopes, expiresAt } =
+    typeof body === "object" && body !== null
+      ? (body as Record<string, unknown>)
+      : ({} as Record<string, unknown>);
+
+  if (typeof name !== "string" || name.trim() === "") {
+    return parseFailure("name", "required", "name is required");
+  }
+  if (name.trim().length > MAX_TOKEN_NAME_LENGTH) {
+    return parseFailure(
+      "name",
+      "too_big",
+      `name must not be longer than ${MAX_TOKEN_NAME_LENGTH} characters`
+    );
+  }
+
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every(scope => (TOKEN_SCOPES as readonly unknown[]).includes(scope))
+  ) {
+    return parseFailure(
+      "scopes",
+      "invalid_value",
+      `scopes must be a non-empty array of: ${TOKEN_SCOPES.join(", ")}`
+    );
+  }
+
+  let expiry: Date | null = null;
+  if (expiresAt !== undefined && expiresAt !== null) {
+    if (typeof expiresAt !== "string" || !isValidDatetime(expiresAt)) {
+      return parseFailure(
+        "expiresAt",
+        "invalid_format",
+        "expiresAt must be a valid ISO 8601 date string"
+      );
+    }
+    expiry = new Date(expiresAt);
+    if (expiry <= now) {
+      return parseFailure(
+        "expiresAt",
+        "too_small",
+        "expiresAt must be in the future"
+      );
+    }
+  }
+
+  const granted = new Set<TokenScope>(scopes as TokenScope[]);
+  if (granted.has("histories:write")) granted.add("histories:read");
+
+  return {
+    ok: true,
+    value: {
+      name: name.trim(),
+      scopes: TOKEN_SCOPES.filter(scope => granted.has(scope)),
+      expiresAt: expiry,
+    },
+  };
+}
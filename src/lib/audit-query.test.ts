@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { parseAuditFilters, auditConditions } from "./audit-query";
+
+describe("audit-query", () => {
+  describe("parseAuditFilters", () => {
+    it("should return empty filters when no params are given", () => {
+      expect(parseAuditFilters({})).toEqual({ ok: true, value: {} });
+    });
+
+    it("should treat empty strings as absent", () => {
+      expect(parseAuditFilters({ actor: "", from: "" })).toEqual({
+        ok: true,
+        value: {},
+      });
+    });
+
+    it("should parse actor, target, action and time range", () => {
+      const result = parseAuditFilters({
+        actor: "admin-1",
+        target: "user-1",
+        action: "history.update",
+        from: "2024-01-01T00:00:00.000Z",
+        to: "2024-02-01T00:00:00.000Z",
+      });
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.actor).toBe("admin-1");
+        expect(result.value.target).toBe("user-1");
+        expect(result.value.action).toBe("history.update");
+        expect(result.value.from?.toISOString()).toBe(
+          "2024-01-01T00:00:00.000Z"
+        );
+        expect(result.value.to?.toISOString()).toBe("2024-02-01T00:00:00.000Z");
+      }
+    });
+
+    it("should reject an invalid time range", () => {
+      expect(parseAuditFilters({ from: "yesterday-ish" }).ok).toBe(false);
+      expect(
+        parseAuditFilters({
+          from: "2024-02-01T00:00:00.000Z",
+          to: "2024-01-01T00:00:00.000Z",
+        })
+      ).toMatchObject({ ok: false, error: "from must not be after to" });
+    });
+  });
+
+  describe("auditConditions", () => {
+    it("should return undefined without filters", () => {
+      expect(auditConditions({})).toBeUndefined();
+    });
+
+    it("should build a condition when a filter is set", () => {
+      expect(auditConditions({ actor: "admin-1" })).toBeDefined();
+    });
+  });
+});
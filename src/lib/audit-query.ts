@@ -0,0 +1,77 @@
+import { and, eq, gte, lte, type SQL } from "drizzle-orm";
+import { auditEvents } from "../db/schema";
+import { parseHistoryFilters, type ParseResult } from "./history-query";
+
+/**
+ * Parsed and validated filters for searching the audit log.
+ * Every filter is optional; omitted filters are not applied.
+ */
+export interface AuditFilters {
+  /** Firebase UID of the user who made the call */
+  actor?: string;
+  /** The `:userId` the call acted upon */
+  target?: string;
+  /** Exact action name, e.g. `history.update` */
+  action?: string;
+  /** Inclusive lower bound on `created_at` */
+  from?: Date;
+  /** Inclusive upper bound on `created_at` */
+  to?: Date;
+}
+
+/** Raw query-string values accepted by {@link parseAuditFilters} */
+export interface AuditFilterParams {
+  actor?: string;
+  target?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Parses and validates the audit log search parameters.
+ *
+ * `from` / `to` follow the same rules as the history date filters (see
+ * {@link parseHistoryFilters}). Empty strings are treated as absent.
+ *
+ * @param params - Raw query-string values
+ * @returns The parsed filters, or the first validation error
+ */
+export function parseAuditFilters(
+  params: AuditFilterParams
+): ParseResult<AuditFilters> {
+  const range = parseHistoryFilters({ from: params.from, to: params.to });
+  if (!range.ok) {
+    return range;
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...(params.actor && { actor: params.actor }),
+      ...(params.target && { target: params.target }),
+      ...(params.action && { action: params.action }),
+      ...range.value,
+    },
+  };
+}
+
+/**
+ * Builds the SQL `WHERE` condition for an audit log search.
+ *
+ * @param filters - Parsed filters from {@link parseAuditFilters}
+ * @returns A Drizzle condition, or `undefined` when no filter applies
+ */
+export function auditConditions(filters: AuditFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  if (filters.actor) conditions.push(eq(auditEvents.actor_id, filters.actor));
+  if (filters.target) {
+    conditions.push(eq(auditEvents.target_user_id, filters.target));
+  }
+  if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+  if (filters.from) conditions.push(gte(auditEvents.created_at, filters.from));
+  if (filters.to) conditions.push(lte(auditEvents.created_at, filters.to));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
@@ -4,42 +4,111 @@ import { join } from "path";
 // Cache for parsed .env.local file
 let envLocalCache: Record<string, string> | null = null;
 
+/** Escape sequences expanded inside double-quoted values */
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  '"': '"',
+  "\\": "\\",
+};
+
 /**
- * Parse .env.local file and cache the result
+ * Parse the contents of a dotenv file.
+ *
+ * - `KEY=value` pairs, optionally prefixed with `export `
+ * - blank lines and `#` comments are skipped; unquoted values may end with a
+ *   ` # comment`
+ * - values in single or double quotes may span several lines, which is how
+ *   PEM keys such as `FIREBASE_PRIVATE_KEY` are usually pasted
+ * - inside double quotes, `\n`, `\r`, `\t`, `\"` and `\\` are expanded;
+ *   single-quoted values are taken literally
+ *
+ * @param content - The file contents
+ * @returns The parsed variables; later duplicates win
  */
-function parseEnvLocal(): Record<string, string> {
-  if (envLocalCache !== null) {
-    return envLocalCache;
-  }
+export function parseEnvFile(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
 
-  envLocalCache = {};
+  for (let i = 0; i < lines.length; i++) {
+    const trimmedLine = lines[i].trim();
 
-  try {
-    const envLocalPath = join(process.cwd(), ".env.local");
-    const envLocalContent = readFileSync(envLocalPath, "utf8");
+    if (!trimmedLine || trimmedLine.startsWith("#")) {
+      continue;
+    }
 
-    const lines = envLocalContent.split("\n");
-    for (const line of lines) {
-      const trimmedLine = line.trim();
+    const equalIndex = trimmedLine.indexOf("=");
+    if (equalIndex === -1) {
+      continue;
+    }
 
-      if (!trimmedLine || trimmedLine.startsWith("#")) {
-        continue;
-      }
+    const key = trimmedLine
+      .slice(0, equalIndex)
+      .replace(/^export\s+/, "")
+      .trim();
+    let value = trimmedLine.slice(equalIndex + 1).trim();
+    const quote = value[0];
 
-      const equalIndex = trimmedLine.indexOf("=");
-      if (equalIndex === -1) {
-        continue;
-      }
+    if (quote !== '"' && quote !== "'") {
+      result[key] = value.replace(/\s+#.*$/, "");
+      continue;
+    }
 
-      const key = trimmedLine.slice(0, equalIndex).trim();
-      const value = trimmedLine.slice(equalIndex + 1).trim();
+    // Gather lines until the closing quote, which may be on a later line
+    value = value.slice(1);
+    let closing = findClosingQuote(value, quote);
+    while (closing === -1 && i + 1 < lines.length) {
+      value += "\n" + lines[++i];
+      closing = findClosingQuote(value, quote);
+    }
+    if (closing !== -1) {
+      value = value.slice(0, closing);
+    }
+
+    result[key] =
+      quote === '"'
+        ? value.replace(
+            /\\(.)/g,
+            (match, char: string) => DOUBLE_QUOTE_ESCAPES[char] ?? match
+          )
+        : value;
+  }
 
-      // Remove quotes if present
-      const unquotedValue = value.replace(/^["']|["']$/g, "");
-      envLocalCache[key] = unquotedValue;
+  return result;
+}
+
+/**
+ * Finds the quote that closes a value, skipping backslash-escaped quotes
+ * inside double-quoted values.
+ *
+ * @returns Its index in `value`, or -1 if the value continues on the next line
+ */
+function findClosingQuote(value: string, quote: string): number {
+  for (let i = 0; i < value.length; i++) {
+    if (quote === '"' && value[i] === "\\") {
+      i++;
+    } else if (value[i] === quote) {
+      return i;
     }
+  }
+  return -1;
+}
+
+/**
+ * Parse .env.local file and cache the result
+ */
+function parseEnvLocal(): Record<string, string> {
+  if (envLocalCache !== null) {
+    return envLocalCache;
+  }
+
+  try {
+    const envLocalPath = join(process.cwd(), ".env.local");
+    envLocalCache = parseEnvFile(readFileSync(envLocalPath, "utf8"));
   } catch {
     // .env.local file doesn't exist - use process.env values
+    envLocalCache = {};
   }
 
   return envLocalCache;
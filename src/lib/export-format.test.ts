@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDatetimeInZone,
+  csvHeader,
+  toCsvLine,
+  toNdjsonLine,
+} from "./export-format";
+import type { SerializedHistory } from "./serializers";
+
+const history: SerializedHistory = {
+  id: "uuid-1",
+  user_id: "user-1",
+  datetime: "2024-01-15T10:30:00.000Z",
+  value: 42.5,
+  version: 2,
+  created_at: "2024-01-15T10:30:00.000Z",
+  updated_at: null,
+};
+
+describe("export-format", () => {
+  describe("formatDatetimeInZone", () => {
+    const date = new Date("2024-01-15T10:30:00.123Z");
+
+    it("should match toISOString for UTC", () => {
+      expect(formatDatetimeInZone(date, "UTC")).toBe(date.toISOString());
+    });
+
+    it("should apply a positive offset", () => {
+      expect(formatDatetimeInZone(date, "Asia/Kolkata")).toBe(
+        "2024-01-15T16:00:00.123+05:30"
+      );
+    });
+
+    it("should apply a negative offset", () => {
+      expect(formatDatetimeInZone(date, "America/New_York")).toBe(
+        "2024-01-15T05:30:00.123-05:00"
+      );
+    });
+
+    it("should follow daylight saving time", () => {
+      expect(
+        formatDatetimeInZone(
+          new Date("2024-07-01T12:00:00.000Z"),
+          "Europe/Paris"
+        )
+      ).toBe("2024-07-01T14:00:00.000+02:00");
+    });
+
+    it("should render midnight as 00", () => {
+      expect(
+        formatDatetimeInZone(new Date("2024-01-15T00:00:00.000Z"), "UTC")
+      ).toBe("2024-01-15T00:00:00.000Z");
+    });
+  });
+
+  describe("csv", () => {
+    it("should list the columns in the header", () => {
+      expect(csvHeader()).toBe(
+        "id,datetime,value,version,created_at,updated_at\r\n"
+      );
+    });
+
+    it("should format a row in column order with empty nulls", () => {
+      expect(toCsvLine(history)).toBe(
+        "uuid-1,2024-01-15T10:30:00.000Z,42.5,2,2024-01-15T10:30:00.000Z,\r\n"
+      );
+    });
+
+    it("should quote fields containing separators", () => {
+      expect(toCsvLine({ ...history, id: 'a,"b"' })).toMatch(/^"a,""b""",/);
+    });
+  });
+
+  describe("ndjson", () => {
+    it("should emit one JSON object per line", () => {
+      const line = toNdjsonLine(history);
+      expect(line.endsWith("\n")).toBe(true);
+      expect(JSON.parse(line)).toEqual(history);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import type { SerializedHistory } from "./serializers";
+
+/** Output formats supported by the history export endpoint */
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Column order of CSV exports */
+export const CSV_COLUMNS = [
+  "id",
+  "datetime",
+  "value",
+  "version",
+  "created_at",
+  "updated_at",
+] as const;
+
+/**
+ * Formats an instant as an ISO 8601 string in the given IANA timezone,
+ * with an explicit UTC offset, e.g. `2024-01-15T11:30:00.000+01:00`.
+ *
+ * For `"UTC"` the result is identical to `Date.prototype.toISOString()`.
+ *
+ * @param date - The instant to format
+ * @param timeZone - A valid IANA timezone name
+ * @returns The local date and time with offset (or `Z` for a zero offset)
+ */
+export function formatDatetimeInZone(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "longOffset",
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(p => p.type === type)?.value ?? "";
+
+  // `longOffset` yields "GMT" for a zero offset, otherwise e.g. "GMT+05:30"
+  const offset = part("timeZoneName").replace("GMT", "") || "Z";
+  const millis = String(date.getUTCMilliseconds()).padStart(3, "0");
+
+  return `${part("year")}-${part("month")}-${part("day")}T${part("hour")}:${part("minute")}:${part("second")}.${millis}${offset}`;
+}
+
+/**
+ * Escapes one CSV field per RFC 4180: fields containing a comma, quote or
+ * line break are wrapped in quotes, with embedded quotes doubled.
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * The CSV header line, including the trailing line break.
+ */
+export function csvHeader(): string {
+  return `${CSV_COLUMNS.join(",")}\r\n`;
+}
+
+/**
+ * Formats one history as a CSV line (with trailing line break), in
+ * {@link CSV_COLUMNS} order. Null timestamps become empty fields.
+ *
+ * @param h - The serialized history, with `datetime` already formatted
+ */
+export function toCsvLine(h: SerializedHistory): string {
+  return `${CSV_COLUMNS.map(column => escapeCsvField(String(h[column] ?? ""))).join(",")}\r\n`;
+}
+
+/**
+ * Formats one history as a newline-delimited JSON line.
+ *
+ * @param h - The serialized history, with `datetime` already formatted
+ */
+export function toNdjsonLine(h: SerializedHistory): string {
+  return `${JSON.stringify(h)}\n`;
+}
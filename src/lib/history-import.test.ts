@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCsv,
+  parseImportDocument,
+  validateImportRows,
+  duplicateKey,
+  MAX_IMPORT_ROWS,
+} from "./history-import";
+
+describe("history-import", () => {
+  describe("parseCsv", () => {
+    it("should split records and fields", () => {
+      expect(parseCsv("a,b\n1,2\n")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+
+    it("should handle CRLF line endings and skip blank lines", () => {
+      expect(parseCsv("a,b\r\n\r\n1,2")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+
+    it("should handle quoted fields with commas, quotes and newlines", () => {
+      expect(parseCsv('"x,y","say ""hi""","line\nbreak"')).toEqual([
+        ["x,y", 'say "hi"', "line\nbreak"],
+      ]);
+    });
+
+    it("should keep empty fields", () => {
+      expect(parseCsv("a,,c")).toEqual([["a", "", "c"]]);
+    });
+  });
+
+  describe("parseImportDocument", () => {
+    it("should parse CSV with columns in any order", () => {
+      const result = parseImportDocument(
+        "value,note,datetime\n42.5,hi,2024-01-01\n",
+        "csv"
+      );
+      expect(result).toEqual({
+        ok: true,
+        value: [{ datetime: "2024-01-01", value: 42.5 }],
+      });
+    });
+
+    it("should leave non-numeric CSV values for validation to reject", () => {
+      const result = parseImportDocument(
+        "datetime,value\n2024-01-01,abc",
+        "csv"
+      );
+      expect(result).toEqual({
+        ok: true,
+        value: [{ datetime: "2024-01-01", value: "abc" }],
+      });
+    });
+
+    it("should require datetime and value CSV columns", () => {
+      expect(
+        parseImportDocument("date,amount\n2024-01-01,1", "csv")
+      ).toMatchObject({
+        ok: false,
+        error: "CSV header must include datetime and value columns",
+      });
+    });
+
+    it("should parse a JSON array", () => {
+      const rows = [{ datetime: "2024-01-01", value: 1 }];
+      expect(parseImportDocument(JSON.stringify(rows), "json")).toEqual({
+        ok: true,
+        value: rows,
+      });
+    });
+
+    it("should parse a JSON object with rows", () => {
+      const rows = [{ datetime: "2024-01-01", value: 1 }];
+      expect(parseImportDocument(JSON.stringify({ rows }), "json")).toEqual({
+        ok: true,
+        value: rows,
+      });
+    });
+
+    it("should reject malformed JSON", () => {
+      expect(parseImportDocument("{", "json").ok).toBe(false);
+    });
+
+    it("should reject empty imports", () => {
+      expect(parseImportDocument("[]", "json")).toEqual({
+        ok: false,
+        error: "Import contains no rows",
+        issues: [
+          {
+            path: "rows",
+            code: "too_small",
+            message: "Import contains no rows",
+          },
+        ],
+      });
+    });
+
+    it("should reject imports over the row limit", () => {
+      const rows = new Array(MAX_IMPORT_ROWS + 1).fill({});
+      expect(parseImportDocument(JSON.stringify(rows), "json").ok).toBe(false);
+    });
+  });
+
+  describe("validateImportRows", () => {
+    it("should report every invalid row with its 1-based number", () => {
+      const result = validateImportRows([
+        { datetime: "2024-01-01", value: 1 },
+        { datetime: "not-a-date", value: 1 },
+        { datetime: "2024-01-02", value: -1 },
+      ]);
+      expect(result.valid.map(r => r.row)).toEqual([1]);
+      expect(result.errors).toMatchObject([
+        {
+          row: 2,
+          error: "datetime must be a valid ISO 8601 date string",
+          issues: [{ path: "datetime", code: "invalid_format" }],
+        },
+        {
+          row: 3,
+          error: "value must be a positive number",
+          issues: [{ path: "value", code: "too_small" }],
+        },
+      ]);
+    });
+  });
+
+  describe("duplicateKey", () => {
+    it("should normalize numeric and string values", () => {
+      const date = new Date("2024-01-01T00:00:00.000Z");
+      expect(duplicateKey(date, 42.5)).toBe(duplicateKey(date, "42.50"));
+    });
+
+    it("should distinguish different datetimes", () => {
+      expect(duplicateKey(new Date("2024-01-01"), 1)).not.toBe(
+        duplicateKey(new Date("2024-01-02"), 1)
+      );
+    });
+  });
+});
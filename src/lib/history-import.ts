@@ -0,0 +1,195 @@
+import { parseFailure, type ParseResult } from "./history-query";
+import type { ValidationIssue } from "./api-error";
+import {
+  validateHistoryCreate,
+  type HistoryCreateValues,
+} from "./history-validation";
+
+/** Maximum number of data rows accepted by a single import */
+export const MAX_IMPORT_ROWS = 10000;
+
+/** A row that failed validation, reported back to the client */
+export interface ImportRowError {
+  /** 1-based position of the row among the data rows (header excluded) */
+  row: number;
+  error: string;
+  /** Each invalid field of the row */
+  issues: ValidationIssue[];
+}
+
+/** Result of validating every row of an import */
+export interface ValidatedImport {
+  /** Rows that passed validation, with their 1-based row numbers */
+  valid: { row: number; values: HistoryCreateValues }[];
+  errors: ImportRowError[];
+}
+
+/**
+ * Parses CSV text into records per RFC 4180.
+ *
+ * Handles quoted fields containing commas, line breaks and doubled quotes,
+ * and both `\n` and `\r\n` line endings. Blank lines are skipped.
+ *
+ * @param text - The raw CSV document
+ * @returns One array of fields per non-blank record
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record);
+    }
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n") {
+      endRecord();
+    } else if (ch !== "\r") {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Converts a CSV cell to a number when it is a plain numeric string, so that
+ * CSV values go through the same `typeof value === "number"` check as JSON.
+ * Anything else is returned unchanged and fails validation.
+ */
+function coerceCsvNumber(cell: string | undefined): unknown {
+  if (cell === undefined || cell.trim() === "") return undefined;
+  const n = Number(cell);
+  return Number.isFinite(n) ? n : cell;
+}
+
+/**
+ * Turns an uploaded CSV or JSON document into raw row objects.
+ *
+ * - **CSV** must have a header row containing `datetime` and `value`
+ *   columns (any order; extra columns are ignored)
+ * - **JSON** must be an array of `{ datetime, value }` objects, or an object
+ *   with such an array under `rows`
+ *
+ * @param text - The raw request body
+ * @param format - `"csv"` or `"json"`
+ * @returns The raw rows, or an error if the document is malformed or has
+ *   more than {@link MAX_IMPORT_ROWS} rows
+ */
+export function parseImportDocument(
+  text: string,
+  format: "csv" | "json"
+): ParseResult<unknown[]> {
+  let rows: unknown[];
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return parseFailure("", "invalid_format", "Body is not valid JSON");
+    }
+    const candidate = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { rows?: unknown } | null)?.rows;
+    if (!Array.isArray(candidate)) {
+      return parseFailure(
+        "rows",
+        "invalid_type",
+        "JSON body must be an array of rows or an object with rows"
+      );
+    }
+    rows = candidate;
+  } else {
+    const [header, ...records] = parseCsv(text);
+    const columns = (header ?? []).map(name => name.trim().toLowerCase());
+    const datetimeIndex = columns.indexOf("datetime");
+    const valueIndex = columns.indexOf("value");
+    if (datetimeIndex === -1 || valueIndex === -1) {
+      return parseFailure(
+        "",
+        "invalid_format",
+        "CSV header must include datetime and value columns"
+      );
+    }
+    rows = records.map(record => ({
+      datetime: record[datetimeIndex]?.trim() || undefined,
+      value: coerceCsvNumber(record[valueIndex]),
+    }));
+  }
+
+  if (rows.length === 0) {
+    return parseFailure("rows", "too_small", "Import contains no rows");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return parseFailure(
+      "rows",
+      "too_big",
+      `Import must not contain more than ${MAX_IMPORT_ROWS} rows`
+    );
+  }
+
+  return { ok: true, value: rows };
+}
+
+/**
+ * Validates every row with {@link validateHistoryCreate} -- the same rules as
+ * the POST handler -- collecting all errors rather than stopping at the first.
+ *
+ * @param rows - Raw rows from {@link parseImportDocument}
+ * @returns Valid rows and row-level errors
+ */
+export function validateImportRows(rows: unknown[]): ValidatedImport {
+  const result: ValidatedImport = { valid: [], errors: [] };
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const parsed = validateHistoryCreate(raw);
+    if (parsed.ok) {
+      result.valid.push({ row, values: parsed.value });
+    } else {
+      result.errors.push({
+        row,
+        error: parsed.error,
+        issues: parsed.issues ?? [],
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Key identifying a `(datetime, value)` pair, used to detect duplicates.
+ * Values are normalized to two decimals to match the `NUMERIC(12, 2)` column.
+ */
+export function duplicateKey(datetime: Date, value: number | string): string {
+  return `${datetime.toISOString()}|${Number(value).toFixed(2)}`;
+}
@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseHistoryFilters,
+  parseHistorySortField,
+  encodeHistoryCursor,
+  decodeHistoryCursor,
+  parseStatsPeriod,
+  parseTimeZone,
+} from "./history-query";
+
+describe("history-query", () => {
+  describe("parseHistoryFilters", () => {
+    it("should return empty filters when no params are given", () => {
+      const result = parseHistoryFilters({});
+      expect(result).toEqual({ ok: true, value: {} });
+    });
+
+    it("should treat empty strings as absent", () => {
+      const result = parseHistoryFilters({ from: "", minValue: "" });
+      expect(result).toEqual({ ok: true, value: {} });
+    });
+
+    it("should parse a datetime range", () => {
+      const result = parseHistoryFilters({
+        from: "2024-01-01T00:00:00.000Z",
+        to: "2024-02-01T00:00:00.000Z",
+      });
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.from?.toISOString()).toBe(
+          "2024-01-01T00:00:00.000Z"
+        );
+        expect(result.value.to?.toISOString()).toBe("2024-02-01T00:00:00.000Z");
+      }
+    });
+
+    it("should reject an invalid from", () => {
+      const result = parseHistoryFilters({ from: "not-a-date" });
+      expect(result).toEqual({
+        ok: false,
+        error: "from must be a valid ISO 8601 date string",
+        issues: [
+          {
+            path: "from",
+            code: "invalid_format",
+            message: "from must be a valid ISO 8601 date string",
+          },
+        ],
+      });
+    });
+
+    it("should reject dates Postgres cannot store", () => {
+      for (const from of ["99999-01-01", "+099999-01-01", "0000-01-01"]) {
+        expect(parseHistoryFilters({ from })).toMatchObject({
+          ok: false,
+          issues: [{ path: "from", code: "invalid_format" }],
+        });
+      }
+    });
+
+    it("should reject an invalid to", () => {
+      const result = parseHistoryFilters({ to: "yesterday" });
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject from after to", () => {
+      const result = parseHistoryFilters({
+        from: "2024-02-01",
+        to: "2024-01-01",
+      });
+      expect(result).toMatchObject({
+        ok: false,
+        error: "from must not be after to",
+        issues: [{ path: "from", code: "invalid_range" }],
+      });
+    });
+
+    it("should parse a value range", () => {
+      const result = parseHistoryFilters({ minValue: "1.5", maxValue: "10" });
+      expect(result).toEqual({
+        ok: true,
+        value: { minValue: 1.5, maxValue: 10 },
+      });
+    });
+
+    it("should reject non-numeric minValue", () => {
+      const result = parseHistoryFilters({ minValue: "abc" });
+      expect(result).toMatchObject({
+        ok: false,
+        error: "minValue must be a number",
+        issues: [{ path: "minValue", code: "invalid_type" }],
+      });
+    });
+
+    it("should reject trailing garbage in maxValue", () => {
+      const result = parseHistoryFilters({ maxValue: "12px" });
+      expect(result).toMatchObject({
+        ok: false,
+        error: "maxValue must be a number",
+      });
+    });
+
+    it("should reject minValue greater than maxValue", () => {
+      const result = parseHistoryFilters({ minValue: "10", maxValue: "5" });
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe("parseHistorySortField", () => {
+    it("should default to datetime", () => {
+      expect(parseHistorySortField(undefined)).toEqual({
+        ok: true,
+        value: "datetime",
+      });
+    });
+
+    it("should accept value and created_at", () => {
+      expect(parseHistorySortField("value")).toEqual({
+        ok: true,
+        value: "value",
+      });
+      expect(parseHistorySortField("created_at")).toEqual({
+        ok: true,
+        value: "created_at",
+      });
+    });
+
+    it("should reject unknown fields", () => {
+      const result = parseHistorySortField("user_id");
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe("history cursors", () => {
+    const cursor = {
+      datetime: new Date("2024-01-15T10:30:00.000Z"),
+      id: "0b8c7a2e-5f0d-4d57-9d1c-3f5a1c2b4e6f",
+    };
+
+    it("should round-trip through encode and decode", () => {
+      const result = decodeHistoryCursor(encodeHistoryCursor(cursor));
+      expect(result).toEqual({ ok: true, value: cursor });
+    });
+
+    it("should produce a URL-safe string", () => {
+      expect(encodeHistoryCursor(cursor)).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it("should reject garbage", () => {
+      expect(decodeHistoryCursor("not-a-cursor")).toEqual({
+        ok: false,
+        error: "cursor is invalid",
+      });
+    });
+
+    it("should reject a cursor with an invalid datetime", () => {
+      const raw = Buffer.from("yesterday|abc", "utf8").toString("base64url");
+      expect(decodeHistoryCursor(raw).ok).toBe(false);
+    });
+
+    it("should reject a cursor with an expanded-year datetime", () => {
+      const raw = Buffer.from(
+        "+099999-01-01T00:00:00.000Z|0b8c7a2e-5f0d-4d57-9d1c-3f5a1c2b4e6f",
+        "utf8"
+      ).toString("base64url");
+      expect(decodeHistoryCursor(raw)).toEqual({
+        ok: false,
+        error: "cursor is invalid",
+      });
+    });
+
+    it("should reject a cursor whose id is not a UUID", () => {
+      const raw = Buffer.from(
+        "2024-01-01T00:00:00.000Z|notauuid",
+        "utf8"
+      ).toString("base64url");
+      expect(decodeHistoryCursor(raw)).toEqual({
+        ok: false,
+        error: "cursor is invalid",
+      });
+    });
+
+    it("should reject a cursor without an id", () => {
+      const raw = Buffer.from("2024-01-15T10:30:00.000Z|", "utf8").toString(
+        "base64url"
+      );
+      expect(decodeHistoryCursor(raw).ok).toBe(false);
+    });
+  });
+
+  describe("parseStatsPeriod", () => {
+    it("should default to day", () => {
+      expect(parseStatsPeriod(undefined)).toEqual({ ok: true, value: "day" });
+    });
+
+    it("should accept week, month and year", () => {
+      for (const period of ["week", "month", "year"]) {
+        expect(parseStatsPeriod(period)).toEqual({ ok: true, value: period });
+      }
+    });
+
+    it("should reject unknown periods", () => {
+      expect(parseStatsPeriod("hour").ok).toBe(false);
+    });
+  });
+
+  describe("parseTimeZone", () => {
+    it("should default to UTC", () => {
+      expect(parseTimeZone(undefined)).toEqual({ ok: true, value: "UTC" });
+    });
+
+    it("should accept IANA timezone names", () => {
+      expect(parseTimeZone("America/New_York")).toEqual({
+        ok: true,
+        value: "America/New_York",
+      });
+    });
+
+    it("should reject unknown timezones", () => {
+      expect(parseTimeZone("Mars/Olympus_Mons")).toEqual({
+        ok: false,
+        error: "timezone must be a valid IANA timezone name",
+      });
+    });
+
+    it("should reject SQL-looking input", () => {
+      expect(parseTimeZone("UTC'; DROP TABLE users; --").ok).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import {
+  and,
+  eq,
+  gt,
+  gte,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import { histories } from "../db/schema";
+import {
+  isValidDatetime,
+  isValidUuid,
+  type SerializedHistory,
+} from "./serializers";
+import type { ValidationIssue, ValidationIssueCode } from "./api-error";
+
+/** Columns that history lists can be sorted by */
+export const HISTORY_SORT_FIELDS = ["datetime", "value", "created_at"] as const;
+
+export type HistorySortField = (typeof HISTORY_SORT_FIELDS)[number];
+
+/**
+ * Parsed and validated filters for querying a user's histories.
+ * Every bound is optional; omitted bounds are not applied.
+ */
+export interface HistoryFilters {
+  /** Inclusive lower bound on `datetime` */
+  from?: Date;
+  /** Inclusive upper bound on `datetime` */
+  to?: Date;
+  /** Inclusive lower bound on `value` */
+  minValue?: number;
+  /** Inclusive upper bound on `value` */
+  maxValue?: number;
+}
+
+/** Raw query-string values accepted by {@link parseHistoryFilters} */
+export interface HistoryFilterParams {
+  from?: string;
+  to?: string;
+  minValue?: string;
+  maxValue?: string;
+}
+
+/**
+ * Result of parsing user-supplied query parameters: either the parsed value,
+ * or a human-readable error suitable for a 400 `errorResponse`. Parsers
+ * covering several fields also list each problem in `issues` (see
+ * {@link validationFailed}).
+ */
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string; issues?: ValidationIssue[] };
+
+/** A failed {@link ParseResult} reporting a single problem with `path` */
+export function parseFailure(
+  path: string,
+  code: ValidationIssueCode,
+  message: string
+): { ok: false; error: string; issues: ValidationIssue[] } {
+  return { ok: false, error: message, issues: [{ path, code, message }] };
+}
+
+/**
+ * Parses a numeric query parameter, rejecting anything that is not a finite
+ * number (e.g. `"abc"`, `"1e999"`, or trailing garbage like `"12px"`).
+ */
+function parseNumberParam(raw: string): number | null {
+  if (raw.trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parses and validates the date-range and value-range filters for histories.
+ *
+ * - `from` / `to` must pass {@link isValidDatetime}, the same rule the POST
+ *   and PUT handlers apply to `datetime`
+ * - `minValue` / `maxValue` must be finite numbers
+ * - lower bounds must not exceed upper bounds
+ *
+ * Empty strings are treated as absent.
+ *
+ * @param params - Raw query-string values
+ * @returns The parsed filters, or the first validation error
+ */
+export function parseHistoryFilters(
+  params: HistoryFilterParams
+): ParseResult<HistoryFilters> {
+  const filters: HistoryFilters = {};
+
+  if (params.from) {
+    if (!isValidDatetime(params.from)) {
+      return parseFailure(
+        "from",
+        "invalid_format",
+        "from must be a valid ISO 8601 date string"
+      );
+    }
+    filters.from = new Date(params.from);
+  }
+
+  if (params.to) {
+    if (!isValidDatetime(params.to)) {
+      return parseFailure(
+        "to",
+        "invalid_format",
+        "to must be a valid ISO 8601 date string"
+      );
+    }
+    filters.to = new Date(params.to);
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return parseFailure("from", "invalid_range", "from must not be after to");
+  }
+
+  if (params.minValue) {
+    const minValue = parseNumberParam(params.minValue);
+    if (minValue === null) {
+      return parseFailure(
+        "minValue",
+        "invalid_type",
+        "minValue must be a number"
+      );
+    }
+    filters.minValue = minValue;
+  }
+
+  if (params.maxValue) {
+    const maxValue = parseNumberParam(params.maxValue);
+    if (maxValue === null) {
+      return parseFailure(
+        "maxValue",
+        "invalid_type",
+        "maxValue must be a number"
+      );
+    }
+    filters.maxValue = maxValue;
+  }
+
+  if (
+    filters.minValue !== undefined &&
+    filters.maxValue !== undefined &&
+    filters.minValue > filters.maxValue
+  ) {
+    return parseFailure(
+      "minValue",
+      "invalid_range",
+      "minValue must not be greater than maxValue"
+    );
+  }
+
+  return { ok: true, value: filters };
+}
+
+/**
+ * Parses the `sortBy` query parameter.
+ *
+ * @param raw - Raw query-string value; absent or empty means `"datetime"`
+ * @returns The sort field, or an error if it is not one of {@link HISTORY_SORT_FIELDS}
+ */
+export function parseHistorySortField(
+  raw: string | undefined
+): ParseResult<HistorySortField> {
+  if (!raw) {
+    return { ok: true, value: "datetime" };
+  }
+  if (!(HISTORY_SORT_FIELDS as readonly string[]).includes(raw)) {
+    return {
+      ok: false,
+      error: `sortBy must be one of: ${HISTORY_SORT_FIELDS.join(", ")}`,
+    };
+  }
+  return { ok: true, value: raw as HistorySortField };
+}
+
+/** Calendar units that history statistics can be grouped by */
+export const HISTORY_STATS_PERIODS = ["day", "week", "month", "year"] as const;
+
+export type HistoryStatsPeriod = (typeof HISTORY_STATS_PERIODS)[number];
+
+/** Periods that the global total can break its series down by (UTC boundaries) */
+export const HISTORY_TOTAL_PERIODS = ["day", "week", "month"] as const;
+
+export type HistoryTotalPeriod = (typeof HISTORY_TOTAL_PERIODS)[number];
+
+/**
+ * Parses the `groupBy` query parameter of the statistics endpoint.
+ *
+ * @param raw - Raw query-string value; absent or empty means `"day"`
+ * @returns The period, or an error if it is not one of {@link HISTORY_STATS_PERIODS}
+ */
+export function parseStatsPeriod(
+  raw: string | undefined
+): ParseResult<HistoryStatsPeriod> {
+  if (!raw) {
+    return { ok: true, value: "day" };
+  }
+  if (!(HISTORY_STATS_PERIODS as readonly string[]).includes(raw)) {
+    return {
+      ok: false,
+      error: `groupBy must be one of: ${HISTORY_STATS_PERIODS.join(", ")}`,
+    };
+  }
+  return { ok: true, value: raw as HistoryStatsPeriod };
+}
+
+/**
+ * Parses an IANA timezone name such as `"Europe/Paris"`.
+ *
+ * Validity is checked with `Intl.DateTimeFormat`, which throws a `RangeError`
+ * for unknown zones, so only names the runtime knows are accepted.
+ *
+ * @param raw - Raw query-string value; absent or empty means `"UTC"`
+ * @returns The timezone name, or an error if it is not a known IANA zone
+ */
+export function parseTimeZone(raw: string | undefined): ParseResult<string> {
+  if (!raw) {
+    return { ok: true, value: "UTC" };
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: raw });
+  } catch {
+    return { ok: false, error: "timezone must be a valid IANA timezone name" };
+  }
+  return { ok: true, value: raw };
+}
+
+/**
+ * Aggregated statistics for one calendar bucket of a user's histories.
+ */
+export interface HistoryStatsBucket {
+  /** Local start date of the bucket in the requested timezone (`YYYY-MM-DD`) */
+  period: string;
+  /** Start of the bucket as an ISO 8601 UTC instant */
+  start: string;
+  count: number;
+  sum: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Response payload of the statistics endpoint.
+ */
+export interface HistoryStatsResponse {
+  groupBy: HistoryStatsPeriod;
+  timezone: string;
+  buckets: HistoryStatsBucket[];
+}
+
+/**
+ * Builds the SQL conditions selecting non-deleted histories within the range
+ * bounds in `filters`, without any user scoping. Used directly by aggregate
+ * queries across all users.
+ *
+ * Soft-deleted (trashed) histories are always excluded.
+ *
+ * @param filters - Parsed filters from {@link parseHistoryFilters}
+ * @returns The soft-delete condition plus one condition per applicable bound
+ */
+export function historyFilterConditions(filters: HistoryFilters): SQL[] {
+  const conditions: SQL[] = [isNull(histories.deleted_at)];
+
+  if (filters.from) conditions.push(gte(histories.datetime, filters.from));
+  if (filters.to) conditions.push(lte(histories.datetime, filters.to));
+  if (filters.minValue !== undefined) {
+    conditions.push(gte(histories.value, String(filters.minValue)));
+  }
+  if (filters.maxValue !== undefined) {
+    conditions.push(lte(histories.value, String(filters.maxValue)));
+  }
+
+  return conditions;
+}
+
+/**
+ * Builds the SQL `WHERE` condition selecting a user's non-deleted histories
+ * that match the given filters.
+ *
+ * @param userId - The owning user's Firebase UID
+ * @param filters - Parsed filters from {@link parseHistoryFilters}
+ * @returns A Drizzle condition combining all applicable bounds
+ */
+export function historyConditions(
+  userId: string,
+  filters: HistoryFilters
+): SQL {
+  return and(
+    eq(histories.user_id, userId),
+    ...historyFilterConditions(filters)
+  )!;
+}
+
+/**
+ * Builds the SQL `WHERE` condition selecting one of a user's histories by id.
+ *
+ * @param userId - The owning user's Firebase UID
+ * @param historyId - The history record's id
+ * @param trashed - Select the record only if it is soft-deleted (`true`) or
+ *   only if it is not (`false`, the default)
+ * @returns A Drizzle condition matching at most one row
+ */
+export function historyByIdCondition(
+  userId: string,
+  historyId: string,
+  trashed = false
+): SQL {
+  return and(
+    eq(histories.id, historyId),
+    eq(histories.user_id, userId),
+    trashed ? isNotNull(histories.deleted_at) : isNull(histories.deleted_at)
+  )!;
+}
+
+/**
+ * Position of the last row on a keyset-paginated page. The next page starts
+ * strictly after this `(datetime, id)` pair in the requested sort direction.
+ */
+export interface HistoryCursor {
+  datetime: Date;
+  id: string;
+}
+
+/**
+ * Response envelope for cursor-paginated history lists.
+ */
+export interface HistoryPage {
+  /** Serialized history records on this page */
+  items: SerializedHistory[];
+  /** Opaque cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Whether more records exist after this page */
+  hasMore: boolean;
+  /** Total number of matching records, present only when requested */
+  total?: number;
+}
+
+/**
+ * Encodes a cursor as an opaque, URL-safe string.
+ *
+ * Clients must treat the result as opaque; the format may change.
+ *
+ * @param cursor - The `(datetime, id)` of the last row on the page
+ * @returns A base64url-encoded cursor
+ */
+export function encodeHistoryCursor(cursor: HistoryCursor): string {
+  return Buffer.from(
+    `${cursor.datetime.toISOString()}|${cursor.id}`,
+    "utf8"
+  ).toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by {@link encodeHistoryCursor}.
+ *
+ * @param raw - The opaque cursor string from the `cursor` query parameter
+ * @returns The decoded cursor, or an error if the string is malformed or its
+ *   id is not a UUID
+ */
+export function decodeHistoryCursor(raw: string): ParseResult<HistoryCursor> {
+  const decoded = Buffer.from(raw, "base64url").toString("utf8");
+  const separator = decoded.indexOf("|");
+  if (separator === -1) {
+    return { ok: false, error: "cursor is invalid" };
+  }
+
+  const datetime = decoded.slice(0, separator);
+  const id = decoded.slice(separator + 1);
+  if (!isValidDatetime(datetime) || !isValidUuid(id)) {
+    return { ok: false, error: "cursor is invalid" };
+  }
+
+  return { ok: true, value: { datetime: new Date(datetime), id } };
+}
+
+/**
+ * Builds the keyset condition selecting rows strictly after `cursor` when
+ * ordering by `(datetime, id)` in the given direction.
+ *
+ * @param cursor - The decoded cursor of the previous page
+ * @param direction - Sort direction of the listing
+ * @returns A Drizzle condition to `AND` with the listing's filters
+ */
+export function historyCursorCondition(
+  cursor: HistoryCursor,
+  direction: "asc" | "desc"
+): SQL {
+  const after = direction === "asc" ? gt : lt;
+  return or(
+    after(histories.datetime, cursor.datetime),
+    and(eq(histories.datetime, cursor.datetime), after(histories.id, cursor.id))
+  )!;
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateHistoryCreate,
+  validateHistoryUpdate,
+  validateBatchOperation,
+} from "./history-validation";
+
+describe("history-validation", () => {
+  describe("validateHistoryCreate", () => {
+    it("should accept a valid body", () => {
+      const result = validateHistoryCreate({
+        datetime: "2024-01-15T10:30:00.000Z",
+        value: 42.5,
+      });
+      expect(result).toEqual({
+        ok: true,
+        value: { datetime: new Date("2024-01-15T10:30:00.000Z"), value: 42.5 },
+      });
+    });
+
+    it("should reject missing fields", () => {
+      expect(validateHistoryCreate({ value: 1 })).toEqual({
+        ok: false,
+        error: "datetime is required",
+        issues: [
+          {
+            path: "datetime",
+            code: "required",
+            message: "datetime is required",
+          },
+        ],
+      });
+      expect(validateHistoryCreate({ datetime: "2024-01-01" })).toMatchObject({
+        ok: false,
+        error: "value is required",
+      });
+    });
+
+    it("should report every invalid field", () => {
+      expect(
+        validateHistoryCreate({ datetime: "not-a-date", value: "5" })
+      ).toEqual({
+        ok: false,
+        error:
+          "datetime must be a valid ISO 8601 date string; value must be a positive number",
+        issues: [
+          {
+            path: "datetime",
+            code: "invalid_format",
+            message: "datetime must be a valid ISO 8601 date string",
+          },
+          {
+            path: "value",
+            code: "invalid_type",
+            message: "value must be a positive number",
+          },
+        ],
+      });
+    });
+
+    it("should reject a non-object body", () => {
+      expect(validateHistoryCreate(null).ok).toBe(false);
+      expect(validateHistoryCreate([1, 2]).ok).toBe(false);
+    });
+
+    it("should reject non-positive values", () => {
+      expect(
+        validateHistoryCreate({ datetime: "2024-01-01", value: 0 })
+      ).toMatchObject({
+        ok: false,
+        error: "value must be a positive number",
+        issues: [{ path: "value", code: "too_small" }],
+      });
+    });
+
+    it("should reject values the value column cannot hold", () => {
+      expect(
+        validateHistoryCreate({ datetime: "2024-01-01", value: 1e10 })
+      ).toMatchObject({
+        ok: false,
+        error: "value must be less than 10000000000",
+        issues: [{ path: "value", code: "too_big" }],
+      });
+      expect(
+        validateHistoryCreate({ datetime: "2024-01-01", value: 1.005 })
+      ).toMatchObject({
+        ok: false,
+        error: "value must have at most 2 decimal places",
+        issues: [{ path: "value", code: "too_big" }],
+      });
+      expect(
+        validateHistoryCreate({ datetime: "2024-01-01", value: 9999999999.99 })
+          .ok
+      ).toBe(true);
+      expect(
+        validateHistoryCreate({ datetime: "2024-01-01", value: 4.35 }).ok
+      ).toBe(true);
+    });
+
+    it("should reject non-number values", () => {
+      expect(
+        validateHistoryCreate({ datetime: "2024-01-01", value: "5" }).ok
+      ).toBe(false);
+    });
+
+    it("should reject invalid datetimes", () => {
+      expect(
+        validateHistoryCreate({ datetime: "not-a-date", value: 5 })
+      ).toMatchObject({
+        ok: false,
+        error: "datetime must be a valid ISO 8601 date string",
+      });
+    });
+  });
+
+  describe("validateHistoryUpdate", () => {
+    it("should accept a value-only update", () => {
+      expect(validateHistoryUpdate({ value: 99 })).toEqual({
+        ok: true,
+        value: { value: 99 },
+      });
+    });
+
+    it("should accept a datetime-only update", () => {
+      expect(
+        validateHistoryUpdate({ datetime: "2024-06-01T00:00:00Z" })
+      ).toEqual({
+        ok: true,
+        value: { datetime: new Date("2024-06-01T00:00:00Z") },
+      });
+    });
+
+    it("should reject an empty update", () => {
+      expect(validateHistoryUpdate({})).toEqual({
+        ok: false,
+        error: "No fields to update",
+        issues: [
+          { path: "", code: "required", message: "No fields to update" },
+        ],
+      });
+    });
+
+    it("should reject a non-positive value", () => {
+      expect(validateHistoryUpdate({ value: -10 }).ok).toBe(false);
+    });
+
+    it("should reject a value the value column cannot hold", () => {
+      expect(validateHistoryUpdate({ value: 1e12 }).ok).toBe(false);
+    });
+
+    it("should reject an invalid datetime", () => {
+      expect(validateHistoryUpdate({ datetime: "not-a-date" }).ok).toBe(false);
+    });
+  });
+
+  describe("validateBatchOperation", () => {
+    it("should accept a create operation", () => {
+      const result = validateBatchOperation({
+        op: "create",
+        datetime: "2024-01-01",
+        value: 1,
+      });
+      expect(result.ok).toBe(true);
+      if (result.ok) expect(result.value.op).toBe("create");
+    });
+
+    it("should accept an update operation", () => {
+      const result = validateBatchOperation({
+        op: "update",
+        id: "h1",
+        value: 2,
+      });
+      expect(result).toEqual({
+        ok: true,
+        value: { op: "update", id: "h1", input: { value: 2 } },
+      });
+    });
+
+    it("should accept a delete operation", () => {
+      expect(validateBatchOperation({ op: "delete", id: "h1" })).toEqual({
+        ok: true,
+        value: { op: "delete", id: "h1" },
+      });
+    });
+
+    it("should reject unknown ops", () => {
+      expect(validateBatchOperation({ op: "upsert" })).toMatchObject({
+        ok: false,
+        error: "op must be one of: create, update, delete",
+        issues: [{ path: "op", code: "invalid_value" }],
+      });
+    });
+
+    it("should require an id for update and delete", () => {
+      expect(validateBatchOperation({ op: "delete" })).toMatchObject({
+        ok: false,
+        error: "id is required for delete",
+        issues: [{ path: "id", code: "required" }],
+      });
+      expect(validateBatchOperation({ op: "update", value: 1 }).ok).toBe(false);
+    });
+
+    it("should apply single-record rules to create operations", () => {
+      expect(
+        validateBatchOperation({ op: "create", datetime: "x", value: 1 })
+      ).toMatchObject({
+        ok: false,
+        error: "datetime must be a valid ISO 8601 date string",
+      });
+    });
+  });
+});
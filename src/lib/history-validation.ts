@@ -0,0 +1,224 @@
+import { isValidDatetime } from "./serializers";
+import type { ParseResult } from "./history-query";
+import type { ValidationIssue } from "./api-error";
+
+/** Validated fields for creating a history record */
+export interface HistoryCreateValues {
+  datetime: Date;
+  value: number;
+}
+
+/** Validated fields for updating a history record; omitted fields are unchanged */
+export interface HistoryUpdateValues {
+  datetime?: Date;
+  value?: number;
+}
+
+/** Returns `body` as a plain object, or an empty object for anything else */
+function asObject(body: unknown): Record<string, unknown> {
+  return typeof body === "object" && body !== null && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : {};
+}
+
+/** A failed {@link ParseResult} listing every issue found */
+function invalid(issues: ValidationIssue[]): ParseResult<never> {
+  return {
+    ok: false,
+    error: issues.map(issue => issue.message).join("; "),
+    issues,
+  };
+}
+
+/** The issue for a missing field */
+function required(path: string): ValidationIssue {
+  return { path, code: "required", message: `${path} is required` };
+}
+
+/** Checks a `datetime` field that is present */
+function checkDatetime(datetime: unknown): ValidationIssue | undefined {
+  if (typeof datetime !== "string" || !isValidDatetime(datetime)) {
+    return {
+      path: "datetime",
+      code: typeof datetime === "string" ? "invalid_format" : "invalid_type",
+      message: "datetime must be a valid ISO 8601 date string",
+    };
+  }
+  return undefined;
+}
+
+/** Values must be below this to fit the `NUMERIC(12,2)` value column */
+export const MAX_VALUE = 1e10;
+
+/** Decimal places the value column stores */
+export const VALUE_DECIMALS = 2;
+
+/** Checks a `value` field that is present */
+function checkValue(value: unknown): ValidationIssue | undefined {
+  if (typeof value !== "number" || value <= 0) {
+    return {
+      path: "value",
+      code: typeof value === "number" ? "too_small" : "invalid_type",
+      message: "value must be a positive number",
+    };
+  }
+  if (value >= MAX_VALUE) {
+    return {
+      path: "value",
+      code: "too_big",
+      message: `value must be less than ${MAX_VALUE}`,
+    };
+  }
+  const scale = 10 ** VALUE_DECIMALS;
+  if (Math.round(value * scale) / scale !== value) {
+    return {
+      path: "value",
+      code: "too_big",
+      message: `value must have at most ${VALUE_DECIMALS} decimal places`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Validates a {@link HistoryCreateRequest}-shaped body.
+ *
+ * This is the single source of truth for create validation, shared by the
+ * POST handler and every other path that creates histories:
+ * - `datetime` and `value` are required
+ * - `value` must be a positive number below {@link MAX_VALUE}, with at most
+ *   {@link VALUE_DECIMALS} decimal places
+ * - `datetime` must pass {@link isValidDatetime}
+ *
+ * @param body - The parsed JSON request body (or one element of a batch)
+ * @returns The validated values, or an issue for every invalid field
+ */
+export function validateHistoryCreate(
+  body: unknown
+): ParseResult<HistoryCreateValues> {
+  const { datetime, value } = asObject(body);
+  const issues: ValidationIssue[] = [];
+
+  const datetimeIssue = datetime
+    ? checkDatetime(datetime)
+    : required("datetime");
+  if (datetimeIssue) issues.push(datetimeIssue);
+
+  const valueIssue =
+    value === undefined || value === null
+      ? required("value")
+      : checkValue(value);
+  if (valueIssue) issues.push(valueIssue);
+
+  if (issues.length > 0) {
+    return invalid(issues);
+  }
+
+  return {
+    ok: true,
+    value: { datetime: new Date(datetime as string), value: value as number },
+  };
+}
+
+/**
+ * Validates a {@link HistoryUpdateRequest}-shaped body.
+ *
+ * Shared by the PUT handler and every other path that updates histories:
+ * - `datetime`, if present, must pass {@link isValidDatetime}
+ * - `value`, if present, must be a positive number within the same bounds
+ * - at least one of them must be present
+ *
+ * @param body - The parsed JSON request body (or one element of a batch)
+ * @returns The validated values, or an issue for every invalid field
+ */
+export function validateHistoryUpdate(
+  body: unknown
+): ParseResult<HistoryUpdateValues> {
+  const { datetime, value } = asObject(body);
+  const updates: HistoryUpdateValues = {};
+  const issues: ValidationIssue[] = [];
+
+  if (datetime !== undefined) {
+    const issue = checkDatetime(datetime);
+    if (issue) issues.push(issue);
+    else updates.datetime = new Date(datetime as string);
+  }
+
+  if (value !== undefined) {
+    const issue = checkValue(value);
+    if (issue) issues.push(issue);
+    else updates.value = value as number;
+  }
+
+  if (issues.length > 0) {
+    return invalid(issues);
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return invalid([
+      { path: "", code: "required", message: "No fields to update" },
+    ]);
+  }
+
+  return { ok: true, value: updates };
+}
+
+/** Kinds of operation accepted by the batch endpoint */
+export const BATCH_OPERATION_TYPES = ["create", "update", "delete"] as const;
+
+/** A validated batch operation */
+export type HistoryBatchOperation =
+  | { op: "create"; input: HistoryCreateValues }
+  | { op: "update"; id: string; input: HistoryUpdateValues }
+  | { op: "delete"; id: string };
+
+/**
+ * Validates one element of a batch request's `operations` array.
+ *
+ * Each element carries an `op` discriminator; `update` and `delete` also
+ * require the target `id`. The remaining fields are validated with
+ * {@link validateHistoryCreate} or {@link validateHistoryUpdate}, so batch
+ * operations follow exactly the same rules as the single-record handlers.
+ *
+ * @param raw - One element of the `operations` array
+ * @returns The validated operation, or its validation issues
+ */
+export function validateBatchOperation(
+  raw: unknown
+): ParseResult<HistoryBatchOperation> {
+  const body = asObject(raw);
+  const { op, id } = body;
+
+  if (
+    typeof op !== "string" ||
+    !(BATCH_OPERATION_TYPES as readonly string[]).includes(op)
+  ) {
+    return invalid([
+      {
+        path: "op",
+        code: "invalid_value",
+        message: `op must be one of: ${BATCH_OPERATION_TYPES.join(", ")}`,
+      },
+    ]);
+  }
+
+  if (op === "create") {
+    const input = validateHistoryCreate(body);
+    return input.ok ? { ok: true, value: { op, input: input.value } } : input;
+  }
+
+  if (typeof id !== "string" || !id) {
+    return invalid([
+      { path: "id", code: "required", message: `id is required for ${op}` },
+    ]);
+  }
+
+  if (op === "delete") {
+    return { ok: true, value: { op, id } };
+  }
+
+  const input = validateHistoryUpdate(body);
+  return input.ok
+    ? { ok: true, value: { op: "update", id, input: input.value } }
+    : input;
+}
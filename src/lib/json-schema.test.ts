@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { ref, validateJsonSchema, type JsonSchema } from "./json-schema";
+
+describe("json-schema", () => {
+  describe("validateJsonSchema", () => {
+    const point: JsonSchema = {
+      type: "object",
+      required: ["x", "y"],
+      properties: {
+        x: { type: "integer", minimum: 0 },
+        y: { type: "number", exclusiveMinimum: 0 },
+        label: { type: ["string", "null"], maxLength: 3 },
+      },
+      additionalProperties: false,
+    };
+
+    it("should accept a matching value", () => {
+      expect(validateJsonSchema(point, { x: 1, y: 0.5, label: null })).toEqual(
+        []
+      );
+    });
+
+    it("should report every violation with its path", () => {
+      expect(
+        validateJsonSchema(point, { x: 1.5, label: "long", z: true })
+      ).toEqual([
+        { path: "y", message: "is required" },
+        { path: "x", message: "must be integer, got number" },
+        { path: "label", message: "must be at most 3 characters" },
+        { path: "z", message: "is not allowed" },
+      ]);
+    });
+
+    it("should locate array items", () => {
+      const schema: JsonSchema = {
+        type: "array",
+        maxItems: 2,
+        items: { enum: ["a", "b"] },
+      };
+      expect(validateJsonSchema(schema, ["a", "c", "b"], {}, "data")).toEqual([
+        { path: "data", message: "must have at most 2 items" },
+        { path: "data[1]", message: 'must be one of: "a", "b"' },
+      ]);
+    });
+
+    it("should check date and date-time formats", () => {
+      const dateTime: JsonSchema = { type: "string", format: "date-time" };
+      expect(validateJsonSchema(dateTime, "2024-01-15T10:30:00.000Z")).toEqual(
+        []
+      );
+      expect(validateJsonSchema(dateTime, "2024-01-15T10:30:00+02:00")).toEqual(
+        []
+      );
+      expect(validateJsonSchema(dateTime, "2024-01-15")).toEqual([
+        { path: "", message: "must be a date-time string" },
+      ]);
+      expect(
+        validateJsonSchema({ type: "string", format: "date" }, "2024-01-15")
+      ).toEqual([]);
+    });
+
+    it("should resolve references against the registry", () => {
+      const registry = { Point: point };
+      expect(
+        validateJsonSchema(ref("Point"), { x: -1, y: 1 }, registry)
+      ).toEqual([{ path: "x", message: "must be >= 0" }]);
+      expect(() => validateJsonSchema(ref("Missing"), {}, registry)).toThrow(
+        "Unknown schema reference"
+      );
+    });
+
+    it("should report the closest branch of a failed oneOf", () => {
+      const schema: JsonSchema = {
+        oneOf: [{ type: "array" }, point],
+      };
+      expect(validateJsonSchema(schema, [])).toEqual([]);
+      expect(validateJsonSchema(schema, { x: 1 })).toEqual([
+        { path: "y", message: "is required" },
+      ]);
+    });
+
+    it("should refuse a value matching several oneOf branches", () => {
+      const schema: JsonSchema = {
+        oneOf: [{ type: "number" }, { type: "integer" }],
+      };
+      expect(validateJsonSchema(schema, 1.5)).toEqual([]);
+      expect(validateJsonSchema(schema, 1)).toEqual([
+        { path: "", message: "must match exactly one schema, matched 2" },
+      ]);
+      expect(validateJsonSchema({ anyOf: schema.oneOf }, 1)).toEqual([]);
+    });
+
+    it("should apply every allOf branch", () => {
+      const schema: JsonSchema = {
+        allOf: [point, { properties: { x: { const: 0 } } }],
+      };
+      expect(validateJsonSchema(schema, { x: 0, y: 1 })).toEqual([]);
+      expect(validateJsonSchema(schema, { x: 2, y: 1 })).toEqual([
+        { path: "x", message: "must be 0" },
+      ]);
+    });
+  });
+});
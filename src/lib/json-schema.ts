@@ -0,0 +1,302 @@
+/** JSON types a {@link JsonSchema} can require */
+export type JsonType =
+  "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * The subset of JSON Schema (draft 2020-12, as used by OpenAPI 3.1) that the
+ * API's route schemas are written in, and that {@link validateJsonSchema}
+ * checks.
+ *
+ * `format` is checked for `date-time` and `date` only; other formats are
+ * documentation. `$ref` may only point into `#/components/schemas/`.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonType | JsonType[];
+  description?: string;
+  enum?: readonly unknown[];
+  const?: unknown;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  default?: unknown;
+  examples?: unknown[];
+}
+
+/**
+ * An object schema declaring exactly the properties of `T`: used with
+ * `satisfies`, the compiler reports a property missing from the schema or
+ * not in `T`, keeping schemas in step with the TypeScript types they
+ * describe.
+ */
+export type ObjectSchemaOf<T> = Omit<JsonSchema, "type" | "properties"> & {
+  type: "object";
+  properties: { [K in keyof T]-?: JsonSchema };
+};
+
+/** Where a value fails a schema, and why */
+export interface SchemaViolation {
+  /** Path to the value, e.g. `data.items[0].value`; empty for the root */
+  path: string;
+  message: string;
+}
+
+/** Named schemas that `$ref`s resolve against, e.g. `History` */
+export type SchemaRegistry = Record<string, JsonSchema>;
+
+/** Prefix of the `$ref`s {@link validateJsonSchema} resolves */
+export const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+/**
+ * Builds a reference to a named schema.
+ *
+ * @param name - The schema's name in the registry, e.g. `History`
+ * @returns `{ $ref: "#/components/schemas/<name>" }`
+ */
+export function ref(name: string): JsonSchema {
+  return { $ref: `${SCHEMA_REF_PREFIX}${name}` };
+}
+
+const DATE_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks `value` against `schema`.
+ *
+ * All violations are collected rather than stopping at the first. For
+ * `anyOf` and `oneOf`, a value matching no branch is reported once, with
+ * the violations of the closest branch: the one with the fewest, preferring
+ * branches that accept the value's type.
+ *
+ * @param schema - The schema to check against
+ * @param value - A parsed JSON value
+ * @param registry - Schemas that `$ref`s resolve against
+ * @param path - Path of `value`, prefixed to violation paths
+ * @returns The violations; empty when `value` matches
+ *
+ * @throws Error if a `$ref` names a schema missing from `registry`
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  registry: SchemaRegistry = {},
+  path = ""
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  if (schema.$ref !== undefined) {
+    violations.push(
+      ...validateJsonSchema(
+        resolveRef(schema.$ref, registry),
+        value,
+        registry,
+        path
+      )
+    );
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      fail(`must be ${types.join(" or ")}, got ${typeOf(value)}`);
+      return violations;
+    }
+  }
+
+  if (schema.const !== undefined && !jsonEqual(value, schema.const)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => jsonEqual(value, option))) {
+    fail(
+      `must be one of: ${schema.enum.map(o => JSON.stringify(o)).join(", ")}`
+    );
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      fail(`must match ${schema.pattern}`);
+    }
+    if (
+      (schema.format === "date-time" &&
+        !(DATE_TIME_PATTERN.test(value) && !isNaN(Date.parse(value)))) ||
+      (schema.format === "date" && !DATE_PATTERN.test(value))
+    ) {
+      fail(`must be a ${schema.format} string`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        violations.push(
+          ...validateJsonSchema(schema.items!, item, registry, `${path}[${i}]`)
+        )
+      );
+    }
+  }
+
+  if (isObject(value)) {
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        violations.push({ path: joinPath(path, name), message: "is required" });
+      }
+    }
+    for (const [name, item] of Object.entries(value)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        violations.push(
+          ...validateJsonSchema(property, item, registry, joinPath(path, name))
+        );
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          path: joinPath(path, name),
+          message: "is not allowed",
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        violations.push(
+          ...validateJsonSchema(
+            schema.additionalProperties,
+            item,
+            registry,
+            joinPath(path, name)
+          )
+        );
+      }
+    }
+  }
+
+  for (const branch of schema.allOf ?? []) {
+    violations.push(...validateJsonSchema(branch, value, registry, path));
+  }
+
+  for (const [keyword, branches] of [
+    ["anyOf", schema.anyOf],
+    ["oneOf", schema.oneOf],
+  ] as const) {
+    if (!branches) continue;
+    const results = branches.map(branch =>
+      validateJsonSchema(branch, value, registry, path)
+    );
+    const matches = results.filter(r => r.length === 0).length;
+    if (matches === 0) {
+      const distance = (i: number) =>
+        acceptsType(branches[i], value, registry)
+          ? results[i].length
+          : Infinity;
+      const closest = results.reduce(
+        (best, _, i) => (distance(i) < distance(best) ? i : best),
+        0
+      );
+      violations.push(...results[closest]);
+    } else if (keyword === "oneOf" && matches > 1) {
+      fail(`must match exactly one schema, matched ${matches}`);
+    }
+  }
+
+  return violations;
+}
+
+function resolveRef(ref: string, registry: SchemaRegistry): JsonSchema {
+  const name = ref.startsWith(SCHEMA_REF_PREFIX)
+    ? ref.slice(SCHEMA_REF_PREFIX.length)
+    : undefined;
+  const schema = name === undefined ? undefined : registry[name];
+  if (!schema) {
+    throw new Error(`Unknown schema reference: ${ref}`);
+  }
+  return schema;
+}
+
+/** Whether `schema`'s own `type`, if any, accepts `value` */
+function acceptsType(
+  schema: JsonSchema,
+  value: unknown,
+  registry: SchemaRegistry
+): boolean {
+  const resolved = schema.$ref ? resolveRef(schema.$ref, registry) : schema;
+  if (resolved.type === undefined) {
+    return true;
+  }
+  const types = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+  return types.some(type => hasType(value, type));
+}
+
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { createLogger, type LogLevel } from "./logger";
+
+describe("createLogger", () => {
+  function capture(level: LogLevel) {
+    const lines: string[] = [];
+    const logger = createLogger({
+      level,
+      write: line => lines.push(line),
+      now: () => new Date("2024-01-01T00:00:00.000Z"),
+    });
+    return { logger, parsed: () => lines.map(line => JSON.parse(line)) };
+  }
+
+  it("should write one JSON line with time, level, message and fields", () => {
+    const { logger, parsed } = capture("debug");
+    logger.info("hello", { userId: "user-1" });
+    expect(parsed()).toEqual([
+      {
+        time: "2024-01-01T00:00:00.000Z",
+        level: "info",
+        msg: "hello",
+        userId: "user-1",
+      },
+    ]);
+  });
+
+  it("should drop lines below the configured level", () => {
+    const { logger, parsed } = capture("warn");
+    logger.debug("a");
+    logger.info("b");
+    logger.warn("c");
+    logger.error("d");
+    expect(parsed().map(line => line.msg)).toEqual(["c", "d"]);
+  });
+
+  it("should add a child's fields to every line", () => {
+    const { logger, parsed } = capture("info");
+    const child = logger.child({ requestId: "req-1" });
+    child.info("one");
+    child.child({ userId: "user-1" }).info("two", { status: 200 });
+    expect(parsed()).toEqual([
+      expect.objectContaining({ msg: "one", requestId: "req-1" }),
+      expect.objectContaining({
+        msg: "two",
+        requestId: "req-1",
+        userId: "user-1",
+        status: 200,
+      }),
+    ]);
+  });
+
+  it("should serialize errors with their message and stack", () => {
+    const { logger, parsed } = capture("info");
+    logger.error("failed", { err: new TypeError("boom") });
+    const [line] = parsed();
+    expect(line.err).toMatchObject({ name: "TypeError", message: "boom" });
+    expect(line.err.stack).toContain("boom");
+  });
+});
@@ -0,0 +1,87 @@
+/** Log levels, least severe first */
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** Structured fields attached to a log line */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes structured log lines. Each call emits one JSON object with `time`,
+ * `level`, `msg`, the logger's bound fields and the call's `fields`.
+ */
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Returns a logger that adds `fields` to every line it writes */
+  child(fields: LogFields): Logger;
+}
+
+/** Options for {@link createLogger} */
+export interface LoggerOptions {
+  /** Lines below this level are dropped */
+  level: LogLevel;
+  /** Fields added to every line */
+  fields?: LogFields;
+  /** Where finished lines go (default: stdout) */
+  write?: (line: string) => void;
+  /** Clock for the `time` field (injectable for tests) */
+  now?: () => Date;
+}
+
+/**
+ * Makes a field value JSON-friendly: errors become `{ name, message, stack }`
+ * instead of serializing to `{}`.
+ */
+function serializeField(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Creates a JSON-lines logger.
+ *
+ * @param options - See {@link LoggerOptions}
+ * @returns The logger
+ *
+ * @example
+ * const logger = createLogger({ level: "info" });
+ * logger.error("History export failed", { err, userId });
+ * // {"time":"...","level":"error","msg":"History export failed","err":{...},"userId":"..."}
+ */
+export function createLogger(options: LoggerOptions): Logger {
+  const {
+    level,
+    fields = {},
+    write = line => process.stdout.write(line + "\n"),
+    now = () => new Date(),
+  } = options;
+  const threshold = LOG_LEVELS.indexOf(level);
+
+  const log = (lineLevel: LogLevel, msg: string, extra: LogFields = {}) => {
+    if (LOG_LEVELS.indexOf(lineLevel) < threshold) return;
+
+    const line: LogFields = {
+      time: now().toISOString(),
+      level: lineLevel,
+      msg,
+    };
+    for (const [key, value] of Object.entries({ ...fields, ...extra })) {
+      line[key] = serializeField(value);
+    }
+    write(JSON.stringify(line));
+  };
+
+  return {
+    debug: (msg, extra) => log("debug", msg, extra),
+    info: (msg, extra) => log("info", msg, extra),
+    warn: (msg, extra) => log("warn", msg, extra),
+    error: (msg, extra) => log("error", msg, extra),
+    child: extra =>
+      createLogger({ ...options, fields: { ...fields, ...extra } }),
+  };
+}
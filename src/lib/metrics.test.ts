@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./metrics";
+
+describe("MetricsRegistry", () => {
+  it("renders counters in the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.register(
+      new Counter("requests_total", "Requests served", ["method", "status"])
+    );
+    requests.inc({ method: "GET", status: 200 });
+    requests.inc({ method: "GET", status: 200 });
+    requests.inc({ method: "POST", status: 201 }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests served",
+        "# TYPE requests_total counter",
+        'requests_total{method="GET",status="200"} 2',
+        'requests_total{method="POST",status="201"} 3',
+        "",
+      ].join("\n")
+    );
+    expect(requests.get({ method: "GET", status: 200 })).toBe(2);
+    expect(requests.get({ method: "PUT", status: 200 })).toBe(0);
+  });
+
+  it("renders metrics without labels as zero before first use", () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Counter("hits_total", "Hits"));
+    expect(registry.render()).toContain("\nhits_total 0\n");
+  });
+
+  it("renders cumulative histogram buckets with sum and count", () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.register(
+      new Histogram("latency_seconds", "Latency", ["route"], [0.1, 1])
+    );
+    latency.observe({ route: "/a" }, 0.05);
+    latency.observe({ route: "/a" }, 0.5);
+    latency.observe({ route: "/a" }, 2);
+
+    const lines = registry.render().split("\n");
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'latency_seconds_bucket{route="/a",le="0.1"} 1',
+        'latency_seconds_bucket{route="/a",le="1"} 2',
+        'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+        'latency_seconds_sum{route="/a"} 2.55',
+        'latency_seconds_count{route="/a"} 3',
+      ])
+    );
+    expect(latency.get({ route: "/a" })).toEqual({ count: 3, sum: 2.55 });
+  });
+
+  it("reads collected gauges when rendering", () => {
+    const registry = new MetricsRegistry();
+    let connections = 3;
+    registry.register(
+      new Gauge("connections", "Open connections", [], gauge =>
+        gauge.set({}, connections)
+      )
+    );
+    expect(registry.render()).toContain("\nconnections 3\n");
+    connections = 5;
+    expect(registry.render()).toContain("\nconnections 5\n");
+  });
+
+  it("escapes label values", () => {
+    const registry = new MetricsRegistry();
+    registry
+      .register(new Counter("odd_total", "Odd labels", ["value"]))
+      .inc({ value: 'a "quoted"\\path\n' });
+    expect(registry.render()).toContain(
+      'odd_total{value="a \\"quoted\\"\\\\path\\n"} 1'
+    );
+  });
+
+  it("rejects duplicate names and resets every series", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter("x_total", "X"));
+    expect(() => registry.register(new Counter("x_total", "X"))).toThrow(
+      "already registered"
+    );
+    counter.inc();
+    registry.reset();
+    expect(counter.get()).toBe(0);
+  });
+});
@@ -0,0 +1,281 @@
+/** Label values of one series, keyed by label name */
+export type Labels<L extends string> = Partial<Record<L, string | number>>;
+
+/**
+ * Escapes a label value for the Prometheus text format: backslash, double
+ * quote and newline must be escaped.
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/** Formats `{a="1",b="2"}`, or nothing when there are no labels */
+function formatLabels(labels: [string, string][]): string {
+  if (labels.length === 0) return "";
+  const pairs = labels.map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+/** Formats a sample value; Prometheus spells infinity `+Inf` */
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Base of every metric: a name, help text and a fixed set of label names.
+ * Series are kept per distinct combination of label values, so label values
+ * must come from a small set (route patterns, not paths).
+ */
+abstract class Metric<L extends string, S> {
+  protected readonly series = new Map<
+    string,
+    { labels: [string, string][]; state: S }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly L[] = []
+  ) {}
+
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  protected abstract initial(): S;
+
+  private labelPairs(labels: Labels<L>): [string, string][] {
+    return this.labelNames.map((name): [string, string] => [
+      name,
+      String(labels[name] ?? ""),
+    ]);
+  }
+
+  /** The state of the series for `labels`, created on first use */
+  protected seriesFor(labels: Labels<L>): S {
+    const pairs = this.labelPairs(labels);
+    const key = JSON.stringify(pairs);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: pairs, state: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  /** The state of the series for `labels`, if it exists */
+  protected peek(labels: Labels<L>): S | undefined {
+    return this.series.get(JSON.stringify(this.labelPairs(labels)))?.state;
+  }
+
+  /** The sample lines of every series, without the `# HELP`/`# TYPE` header */
+  protected abstract samples(): string[];
+
+  /**
+   * The metric in the Prometheus text exposition format. A metric without
+   * labels always has its one series, so it reads 0 before first use.
+   */
+  render(): string {
+    if (this.labelNames.length === 0) this.seriesFor({});
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join("\n");
+  }
+
+  /** Drops every series */
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/** A value that only goes up, e.g. requests served */
+export class Counter<L extends string = never> extends Metric<
+  L,
+  { value: number }
+> {
+  readonly type = "counter";
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  inc(labels: Labels<L> = {}, by = 1): void {
+    this.seriesFor(labels).value += by;
+  }
+
+  /** Current value of the series for `labels` (0 if never incremented) */
+  get(labels: Labels<L> = {}): number {
+    return this.peek(labels)?.value ?? 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, state }) =>
+        `${this.name}${formatLabels(labels)} ${formatValue(state.value)}`
+    );
+  }
+}
+
+/**
+ * A value that goes up and down, e.g. connections in use. Either set it
+ * directly, or pass `collect` to read it when the metrics are rendered.
+ */
+export class Gauge<L extends string = never> extends Metric<
+  L,
+  { value: number }
+> {
+  readonly type = "gauge";
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+    private readonly collect?: (gauge: Gauge<L>) => void
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected initial() {
+    return { value: 0 };
+  }
+
+  set(labels: Labels<L>, value: number): void {
+    this.seriesFor(labels).value = value;
+  }
+
+  inc(labels: Labels<L> = {}, by = 1): void {
+    this.seriesFor(labels).value += by;
+  }
+
+  dec(labels: Labels<L> = {}, by = 1): void {
+    this.seriesFor(labels).value -= by;
+  }
+
+  get(labels: Labels<L> = {}): number {
+    this.collect?.(this);
+    return this.peek(labels)?.value ?? 0;
+  }
+
+  protected samples(): string[] {
+    this.collect?.(this);
+    return [...this.series.values()].map(
+      ({ labels, state }) =>
+        `${this.name}${formatLabels(labels)} ${formatValue(state.value)}`
+    );
+  }
+}
+
+/** Default histogram buckets, in seconds: 5ms to 10s */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/** A distribution of observed values, e.g. request latency in seconds */
+export class Histogram<L extends string = never> extends Metric<
+  L,
+  { counts: number[]; sum: number; count: number }
+> {
+  readonly type = "histogram";
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+    readonly buckets: readonly number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected initial() {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: Labels<L>, value: number): void {
+    const state = this.seriesFor(labels);
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) state.counts[i]++;
+    });
+    state.sum += value;
+    state.count++;
+  }
+
+  /** Number of observations and their sum for the series for `labels` */
+  get(labels: Labels<L> = {}): { count: number; sum: number } {
+    const { count = 0, sum = 0 } = this.peek(labels) ?? {};
+    return { count, sum };
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, state } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        const le: [string, string] = ["le", formatValue(bound)];
+        lines.push(
+          `${this.name}_bucket${formatLabels([...labels, le])} ${state.counts[i]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels([...labels, ["le", "+Inf"]])} ${state.count}`,
+        `${this.name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`,
+        `${this.name}_count${formatLabels(labels)} ${state.count}`
+      );
+    }
+    return lines;
+  }
+}
+
+/** Content type of the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * A set of metrics rendered together, in registration order.
+ *
+ * A minimal, dependency-free implementation of the Prometheus client model:
+ * counters, gauges and histograms with fixed label names.
+ *
+ * @example
+ * const registry = new MetricsRegistry();
+ * const requests = registry.register(
+ *   new Counter("http_requests_total", "Requests served", ["status"])
+ * );
+ * requests.inc({ status: 200 });
+ * registry.render();
+ * // # HELP http_requests_total Requests served
+ * // # TYPE http_requests_total counter
+ * // http_requests_total{status="200"} 1
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric<string, unknown>[] = [];
+
+  /**
+   * Adds `metric` to the registry.
+   *
+   * @returns The metric, for chaining
+   * @throws If a metric with the same name is already registered
+   */
+  register<M extends Metric<string, unknown>>(metric: M): M {
+    if (this.metrics.some(m => m.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /** Every metric in the Prometheus text exposition format */
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join("\n") + "\n";
+  }
+
+  /** Drops every series of every metric */
+  reset(): void {
+    for (const metric of this.metrics) metric.reset();
+  }
+}
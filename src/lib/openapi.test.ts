@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildOpenApiDocument,
+  routeErrors,
+  toOpenApiPath,
+  validateResponse,
+  type RouteSpec,
+} from "./openapi";
+import { ref } from "./json-schema";
+import { ApiError } from "./api-error";
+
+const getItem: RouteSpec = {
+  operationId: "getItem",
+  summary: "Get an item",
+  tags: ["Items"],
+  security: "bearer",
+  params: { itemId: "Id of the item" },
+  responses: {
+    200: {
+      description: "The item",
+      data: {
+        type: "object",
+        required: ["id"],
+        properties: { id: { type: "string" } },
+        additionalProperties: false,
+      },
+    },
+  },
+  errors: ["HISTORY_NOT_FOUND"],
+};
+
+const createItem: RouteSpec = {
+  operationId: "createItem",
+  summary: "Create an item",
+  tags: ["Items"],
+  security: "bearer",
+  body: { content: { "application/json": ref("HistoryCreateRequest") } },
+  responses: { 201: { description: "Created", data: ref("History") } },
+  errors: ["VALIDATION_FAILED"],
+};
+
+const exportItems: RouteSpec = {
+  operationId: "exportItems",
+  summary: "Export items",
+  tags: ["Items"],
+  responses: {
+    200: { description: "CSV", content: { "text/csv": { type: "string" } } },
+  },
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=UTF-8" },
+  });
+}
+
+const timestamp = "2024-01-01T00:00:00.000Z";
+
+describe("openapi", () => {
+  describe("routeErrors", () => {
+    it("should add the errors implied by the spec, in catalogue order", () => {
+      expect(routeErrors(createItem)).toEqual([
+        "VALIDATION_FAILED",
+        "MALFORMED_JSON",
+        "NOT_AUTHENTICATED",
+        "PAYLOAD_TOO_LARGE",
+        "RATE_LIMITED",
+        "INTERNAL_ERROR",
+        "TIMEOUT",
+      ]);
+      expect(routeErrors(exportItems)).toEqual(["INTERNAL_ERROR", "TIMEOUT"]);
+    });
+  });
+
+  describe("buildOpenApiDocument", () => {
+    const document = buildOpenApiDocument(
+      [
+        { method: "GET", path: "/items/:itemId", spec: getItem },
+        { method: "POST", path: "/items", spec: createItem },
+      ],
+      { title: "Test", version: "1.0.0" }
+    );
+
+    it("should convert paths and list parameters", () => {
+      expect(toOpenApiPath("/users/:userId/items/:itemId")).toBe(
+        "/users/{userId}/items/{itemId}"
+      );
+      expect(document.openapi).toBe("3.1.0");
+      expect(document.paths["/items/{itemId}"].get).toMatchObject({
+        operationId: "getItem",
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: "itemId",
+            in: "path",
+            description: "Id of the item",
+            required: true,
+          },
+        ],
+      });
+    });
+
+    it("should list one error response per status", () => {
+      const responses = (
+        document.paths["/items"].post as { responses: Record<string, unknown> }
+      ).responses;
+      expect(Object.keys(responses)).toEqual([
+        "201",
+        "400",
+        "401",
+        "413",
+        "429",
+        "500",
+        "504",
+      ]);
+      expect(responses["400"]).toEqual({
+        description: "`VALIDATION_FAILED`, `MALFORMED_JSON`",
+        content: {
+          "application/json": {
+            schema: {
+              allOf: [
+                ref("ErrorResponse"),
+                {
+                  properties: {
+                    code: { enum: ["VALIDATION_FAILED", "MALFORMED_JSON"] },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      });
+    });
+
+    it("should publish the shared schemas", () => {
+      expect(document.components.schemas).toHaveProperty("History");
+      expect(document.components.securitySchemes).toHaveProperty("bearerAuth");
+    });
+
+    it("should refuse duplicate operation ids", () => {
+      expect(() =>
+        buildOpenApiDocument(
+          [
+            { method: "GET", path: "/a", spec: getItem },
+            { method: "GET", path: "/b", spec: getItem },
+          ],
+          { title: "Test", version: "1.0.0" }
+        )
+      ).toThrow("Duplicate operationId: getItem");
+    });
+  });
+
+  describe("validateResponse", () => {
+    it("should accept a response matching its schema", async () => {
+      expect(
+        await validateResponse(
+          getItem,
+          json({ success: true, data: { id: "a" }, timestamp })
+        )
+      ).toEqual([]);
+    });
+
+    it("should report a body that does not match", async () => {
+      expect(
+        await validateResponse(
+          getItem,
+          json({ success: true, data: { id: 1, extra: true }, timestamp })
+        )
+      ).toEqual([
+        { path: "data.id", message: "must be string, got number" },
+        { path: "data.extra", message: "is not allowed" },
+      ]);
+    });
+
+    it("should accept declared errors only", async () => {
+      const notFound = new ApiError("HISTORY_NOT_FOUND", "Not found");
+      expect(
+        await validateResponse(getItem, json(notFound.toBody(), 404))
+      ).toEqual([]);
+
+      const conflict = new ApiError("IDEMPOTENCY_KEY_IN_USE", "In use");
+      expect(
+        await validateResponse(getItem, json(conflict.toBody(), 409))
+      ).toEqual([{ path: "", message: "status 409 is not declared" }]);
+
+      const invalid = new ApiError("VALIDATION_FAILED", "Invalid");
+      expect(
+        await validateResponse(exportItems, json(invalid.toBody(), 400))
+      ).toEqual([{ path: "", message: "status 400 is not declared" }]);
+    });
+
+    it("should check the content type but not read other bodies", async () => {
+      const csv = new Response("a,b\n", {
+        headers: { "Content-Type": "text/csv; charset=UTF-8" },
+      });
+      expect(await validateResponse(exportItems, csv)).toEqual([]);
+      expect(
+        await validateResponse(exportItems, json({ success: true }))
+      ).toEqual([
+        {
+          path: "",
+          message:
+            "content type application/json is not declared for status 200",
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import { ERROR_CODES, type ErrorCode } from "./api-error";
+import { API_SCHEMAS } from "./api-schemas";
+import {
+  ref,
+  validateJsonSchema,
+  type JsonSchema,
+  type SchemaViolation,
+} from "./json-schema";
+
+/** How a route authenticates callers, see {@link SECURITY_SCHEMES} */
+export type RouteSecurity = "bearer" | "metricsToken";
+
+/** A query parameter or request header a route reads */
+export interface ParameterSpec {
+  description?: string;
+  /** Defaults to a string */
+  schema?: JsonSchema;
+  required?: boolean;
+}
+
+/** A request body, by content type */
+export interface RequestBodySpec {
+  description?: string;
+  content: Record<string, JsonSchema>;
+}
+
+/** One successful response of a route */
+export interface ResponseSpec {
+  description: string;
+  /** Schema of `data` in a `successResponse` JSON envelope */
+  data?: JsonSchema;
+  /** Raw bodies by content type, for responses that are not enveloped JSON */
+  content?: Record<string, JsonSchema>;
+  /** Response headers set, with their descriptions */
+  headers?: Record<string, string>;
+}
+
+/**
+ * The declaration of a route: what it accepts and everything it can answer
+ * with. Routes attach one with `describeRoute`, and `/openapi.json` is
+ * generated from them (see {@link buildOpenApiDocument}).
+ */
+export interface RouteSpec {
+  /** Unique name for generated clients, e.g. `listHistories` */
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  /** Omitted for public routes */
+  security?: RouteSecurity;
+  /** Descriptions of the path parameters, by name */
+  params?: Record<string, string>;
+  query?: Record<string, ParameterSpec>;
+  headers?: Record<string, ParameterSpec>;
+  body?: RequestBodySpec;
+  /** Successful responses, by status */
+  responses: Record<number, ResponseSpec>;
+  /**
+   * Error codes the route itself can answer with. Those implied by the rest
+   * of the spec are added (see {@link routeErrors}).
+   */
+  errors?: ErrorCode[];
+}
+
+/** A route of the application with its spec */
+export interface DescribedRoute {
+  method: string;
+  /** Hono path, e.g. `/api/v1/users/:userId` */
+  path: string;
+  spec: RouteSpec;
+}
+
+/** The generated document; only the parts this module writes are typed */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  tags: { name: string }[];
+  paths: Record<string, Record<string, unknown>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, unknown>;
+  };
+}
+
+/** Security schemes of the document, by {@link RouteSecurity} */
+export const SECURITY_SCHEMES: Record<
+  RouteSecurity,
+  { name: string; scheme: Record<string, unknown> }
+> = {
+  bearer: {
+    name: "bearerAuth",
+    scheme: {
+      type: "http",
+      scheme: "bearer",
+      description:
+        "A Firebase ID token, a JWT from the configured issuer, or a personal access token (`sgp_...`)",
+    },
+  },
+  metricsToken: {
+    name: "metricsToken",
+    scheme: {
+      type: "http",
+      scheme: "bearer",
+      description: "`METRICS_TOKEN`, when configured",
+    },
+  },
+};
+
+/** An operation's responses as listed in the document, by status */
+interface OperationResponse {
+  description: string;
+  headers?: Record<string, string>;
+  /** Body schema by content type; absent for bodiless responses */
+  content?: Record<string, JsonSchema>;
+}
+
+/**
+ * Every error code a route can answer with: those it declares plus those
+ * implied by its spec -- authentication and rate limiting for `bearer`
+ * routes, body parsing and size for routes with a body, and the internal
+ * error and timeout any route can hit.
+ *
+ * @param spec - The route's spec
+ * @returns The codes, in catalogue order
+ */
+export function routeErrors(spec: RouteSpec): ErrorCode[] {
+  const codes = new Set<ErrorCode>(spec.errors);
+  if (spec.security) {
+    codes.add("NOT_AUTHENTICATED");
+  }
+  if (spec.security === "bearer") {
+    codes.add("RATE_LIMITED");
+  }
+  if (spec.body) {
+    codes.add("PAYLOAD_TOO_LARGE");
+    if (spec.body.content["application/json"]) {
+      codes.add("MALFORMED_JSON");
+    }
+  }
+  codes.add("INTERNAL_ERROR");
+  codes.add("TIMEOUT");
+  return (Object.keys(ERROR_CODES) as ErrorCode[]).filter(code =>
+    codes.has(code)
+  );
+}
+
+/**
+ * Wraps a schema of `data` in the `successResponse` envelope.
+ */
+function successEnvelope(data: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    required: ["success", "data", "timestamp"],
+    properties: {
+      success: { const: true },
+      data,
+      timestamp: { type: "string", format: "date-time" },
+    },
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Lists a route's responses: its successful ones, then one per error status
+ * carrying `ErrorResponse` with the codes possible at that status.
+ */
+function operationResponses(spec: RouteSpec): Map<number, OperationResponse> {
+  const responses = new Map<number, OperationResponse>();
+  for (const [status, response] of Object.entries(spec.responses)) {
+    responses.set(Number(status), {
+      description: response.description,
+      headers: response.headers,
+      content: response.data
+        ? { "application/json": successEnvelope(response.data) }
+        : response.content,
+    });
+  }
+
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of routeErrors(spec)) {
+    const status = ERROR_CODES[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  for (const [status, codes] of byStatus) {
+    responses.set(status, {
+      description: codes.map(code => `\`${code}\``).join(", "),
+      content: {
+        "application/json": {
+          allOf: [
+            ref("ErrorResponse"),
+            { properties: { code: { enum: codes } } },
+          ],
+        },
+      },
+    });
+  }
+  return responses;
+}
+
+/**
+ * Converts a Hono path to an OpenAPI one: `/users/:userId` becomes
+ * `/users/{userId}`.
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function toParameter(
+  name: string,
+  location: "path" | "query" | "header",
+  parameter: ParameterSpec
+) {
+  return {
+    name,
+    in: location,
+    ...(parameter.description && { description: parameter.description }),
+    required: location === "path" || parameter.required === true,
+    schema: parameter.schema ?? { type: "string" },
+  };
+}
+
+function toOperation(path: string, spec: RouteSpec) {
+  const pathParams = [...path.matchAll(/:(\w+)/g)].map(match =>
+    toParameter(match[1], "path", { description: spec.params?.[match[1]] })
+  );
+  const parameters = [
+    ...pathParams,
+    ...Object.entries(spec.query ?? {}).map(([name, p]) =>
+      toParameter(name, "query", p)
+    ),
+    ...Object.entries(spec.headers ?? {}).map(([name, p]) =>
+      toParameter(name, "header", p)
+    ),
+  ];
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of operationResponses(spec)) {
+    responses[String(status)] = {
+      description: response.description,
+      ...(response.headers && {
+        headers: Object.fromEntries(
+          Object.entries(response.headers).map(([name, description]) => [
+            name,
+            { description, schema: { type: "string" } },
+          ])
+        ),
+      }),
+      ...(response.content && {
+        content: Object.fromEntries(
+          Object.entries(response.content).map(([type, schema]) => [
+            type,
+            { schema },
+          ])
+        ),
+      }),
+    };
+  }
+
+  return {
+    operationId: spec.operationId,
+    summary: spec.summary,
+    ...(spec.description && { description: spec.description }),
+    tags: spec.tags,
+    security: spec.security
+      ? [{ [SECURITY_SCHEMES[spec.security].name]: [] }]
+      : [],
+    ...(parameters.length > 0 && { parameters }),
+    ...(spec.body && {
+      requestBody: {
+        required: true,
+        ...(spec.body.description && { description: spec.body.description }),
+        content: Object.fromEntries(
+          Object.entries(spec.body.content).map(([type, schema]) => [
+            type,
+            { schema },
+          ])
+        ),
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * Generates the OpenAPI 3.1 document of the given routes, with every schema
+ * of {@link API_SCHEMAS} under `components.schemas`.
+ *
+ * @param routes - The application's described routes, in registration order
+ * @param info - Title and version of the API
+ * @returns The document, ready to serve as JSON
+ *
+ * @throws Error if two routes share an `operationId`
+ */
+export function buildOpenApiDocument(
+  routes: DescribedRoute[],
+  info: OpenApiDocument["info"]
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  const operationIds = new Set<string>();
+  const tags = new Set<string>();
+
+  for (const { method, path, spec } of routes) {
+    if (operationIds.has(spec.operationId)) {
+      throw new Error(`Duplicate operationId: ${spec.operationId}`);
+    }
+    operationIds.add(spec.operationId);
+    spec.tags.forEach(tag => tags.add(tag));
+
+    const openApiPath = toOpenApiPath(path);
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [method.toLowerCase()]: toOperation(path, spec),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    tags: [...tags].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: API_SCHEMAS,
+      securitySchemes: Object.fromEntries(
+        Object.values(SECURITY_SCHEMES).map(({ name, scheme }) => [
+          name,
+          scheme,
+        ])
+      ),
+    },
+  };
+}
+
+/**
+ * Thrown when a response does not match its route's spec, so the mismatch
+ * surfaces as a 500 and a logged error rather than reaching a client.
+ */
+export class ResponseSchemaError extends Error {
+  readonly route: string;
+  readonly violations: SchemaViolation[];
+
+  constructor(route: string, violations: SchemaViolation[]) {
+    super(
+      `Response to ${route} does not match its declared schema: ${violations
+        .map(v => (v.path ? `${v.path} ${v.message}` : v.message))
+        .join("; ")}`
+    );
+    this.name = "ResponseSchemaError";
+    this.route = route;
+    this.violations = violations;
+  }
+}
+
+/**
+ * Checks a response against the route's spec: its status must be declared,
+ * its content type must be one declared for that status, and a JSON body
+ * must match the declared schema. Other bodies are not read.
+ *
+ * @param spec - The route's spec
+ * @param res - The response; its body is read from a clone
+ * @returns The violations; empty when the response matches
+ */
+export async function validateResponse(
+  spec: RouteSpec,
+  res: Response
+): Promise<SchemaViolation[]> {
+  const declared = operationResponses(spec).get(res.status);
+  if (!declared) {
+    return [{ path: "", message: `status ${res.status} is not declared` }];
+  }
+  if (!declared.content) {
+    return [];
+  }
+
+  const contentType = res.headers.get("Content-Type")?.split(";")[0].trim();
+  const schema = contentType ? declared.content[contentType] : undefined;
+  if (!schema) {
+    return [
+      {
+        path: "",
+        message: `content type ${contentType ?? "(none)"} is not declared for status ${res.status}`,
+      },
+    ];
+  }
+  if (contentType !== "application/json") {
+    return [];
+  }
+
+  let body: unknown;
+  try {
+    body = await res.clone().json();
+  } catch {
+    return [{ path: "", message: "body is not valid JSON" }];
+  }
+  return validateJsonSchema(schema, body, API_SCHEMAS);
+}
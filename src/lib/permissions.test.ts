@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { hasPermission, isRole, rolesFromClaims } from "./permissions";
+
+describe("permissions", () => {
+  describe("hasPermission", () => {
+    it("should grant admins every permission", () => {
+      expect(hasPermission(["admin"], "histories:write")).toBe(true);
+      expect(hasPermission(["admin"], "audit:read")).toBe(true);
+    });
+
+    it("should grant support staff read-only access", () => {
+      expect(hasPermission(["support"], "histories:read")).toBe(true);
+      expect(hasPermission(["support"], "users:read")).toBe(true);
+      expect(hasPermission(["support"], "histories:write")).toBe(false);
+      expect(hasPermission(["support"], "audit:read")).toBe(false);
+    });
+
+    it("should grant plain users nothing over other users", () => {
+      expect(hasPermission(["user"], "histories:read")).toBe(false);
+      expect(hasPermission([], "histories:read")).toBe(false);
+    });
+
+    it("should combine multiple roles", () => {
+      expect(hasPermission(["user", "support"], "histories:read")).toBe(true);
+    });
+  });
+
+  describe("isRole", () => {
+    it("should recognize known roles only", () => {
+      expect(isRole("support")).toBe(true);
+      expect(isRole("superuser")).toBe(false);
+      expect(isRole(undefined)).toBe(false);
+    });
+  });
+
+  describe("rolesFromClaims", () => {
+    it("should read a roles array claim", () => {
+      expect(rolesFromClaims({ roles: ["support", "admin"] })).toEqual([
+        "support",
+        "admin",
+      ]);
+    });
+
+    it("should read a single role claim", () => {
+      expect(rolesFromClaims({ role: "admin" })).toEqual(["admin"]);
+    });
+
+    it("should ignore unknown roles and missing claims", () => {
+      expect(rolesFromClaims({ roles: ["root", 42, "support"] })).toEqual([
+        "support",
+      ]);
+      expect(rolesFromClaims({})).toEqual([]);
+    });
+  });
+});
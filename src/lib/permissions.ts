@@ -0,0 +1,65 @@
+/**
+ * Roles a user can hold.
+ *
+ * - `admin` -- full access to every user's data and the audit log
+ * - `support` -- read-only access to every user's data
+ * - `user` -- access to their own data only (the default)
+ */
+export const ROLES = ["admin", "support", "user"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Named permissions checked by {@link requirePermission}.
+ *
+ * Users always hold every permission on their own `:userId`; a role grants
+ * the permission on every user.
+ */
+export const PERMISSIONS = [
+  "histories:read",
+  "histories:write",
+  "users:read",
+  "audit:read",
+  "tokens:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** Permissions each role grants over other users' data */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  support: ["histories:read", "users:read"],
+  user: [],
+};
+
+/** Whether `value` is one of {@link ROLES} */
+export function isRole(value: unknown): value is Role {
+  return (ROLES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Whether any of `roles` grants `permission`.
+ *
+ * @param roles - The caller's roles
+ * @param permission - The permission to check
+ */
+export function hasPermission(
+  roles: readonly Role[],
+  permission: Permission
+): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Reads roles from Firebase custom claims.
+ *
+ * Accepts either a `roles` array or a single `role` string claim. Unknown
+ * role names are ignored.
+ *
+ * @param claims - The decoded ID token
+ * @returns The recognized roles, possibly empty
+ */
+export function rolesFromClaims(claims: Record<string, unknown>): Role[] {
+  const raw = Array.isArray(claims.roles) ? claims.roles : [claims.role];
+  return raw.filter(isRole);
+}
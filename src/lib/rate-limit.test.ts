@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { consumeRateLimit, type RateLimitPolicy } from "./rate-limit";
+
+/** Sends `count` requests at `now`, threading the state through */
+function consumeMany(
+  policy: RateLimitPolicy,
+  count: number,
+  now: number,
+  stored?: unknown
+) {
+  let state = stored;
+  const decisions = [];
+  for (let i = 0; i < count; i++) {
+    const update = consumeRateLimit(policy, state, now);
+    state = update.state;
+    decisions.push(update.decision);
+  }
+  return { decisions, state };
+}
+
+describe("consumeRateLimit (sliding-window)", () => {
+  const policy: RateLimitPolicy = {
+    algorithm: "sliding-window",
+    max: 3,
+    windowMs: 60_000,
+  };
+
+  it("allows up to max requests per window, then denies", () => {
+    const { decisions } = consumeMany(policy, 4, 0);
+    expect(decisions.map(d => d.allowed)).toEqual([true, true, true, false]);
+    expect(decisions.map(d => d.remaining)).toEqual([2, 1, 0, 0]);
+    expect(decisions[3]).toMatchObject({ limit: 3, retryAfterMs: 60_000 });
+  });
+
+  it("reports the end of the current window as the reset", () => {
+    const { decisions } = consumeMany(policy, 2, 15_000);
+    expect(decisions.map(d => d.resetMs)).toEqual([45_000, 45_000]);
+    expect(consumeRateLimit(policy, undefined, 60_000).decision.resetMs).toBe(
+      60_000
+    );
+  });
+
+  it("weights the previous window by how much of it still overlaps", () => {
+    const { state } = consumeMany(policy, 3, 0);
+
+    // A quarter into the next window, 3 * 0.75 = 2.25 still count
+    const early = consumeRateLimit(policy, state, 75_000);
+    expect(early.decision.allowed).toBe(false);
+    expect(early.decision.retryAfterMs).toBe(5_000);
+
+    // Two thirds in, only 1 does
+    const later = consumeMany(policy, 3, 100_000, state);
+    expect(later.decisions.map(d => d.allowed)).toEqual([true, true, false]);
+  });
+
+  it("forgets windows older than the previous one", () => {
+    const { state } = consumeMany(policy, 3, 0);
+    const { decision } = consumeRateLimit(policy, state, 180_000);
+    expect(decision).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it("treats unrecognized state as a fresh client", () => {
+    expect(consumeRateLimit(policy, {}, 0).decision.remaining).toBe(2);
+    expect(consumeRateLimit(policy, null, 0).decision.remaining).toBe(2);
+  });
+});
+
+describe("consumeRateLimit (token-bucket)", () => {
+  const policy: RateLimitPolicy = {
+    algorithm: "token-bucket",
+    max: 2,
+    windowMs: 10_000,
+  };
+
+  it("allows a burst of max requests, then one per refill", () => {
+    const { decisions, state } = consumeMany(policy, 3, 0);
+    expect(decisions.map(d => d.allowed)).toEqual([true, true, false]);
+    expect(decisions[2].retryAfterMs).toBe(5_000);
+
+    const refilled = consumeMany(policy, 2, 5_000, state);
+    expect(refilled.decisions.map(d => d.allowed)).toEqual([true, false]);
+  });
+
+  it("reports when the bucket is full again", () => {
+    const { decisions } = consumeMany(policy, 2, 0);
+    expect(decisions[1]).toMatchObject({ remaining: 0, resetMs: 10_000 });
+  });
+
+  it("never refills beyond max", () => {
+    const { state } = consumeMany(policy, 1, 0);
+    const { decision } = consumeRateLimit(policy, state, 1_000_000);
+    expect(decision.remaining).toBe(1);
+  });
+});
@@ -0,0 +1,179 @@
+/** Rate limiting algorithms selectable per route group */
+export const RATE_LIMIT_ALGORITHMS = [
+  "sliding-window",
+  "token-bucket",
+] as const;
+
+export type RateLimitAlgorithm = (typeof RATE_LIMIT_ALGORITHMS)[number];
+
+/**
+ * How many requests a client may make:
+ * - `sliding-window` -- at most `max` in any `windowMs`, estimated from the
+ *   current and previous fixed windows (the previous one weighted by how much
+ *   of it still overlaps)
+ * - `token-bucket` -- bursts of up to `max`, refilled at `max` per `windowMs`
+ */
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  max: number;
+  windowMs: number;
+}
+
+/** Per-client state of the `sliding-window` algorithm */
+export interface SlidingWindowState {
+  /** Start of the current fixed window, epoch ms */
+  windowStart: number;
+  /** Requests counted in the current window */
+  count: number;
+  /** Requests counted in the window before */
+  previous: number;
+}
+
+/** Per-client state of the `token-bucket` algorithm */
+export interface TokenBucketState {
+  tokens: number;
+  /** When `tokens` was last computed, epoch ms */
+  updatedAt: number;
+}
+
+export type RateLimitState = SlidingWindowState | TokenBucketState;
+
+/** The outcome of one request against a policy */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Requests still allowed right now */
+  remaining: number;
+  /**
+   * Milliseconds until quota comes back: the end of the current window
+   * (`sliding-window`), or until the bucket is full again (`token-bucket`)
+   */
+  resetMs: number;
+  /** Milliseconds until a request may be allowed again; 0 when allowed */
+  retryAfterMs: number;
+}
+
+/** Result of {@link consumeRateLimit}: the decision and the state to store */
+export interface RateLimitUpdate {
+  decision: RateLimitDecision;
+  state: RateLimitState;
+  /** When the stored state can be discarded (epoch ms): after that it is as good as fresh */
+  expiresAt: number;
+}
+
+function isSlidingWindowState(state: unknown): state is SlidingWindowState {
+  return (
+    typeof state === "object" &&
+    state !== null &&
+    typeof (state as SlidingWindowState).windowStart === "number"
+  );
+}
+
+function isTokenBucketState(state: unknown): state is TokenBucketState {
+  return (
+    typeof state === "object" &&
+    state !== null &&
+    typeof (state as TokenBucketState).updatedAt === "number"
+  );
+}
+
+function slidingWindow(
+  { max, windowMs }: RateLimitPolicy,
+  stored: unknown,
+  now: number
+): RateLimitUpdate {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  let count = 0;
+  let previous = 0;
+  if (isSlidingWindowState(stored)) {
+    if (stored.windowStart === windowStart) {
+      count = stored.count;
+      previous = stored.previous;
+    } else if (stored.windowStart === windowStart - windowMs) {
+      previous = stored.count;
+    }
+  }
+
+  const windowEnd = windowStart + windowMs;
+  const overlap = (windowEnd - now) / windowMs;
+  const estimated = previous * overlap + count;
+  const allowed = estimated + 1 <= max;
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Wait until the previous window's weight has decayed enough, or for
+    // the next window if the current one alone is full
+    retryAfterMs =
+      count + 1 > max || previous === 0
+        ? windowEnd - now
+        : Math.max(
+            1,
+            windowStart + windowMs * (1 - (max - count - 1) / previous) - now
+          );
+  }
+
+  if (allowed) count++;
+  return {
+    decision: {
+      allowed,
+      limit: max,
+      remaining: Math.max(0, Math.floor(max - (previous * overlap + count))),
+      resetMs: windowEnd - now,
+      retryAfterMs: Math.ceil(retryAfterMs),
+    },
+    state: { windowStart, count, previous },
+    expiresAt: windowEnd + windowMs,
+  };
+}
+
+function tokenBucket(
+  { max, windowMs }: RateLimitPolicy,
+  stored: unknown,
+  now: number
+): RateLimitUpdate {
+  const perMs = max / windowMs;
+  let tokens = max;
+  if (isTokenBucketState(stored)) {
+    const elapsed = Math.max(0, now - stored.updatedAt);
+    tokens = Math.min(max, stored.tokens + elapsed * perMs);
+  }
+
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+
+  const resetMs = Math.ceil((max - tokens) / perMs);
+  return {
+    decision: {
+      allowed,
+      limit: max,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / perMs),
+    },
+    state: { tokens, updatedAt: now },
+    expiresAt: now + resetMs,
+  };
+}
+
+/**
+ * Counts one request against `policy`.
+ *
+ * A pure function of the stored state, so every store applies the same
+ * rules: it loads the client's state, calls this, and saves the returned
+ * state -- atomically per key. Denied requests are not counted.
+ *
+ * @param policy - The route group's policy
+ * @param stored - The client's stored state; anything unrecognized
+ *   (including `undefined` or `{}`) counts as a fresh client
+ * @param now - Current time, epoch ms
+ * @returns The decision and the state to store
+ */
+export function consumeRateLimit(
+  policy: RateLimitPolicy,
+  stored: unknown,
+  now: number
+): RateLimitUpdate {
+  return policy.algorithm === "token-bucket"
+    ? tokenBucket(policy, stored, now)
+    : slidingWindow(policy, stored, now);
+}
@@ -1,5 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { serializeHistory, serializeUser, isValidDatetime } from "./serializers";
+import {
+  serializeHistory,
+  serializeUser,
+  serializeHistoryRevision,
+  serializeApiToken,
+  isValidDatetime,
+  isValidUuid,
+  historyEtag,
+  parseIfMatch,
+} from "./serializers";
 
 describe("serializers", () => {
   describe("serializeHistory", () => {
@@ -9,6 +18,7 @@ describe("serializers", () => {
         user_id: "user-1",
         datetime: new Date("2024-01-15T10:30:00.000Z"),
         value: "42.50",
+        version: 1,
         created_at: new Date("2024-01-15T10:30:00.000Z"),
         updated_at: new Date("2024-01-15T11:00:00.000Z"),
       };
@@ -21,6 +31,7 @@ describe("serializers", () => {
       expect(result.value).toBe(42.5);
       expect(result.created_at).toBe("2024-01-15T10:30:00.000Z");
       expect(result.updated_at).toBe("2024-01-15T11:00:00.000Z");
+      expect(result.version).toBe(1);
     });
 
     it("should handle null created_at and updated_at", () => {
@@ -29,6 +40,7 @@ describe("serializers", () => {
         user_id: "user-2",
         datetime: new Date("2024-06-01T00:00:00.000Z"),
         value: "100.00",
+        version: 1,
         created_at: null,
         updated_at: null,
       };
@@ -45,6 +57,7 @@ describe("serializers", () => {
         user_id: "user-3",
         datetime: new Date("2024-01-01T00:00:00.000Z"),
         value: "0.01",
+        version: 1,
         created_at: null,
         updated_at: null,
       };
@@ -56,6 +69,59 @@ describe("serializers", () => {
     });
   });
 
+  describe("serializeHistoryRevision", () => {
+    it("should serialize old and new values of a revision", () => {
+      const row = {
+        id: "rev-1",
+        history_id: "uuid-1",
+        version: 3,
+        action: "update",
+        old_datetime: new Date("2024-01-15T10:30:00.000Z"),
+        old_value: "42.50",
+        new_datetime: new Date("2024-01-16T10:30:00.000Z"),
+        new_value: "10.00",
+        actor_id: "admin-1",
+        actor_site_admin: true,
+        reverted_revision_id: null,
+        created_at: new Date("2024-01-16T11:00:00.000Z"),
+      };
+
+      expect(serializeHistoryRevision(row)).toEqual({
+        id: "rev-1",
+        history_id: "uuid-1",
+        version: 3,
+        action: "update",
+        old_datetime: "2024-01-15T10:30:00.000Z",
+        old_value: 42.5,
+        new_datetime: "2024-01-16T10:30:00.000Z",
+        new_value: 10,
+        actor_id: "admin-1",
+        actor_site_admin: true,
+        reverted_revision_id: null,
+        created_at: "2024-01-16T11:00:00.000Z",
+      });
+    });
+  });
+
+  describe("serializeApiToken", () => {
+    it("should never expose the token hash", () => {
+      const result = serializeApiToken({
+        id: "tok-1",
+        name: "cron",
+        token_prefix: "sgp_AbCdEfGh",
+        token_hash: "f".repeat(64),
+        scopes: ["histories:read"],
+        expires_at: null,
+        last_used_at: new Date("2024-01-16T11:00:00.000Z"),
+        created_at: new Date("2024-01-15T11:00:00.000Z"),
+      } as Parameters<typeof serializeApiToken>[0]);
+
+      expect(result).not.toHaveProperty("token_hash");
+      expect(result.last_used_at).toBe("2024-01-16T11:00:00.000Z");
+      expect(result.expires_at).toBeNull();
+    });
+  });
+
   describe("serializeUser", () => {
     it("should serialize a full user row", () => {
       const row = {
@@ -117,5 +183,53 @@ describe("serializers", () => {
     it("should reject random text", () => {
       expect(isValidDatetime("hello world")).toBe(false);
     });
+
+    it("should reject years outside 1 to 9999", () => {
+      expect(isValidDatetime("9999-12-31T23:59:59.999Z")).toBe(true);
+      expect(isValidDatetime("0001-01-01T00:00:00.000Z")).toBe(true);
+      expect(isValidDatetime("99999-01-01")).toBe(false);
+      expect(isValidDatetime("-000001-01-01T00:00:00.000Z")).toBe(false);
+    });
+  });
+
+  describe("isValidUuid", () => {
+    it("should accept a UUID in either case", () => {
+      expect(isValidUuid("0b8c7a2e-5f0d-4d57-9d1c-3f5a1c2b4e6f")).toBe(true);
+      expect(isValidUuid("0B8C7A2E-5F0D-4D57-9D1C-3F5A1C2B4E6F")).toBe(true);
+    });
+
+    it("should reject anything else", () => {
+      expect(isValidUuid("notauuid")).toBe(false);
+      expect(isValidUuid("0b8c7a2e5f0d4d579d1c3f5a1c2b4e6f")).toBe(false);
+      expect(isValidUuid("")).toBe(false);
+    });
+  });
+
+  describe("historyEtag", () => {
+    it("should quote the version", () => {
+      expect(historyEtag(3)).toBe('"3"');
+    });
+  });
+
+  describe("parseIfMatch", () => {
+    it("should parse a single strong tag", () => {
+      expect(parseIfMatch('"3"')).toEqual([3]);
+    });
+
+    it("should parse a list of tags", () => {
+      expect(parseIfMatch('"3", "4"')).toEqual([3, 4]);
+    });
+
+    it("should recognise the wildcard", () => {
+      expect(parseIfMatch("*")).toBe("*");
+    });
+
+    it("should ignore weak and malformed tags", () => {
+      expect(parseIfMatch('W/"3", abc, "x"')).toEqual([]);
+    });
+
+    it("should round-trip historyEtag", () => {
+      expect(parseIfMatch(historyEtag(12))).toEqual([12]);
+    });
   });
 });
@@ -1,5 +1,15 @@
 import type { History, User } from "@sudobility/superguide_types";
 
+/**
+ * A {@link History} as returned by this API, extended with the record's
+ * `version`. Clients send the version back in `If-Match` (as `"<version>"`)
+ * to make updates and deletes conditional.
+ */
+export type SerializedHistory = History & {
+  /** Incremented on every update; the record's ETag is `"<version>"` */
+  version: number;
+};
+
 /**
  * Serializes a raw database history row into the API response format.
  *
@@ -9,26 +19,204 @@ import type { History, User } from "@sudobility/superguide_types";
  * - `created_at` / `updated_at` (nullable Date) -> ISO 8601 string or null
  *
  * @param h - A raw history row from the database (Drizzle select result)
- * @returns A serialized {@link History} object safe for JSON responses
+ * @returns A serialized {@link SerializedHistory} object safe for JSON responses
  */
 export function serializeHistory(h: {
   id: string;
   user_id: string;
   datetime: Date;
   value: string;
+  version: number;
   created_at: Date | null;
   updated_at: Date | null;
-}): History {
+}): SerializedHistory {
   return {
     id: h.id,
     user_id: h.user_id,
     datetime: h.datetime.toISOString(),
     value: Number(h.value),
+    version: h.version,
     created_at: h.created_at?.toISOString() ?? null,
     updated_at: h.updated_at?.toISOString() ?? null,
   };
 }
 
+/**
+ * Formats a history record's version as a strong HTTP entity tag.
+ *
+ * @param version - The record's `version` column
+ * @returns The quoted ETag, e.g. `"3"`
+ */
+export function historyEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parses an `If-Match` header into the history versions it accepts.
+ *
+ * Only strong entity tags produced by {@link historyEtag} can match; weak
+ * tags (`W/"..."`) and malformed entries are ignored, as required for
+ * `If-Match` comparisons.
+ *
+ * @param header - The raw `If-Match` header value
+ * @returns `"*"` for a wildcard, otherwise the list of acceptable versions
+ *   (empty when nothing in the header can match)
+ */
+export function parseIfMatch(header: string): "*" | number[] {
+  if (header.trim() === "*") {
+    return "*";
+  }
+  const versions: number[] = [];
+  for (const tag of header.split(",")) {
+    const match = /^"(\d+)"$/.exec(tag.trim());
+    if (match) {
+      versions.push(Number(match[1]));
+    }
+  }
+  return versions;
+}
+
+/**
+ * A row of `history_revisions` as returned by this API: one change to a
+ * history record, with the values before and after it.
+ */
+export interface SerializedHistoryRevision {
+  id: string;
+  history_id: string;
+  /** The record's version after this change */
+  version: number;
+  /** `update`, `delete`, `restore` or `revert` */
+  action: string;
+  old_datetime: string;
+  old_value: number;
+  new_datetime: string;
+  new_value: number;
+  /** Firebase UID of the user who made the change */
+  actor_id: string;
+  /** Whether the change was made on another user's record as a site admin */
+  actor_site_admin: boolean;
+  /** For `revert`, the revision whose old values were restored */
+  reverted_revision_id: string | null;
+  created_at: string | null;
+}
+
+/**
+ * Serializes a raw `history_revisions` row into the API response format,
+ * converting timestamps to ISO 8601 strings and numeric values to numbers.
+ *
+ * @param r - A raw revision row from the database (Drizzle select result)
+ * @returns A serialized {@link SerializedHistoryRevision}
+ */
+export function serializeHistoryRevision(r: {
+  id: string;
+  history_id: string;
+  version: number;
+  action: string;
+  old_datetime: Date;
+  old_value: string;
+  new_datetime: Date;
+  new_value: string;
+  actor_id: string;
+  actor_site_admin: boolean;
+  reverted_revision_id: string | null;
+  created_at: Date | null;
+}): SerializedHistoryRevision {
+  return {
+    id: r.id,
+    history_id: r.history_id,
+    version: r.version,
+    action: r.action,
+    old_datetime: r.old_datetime.toISOString(),
+    old_value: Number(r.old_value),
+    new_datetime: r.new_datetime.toISOString(),
+    new_value: Number(r.new_value),
+    actor_id: r.actor_id,
+    actor_site_admin: r.actor_site_admin,
+    reverted_revision_id: r.reverted_revision_id,
+    created_at: r.created_at?.toISOString() ?? null,
+  };
+}
+
+/** A row of `audit_events` as returned by the admin audit endpoint */
+export interface SerializedAuditEvent {
+  id: string;
+  actor_id: string;
+  actor_email: string | null;
+  target_user_id: string | null;
+  method: string;
+  route: string;
+  action: string;
+  entity_id: string | null;
+  request_id: string;
+  status: number;
+  created_at: string;
+}
+
+/**
+ * Serializes a raw `audit_events` row into the API response format,
+ * converting `created_at` to an ISO 8601 string.
+ *
+ * @param e - A raw audit event row from the database (Drizzle select result)
+ * @returns A serialized {@link SerializedAuditEvent}
+ */
+export function serializeAuditEvent(e: {
+  id: string;
+  actor_id: string;
+  actor_email: string | null;
+  target_user_id: string | null;
+  method: string;
+  route: string;
+  action: string;
+  entity_id: string | null;
+  request_id: string;
+  status: number;
+  created_at: Date;
+}): SerializedAuditEvent {
+  return { ...e, created_at: e.created_at.toISOString() };
+}
+
+/**
+ * A personal access token as returned by this API. Never includes the
+ * token itself or its hash.
+ */
+export interface SerializedApiToken {
+  id: string;
+  name: string;
+  /** First characters of the token, to tell tokens apart */
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string | null;
+}
+
+/**
+ * Serializes a raw `api_tokens` row into the API response format, omitting
+ * `token_hash` and converting timestamps to ISO 8601 strings.
+ *
+ * @param t - A raw API token row from the database (Drizzle select result)
+ * @returns A serialized {@link SerializedApiToken}
+ */
+export function serializeApiToken(t: {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date | null;
+}): SerializedApiToken {
+  return {
+    id: t.id,
+    name: t.name,
+    token_prefix: t.token_prefix,
+    scopes: t.scopes,
+    expires_at: t.expires_at?.toISOString() ?? null,
+    last_used_at: t.last_used_at?.toISOString() ?? null,
+    created_at: t.created_at?.toISOString() ?? null,
+  };
+}
+
 /**
  * Serializes a raw database user row into the API response format.
  *
@@ -54,6 +242,10 @@ export function serializeUser(u: {
   };
 }
 
+/** Years a date may fall in to round-trip through Postgres (UTC) */
+const MIN_YEAR = 1;
+const MAX_YEAR = 9999;
+
 /**
  * Validates that a datetime string is a parseable date.
  *
@@ -61,10 +253,33 @@ export function serializeUser(u: {
  * (not `NaN`). This prevents corrupt data from being inserted into the database
  * when users pass strings like `"not-a-date"`.
  *
+ * The date must also fall in years 1 to 9999: JavaScript parses dates beyond
+ * them (`"99999-01-01"`), but writes them with an expanded year
+ * (`+099999-...`) that Postgres cannot read.
+ *
  * @param datetime - The datetime string to validate
- * @returns `true` if the string can be parsed into a valid Date, `false` otherwise
+ * @returns `true` if the string can be parsed into a valid Date within the
+ *   supported years, `false` otherwise
  */
 export function isValidDatetime(datetime: string): boolean {
   const date = new Date(datetime);
-  return !isNaN(date.getTime());
+  if (isNaN(date.getTime())) return false;
+  const year = date.getUTCFullYear();
+  return year >= MIN_YEAR && year <= MAX_YEAR;
+}
+
+/** Canonical textual form of a UUID, as Postgres prints it (any version) */
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates that a string is a UUID, so it can be compared with a `uuid`
+ * column. Postgres rejects anything else with an error, which would
+ * otherwise surface as a 500.
+ *
+ * @param id - The id to validate, e.g. a route param or a decoded cursor's id
+ * @returns `true` if the string is a UUID, `false` otherwise
+ */
+export function isValidUuid(id: string): boolean {
+  return UUID_PATTERN.test(id);
 }
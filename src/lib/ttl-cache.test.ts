@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { TtlCache } from "./ttl-cache";
+
+describe("TtlCache", () => {
+  function createCache(ttlMs = 1000, maxEntries = 10) {
+    let now = 0;
+    const cache = new TtlCache<number>(ttlMs, maxEntries, () => now);
+    return { cache, advance: (ms: number) => (now += ms) };
+  }
+
+  it("should return stored values before they expire", () => {
+    const { cache, advance } = createCache();
+    cache.set("a", 1);
+    advance(999);
+    expect(cache.get("a")).toBe(1);
+  });
+
+  it("should expire values after the TTL", () => {
+    const { cache, advance } = createCache();
+    cache.set("a", 1);
+    advance(1000);
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("should evict the oldest entry when full", () => {
+    const { cache } = createCache(1000, 2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.get("b")).toBe(2);
+    expect(cache.get("c")).toBe(3);
+  });
+
+  it("should clear all entries", () => {
+    const { cache } = createCache();
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.clear();
+    expect(cache.size).toBe(0);
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("should compute missing values only once while fresh", async () => {
+    const { cache } = createCache();
+    let calls = 0;
+    const compute = async () => ++calls;
+    expect(await cache.getOrSet("a", compute)).toBe(1);
+    expect(await cache.getOrSet("a", compute)).toBe(1);
+    expect(calls).toBe(1);
+  });
+
+  it("should recompute after expiry", async () => {
+    const { cache, advance } = createCache();
+    let calls = 0;
+    const compute = async () => ++calls;
+    await cache.getOrSet("a", compute);
+    advance(1000);
+    expect(await cache.getOrSet("a", compute)).toBe(2);
+  });
+
+  it("should honor a per-entry TTL", async () => {
+    const { cache, advance } = createCache();
+    await cache.getOrSet("a", async () => 1, 5000);
+    advance(1000);
+    expect(cache.get("a")).toBe(1);
+    advance(4000);
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("should not store a value computed across a clear", async () => {
+    const { cache } = createCache();
+    let finish!: (value: number) => void;
+    const pending = cache.getOrSet(
+      "a",
+      () => new Promise<number>(resolve => (finish = resolve))
+    );
+
+    cache.clear();
+    finish(1);
+    expect(await pending).toBe(1);
+    expect(cache.get("a")).toBeUndefined();
+
+    expect(await cache.getOrSet("a", async () => 2)).toBe(2);
+    expect(cache.get("a")).toBe(2);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * A small in-process cache whose entries expire after a fixed time-to-live.
+ *
+ * Entries are stored in insertion order; when `maxEntries` is reached the
+ * oldest entry is evicted, so memory stays bounded even when keys are derived
+ * from user input (e.g. query strings).
+ *
+ * The cache is per-process: in multi-instance deployments each instance holds
+ * its own copy, and invalidation only affects the instance that performed it.
+ */
+export class TtlCache<T> {
+  private readonly entries = new Map<string, { value: T; expiresAt: number }>();
+  /** Bumped by {@link clear}, so computations started before it are not stored */
+  private generation = 0;
+
+  /**
+   * @param ttlMs - How long an entry stays valid, in milliseconds
+   * @param maxEntries - Maximum number of entries kept at once
+   * @param now - Clock used for expiry (injectable for tests)
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries = 1000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Returns the cached value for `key`, or `undefined` if absent or expired.
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Stores `value` under `key`, evicting the oldest entry if the cache is full.
+   *
+   * @param ttlMs - Lifetime of this entry (default: the cache's TTL)
+   */
+  set(key: string, value: T, ttlMs = this.ttlMs): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+  }
+
+  /**
+   * Returns the cached value for `key`, or computes, stores and returns it.
+   * Concurrent misses each compute the value; the last one wins. A value
+   * whose computation overlapped a {@link clear} is returned but not stored,
+   * as it may predate the change the clear invalidated.
+   *
+   * @param ttlMs - Lifetime of a newly stored value (default: the cache's TTL)
+   */
+  async getOrSet(
+    key: string,
+    compute: () => Promise<T>,
+    ttlMs = this.ttlMs
+  ): Promise<T> {
+    const cached = this.get(key);
+    if (cached !== undefined) return cached;
+    const generation = this.generation;
+    const value = await compute();
+    if (generation === this.generation) {
+      this.set(key, value, ttlMs);
+    }
+    return value;
+  }
+
+  /**
+   * Removes every entry.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.generation++;
+  }
+
+  /** Number of entries currently stored, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+}
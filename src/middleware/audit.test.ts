@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import type { Database } from "../db";
+import { createLogger } from "../lib/logger";
+import { audit } from "./audit";
+import { requestContext } from "./requestContext";
+
+const values = vi.fn();
+const lines: string[] = [];
+const logger = createLogger({
+  level: "error",
+  write: line => lines.push(line),
+});
+
+function createApp() {
+  const app = new Hono();
+  app.use("*", requestContext(logger));
+  app.use("*", async (c, next) => {
+    c.set("db", { insert: () => ({ values }) } as unknown as Database);
+    c.set("userId", "user-1");
+    c.set("userEmail", "user-1@example.com");
+    await next();
+  });
+  app.get("/users/:userId/items", audit("item.list"), c => c.json({}));
+  app.post("/users/:userId/items", audit("item.create"), c =>
+    c.json({ success: true, data: { id: "item-9" } }, 201)
+  );
+  app.delete(
+    "/users/:userId/items/:itemId",
+    audit("item.delete", { entityParam: "itemId" }),
+    c => c.json({ success: true, data: null })
+  );
+  return app;
+}
+
+describe("audit middleware", () => {
+  beforeEach(() => {
+    values.mockReset();
+    lines.length = 0;
+    values.mockResolvedValue(undefined);
+  });
+
+  it("should record a mutation with the created record's id", async () => {
+    const res = await createApp().request("/users/user-1/items", {
+      method: "POST",
+      headers: { "X-Request-Id": "req-1" },
+    });
+    expect(res.status).toBe(201);
+    expect(values).toHaveBeenCalledWith({
+      actor_id: "user-1",
+      actor_email: "user-1@example.com",
+      target_user_id: "user-1",
+      method: "POST",
+      route: "/users/:userId/items",
+      action: "item.create",
+      entity_id: "item-9",
+      request_id: "req-1",
+      status: 201,
+    });
+  });
+
+  it("should take the entity id from the configured route param", async () => {
+    await createApp().request("/users/user-1/items/item-3", {
+      method: "DELETE",
+    });
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "item.delete", entity_id: "item-3" })
+    );
+    expect(values.mock.calls[0][0].request_id).toBeTruthy();
+  });
+
+  it("should not record users reading their own data", async () => {
+    await createApp().request("/users/user-1/items");
+    expect(values).not.toHaveBeenCalled();
+  });
+
+  it("should record reads of another user's data", async () => {
+    await createApp().request("/users/user-2/items");
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actor_id: "user-1",
+        target_user_id: "user-2",
+        action: "item.list",
+      })
+    );
+  });
+
+  it("should not read streamed responses", async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>(resolve => {
+      finish = resolve;
+    });
+    const app = createApp();
+    app.get(
+      "/users/:userId/export",
+      audit("item.export"),
+      () =>
+        new Response(
+          new ReadableStream({
+            async start(controller) {
+              controller.enqueue(new TextEncoder().encode("a,b\n"));
+              await finished;
+              controller.close();
+            },
+          }),
+          { headers: { "Content-Type": "text/csv" } }
+        )
+    );
+
+    // The body is still open: buffering it would never return
+    const res = await app.request("/users/user-2/export");
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "item.export", entity_id: null })
+    );
+    finish();
+    expect(await res.text()).toBe("a,b\n");
+  });
+
+  it("should not fail the request when the audit write fails", async () => {
+    values.mockRejectedValue(new Error("connection refused"));
+
+    const res = await createApp().request("/users/user-1/items", {
+      method: "POST",
+    });
+
+    expect(res.status).toBe(201);
+    expect(lines.map(line => JSON.parse(line))).toContainEqual(
+      expect.objectContaining({
+        level: "error",
+        msg: "Failed to write audit event",
+        action: "item.create",
+      })
+    );
+  });
+});
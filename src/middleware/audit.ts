@@ -0,0 +1,105 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { routePath } from "hono/route";
+import { auditEvents } from "../db";
+
+/** HTTP methods that never change state and are only audited cross-user */
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/** Options for {@link audit} */
+export interface AuditOptions {
+  /**
+   * Route param holding the affected record's id (default `historyId`).
+   * When the route has no such param, the `data.id` of a mutation's JSON
+   * response body is used instead, which covers creates.
+   */
+  entityParam?: string;
+}
+
+/**
+ * Works out which record a request affected: the entity route param if the
+ * route has one, otherwise, for a mutation answered with JSON, the `id` of
+ * the returned record, if any.
+ *
+ * Other bodies are never read: reading a streamed response (such as an
+ * export) would buffer all of it before it is sent.
+ */
+async function entityIdOf(
+  c: Context,
+  entityParam: string,
+  isRead: boolean
+): Promise<string | null> {
+  const fromParam = c.req.param(entityParam);
+  if (fromParam) {
+    return fromParam;
+  }
+  const contentType = c.res.headers.get("Content-Type") ?? "";
+  if (isRead || !contentType.startsWith("application/json")) {
+    return null;
+  }
+  const body = (await c.res
+    .clone()
+    .json()
+    .catch(() => null)) as { data?: { id?: unknown } } | null;
+  const id = body?.data?.id;
+  return typeof id === "string" ? id : null;
+}
+
+/**
+ * Hono middleware factory that writes an `audit_events` row for the route.
+ *
+ * Must run after {@link firebaseAuthMiddleware}. Apply it to every mutating
+ * route and every route that can read another user's data:
+ * `router.put("/:historyId", audit("history.update"), handler)`
+ *
+ * An event is recorded, whatever the response status, when:
+ * - the method is mutating (anything but GET, HEAD and OPTIONS), or
+ * - the caller read a `:userId` other than their own, i.e. a site admin used
+ *   the admin bypass
+ *
+ * The event carries the actor's UID and email, the target `:userId`, the
+ * matched route pattern, `action`, the affected entity id, the request id
+ * (`X-Request-Id`, generated when absent) and the response status.
+ *
+ * Audit writes never fail the request: errors are logged and swallowed.
+ *
+ * @param action - Named action, e.g. `history.update`
+ * @param options - See {@link AuditOptions}
+ * @returns The middleware handler
+ */
+export function audit(
+  action: string,
+  options: AuditOptions = {}
+): MiddlewareHandler {
+  const entityParam = options.entityParam ?? "historyId";
+
+  return async (c: Context, next: Next) => {
+    await next();
+
+    const actorId = c.get("userId");
+    const targetUserId = c.req.param("userId") ?? null;
+    const isRead = READ_METHODS.includes(c.req.method);
+
+    if (isRead && (!targetUserId || targetUserId === actorId)) {
+      return;
+    }
+
+    try {
+      await c
+        .get("db")
+        .insert(auditEvents)
+        .values({
+          actor_id: actorId,
+          actor_email: c.get("userEmail") ?? null,
+          target_user_id: targetUserId,
+          method: c.req.method,
+          route: routePath(c),
+          action,
+          entity_id: await entityIdOf(c, entityParam, isRead),
+          request_id: c.get("requestId"),
+          status: c.res.status,
+        });
+    } catch (err) {
+      c.get("logger").error("Failed to write audit event", { action, err });
+    }
+  };
+}
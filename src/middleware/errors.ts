@@ -0,0 +1,31 @@
+import type { ErrorHandler, NotFoundHandler } from "hono";
+import { ApiError } from "../lib/api-error";
+
+/**
+ * Hono error handler (`app.onError`) turning errors into responses.
+ *
+ * An {@link ApiError} thrown by a handler or middleware is answered with its
+ * status and body: `error`, `code`, and `issues` or `data` when present.
+ *
+ * Any other error that propagates (e.g., database connection failures,
+ * constraint violations, unexpected runtime errors) is logged, with the
+ * request id, and answered as a 500 `INTERNAL_ERROR`, so raw stack traces
+ * are never exposed in responses.
+ */
+export const handleError: ErrorHandler = (err, c) => {
+  if (err instanceof ApiError) {
+    return c.json(err.toBody(), err.status);
+  }
+  c.get("logger").error("Unhandled error", { err });
+  const internal = new ApiError("INTERNAL_ERROR", "Internal server error");
+  return c.json(internal.toBody(), internal.status);
+};
+
+/**
+ * Hono not-found handler (`app.notFound`) answering requests no route
+ * matches with a 404 `NOT_FOUND` body, like every other error.
+ */
+export const handleNotFound: NotFoundHandler = c => {
+  const notFound = new ApiError("NOT_FOUND", "Not found");
+  return c.json(notFound.toBody(), notFound.status);
+};
@@ -62,11 +62,9 @@ describe("firebaseAuth middleware logic", () => {
     });
 
     it("should return invalid token error", () => {
-      const response = errorResponse(
-        "Invalid or expired Firebase token"
-      );
+      const response = errorResponse("Invalid or expired token");
       expect(response.success).toBe(false);
-      expect(response.error).toContain("Firebase");
+      expect(response.error).toContain("expired");
     });
   });
 
@@ -1,39 +1,60 @@
 import type { Context, Next } from "hono";
 import type { DecodedIdToken } from "firebase-admin/auth";
-import { isSiteAdmin, isAnonymousUser } from "@sudobility/auth_service";
-import { verifyIdToken } from "../services/firebase";
-import { errorResponse } from "@sudobility/superguide_types";
 import { eq } from "drizzle-orm";
-import { db, users } from "../db";
+import { users, type Database } from "../db";
+import { ApiError } from "../lib/api-error";
+import { isSiteAdminEmail, resolveRoles } from "../services/roles";
+import type { Role } from "../lib/permissions";
+import { isApiToken, type TokenScope } from "../lib/api-token";
+import { authenticateApiToken } from "../services/apiTokens";
 
 declare module "hono" {
   interface ContextVariableMap {
-    /** The full decoded Firebase ID token */
-    firebaseUser: DecodedIdToken;
+    /** The full decoded Firebase ID token, or null for API token requests */
+    firebaseUser: DecodedIdToken | null;
     /** The Firebase UID of the authenticated user */
     userId: string;
     /** The email address of the authenticated user, or null if not available */
     userEmail: string | null;
-    /** Whether the authenticated user is a site admin (based on SITEADMIN_EMAILS) */
+    /** Whether the authenticated user holds the `admin` role */
     siteAdmin: boolean;
+    /** Every role the authenticated user holds (see {@link resolveRoles}) */
+    roles: Role[];
+    /**
+     * Scopes of the personal access token that authenticated the request,
+     * or null for Firebase sessions, which are not restricted by scope
+     */
+    tokenScopes: TokenScope[] | null;
   }
 }
 
+/**
+ * Whether the token belongs to an anonymous Firebase user.
+ *
+ * Checked on the decoded claims rather than through the Firebase auth
+ * service, so it applies to tokens from every verifier.
+ */
+function isAnonymousUser(decodedToken: DecodedIdToken): boolean {
+  return decodedToken.firebase?.sign_in_provider === "anonymous";
+}
+
 /**
  * Ensures a user record exists in the database for the given Firebase UID.
  *
- * Checks if a row exists in the `starter.users` table matching the provided
+ * Checks if a row exists in the `superguide.users` table matching the provided
  * Firebase UID. If not, inserts a new row with the UID and email.
  *
  * This function is called in a fire-and-forget pattern from the auth middleware
- * (via `.catch(console.error)`), so failures are logged but do not block the request.
+ * (errors are caught and logged), so failures are logged but do not block the request.
  * This means the first request from a new user may succeed even if user creation
  * fails -- subsequent database queries that require the user FK will fail instead.
  *
+ * @param db - The database holding `users`
  * @param firebaseUid - The Firebase UID to look up or create
  * @param email - The user's email address (optional, may be null for some auth providers)
  */
 async function ensureUserExists(
+  db: Database,
   firebaseUid: string,
   email?: string | null
 ): Promise<void> {
@@ -53,20 +74,35 @@ async function ensureUserExists(
 /**
  * Hono middleware that verifies Firebase Authentication tokens.
  *
- * Extracts a Bearer token from the `Authorization` header, verifies it via
- * Firebase Admin SDK (with caching provided by `@sudobility/auth_service`),
+ * Extracts a Bearer token from the `Authorization` header, verifies it with
+ * the app's {@link TokenVerifier} (the `verifier` context variable) -- by
+ * default the Firebase Admin SDK (with caching provided by
+ * `@sudobility/auth_service`), or local JWTs when `AUTH_VERIFIER` is `jwt` or
+ * `dev` (see {@link createTokenVerifier}) --
  * and sets the following context variables for downstream handlers:
  *
- * - `firebaseUser` — The full decoded Firebase ID token ({@link DecodedIdToken})
+ * - `firebaseUser` — The full decoded Firebase ID token ({@link DecodedIdToken}),
+ *   or null for personal access tokens
  * - `userId` — The Firebase UID string
  * - `userEmail` — The user's email (string or null)
- * - `siteAdmin` — Boolean indicating whether the user is a site admin
+ * - `roles` — Every role the user holds, from custom claims, the `user_roles`
+ *   table and `SITEADMIN_EMAILS` (see {@link resolveRoles})
+ * - `siteAdmin` — Boolean indicating whether the user holds the `admin` role
+ * - `tokenScopes` — The personal access token's scopes, or null
+ *
+ * Bearer tokens starting with `sgp_` are personal access tokens (see
+ * {@link authenticateApiToken}) rather than Firebase ID tokens. They act as
+ * their owner with only the `user` role, limited to the token's scopes, and
+ * are rejected once revoked or expired.
  *
  * Additionally, triggers a fire-and-forget call to {@link ensureUserExists}
  * to auto-create a database user record on first authenticated request.
  *
  * Anonymous Firebase users are explicitly blocked with a 403 response.
  *
+ * Failures are thrown as {@link ApiError}s: `NOT_AUTHENTICATED` (401) or,
+ * for anonymous users, `NOT_AUTHORIZED` (403).
+ *
  * @param c - The Hono request context
  * @param next - The next middleware/handler function
  * @returns A 401 response if the token is missing, malformed, or invalid;
@@ -76,42 +112,75 @@ export async function firebaseAuthMiddleware(c: Context, next: Next) {
   const authHeader = c.req.header("Authorization");
 
   if (!authHeader) {
-    return c.json(errorResponse("Authorization header required"), 401);
+    throw new ApiError("NOT_AUTHENTICATED", "Authorization header required");
   }
 
   const [type, token] = authHeader.split(" ");
 
   if (type !== "Bearer" || !token) {
-    return c.json(
-      errorResponse("Invalid authorization format. Use: Bearer <token>"),
-      401
+    throw new ApiError(
+      "NOT_AUTHENTICATED",
+      "Invalid authorization format. Use: Bearer <token>"
     );
   }
 
-  try {
-    const decodedToken = await verifyIdToken(token);
-
-    if (isAnonymousUser(decodedToken)) {
-      return c.json(
-        errorResponse("Anonymous users cannot access this resource"),
-        403
+  if (isApiToken(token)) {
+    const identity = await authenticateApiToken(
+      c.get("db"),
+      token,
+      c.get("clock").now()
+    );
+    if (!identity) {
+      throw new ApiError(
+        "NOT_AUTHENTICATED",
+        "Invalid, revoked or expired API token"
       );
     }
 
-    const userId = decodedToken.uid;
-    const userEmail = decodedToken.email ?? null;
-
-    c.set("firebaseUser", decodedToken);
-    c.set("userId", userId);
-    c.set("userEmail", userEmail);
-    c.set("siteAdmin", isSiteAdmin(userEmail));
+    c.set("firebaseUser", null);
+    c.set("userId", identity.userId);
+    c.set("userEmail", identity.userEmail);
+    c.set("roles", ["user"]);
+    c.set("siteAdmin", false);
+    c.set("tokenScopes", identity.scopes);
 
-    ensureUserExists(userId, userEmail).catch((err) =>
-      console.error("Failed to ensure user exists:", err)
-    );
+    return next();
+  }
 
-    await next();
+  let decodedToken: DecodedIdToken;
+  try {
+    decodedToken = await c.get("verifier").verify(token);
   } catch {
-    return c.json(errorResponse("Invalid or expired Firebase token"), 401);
+    throw new ApiError("NOT_AUTHENTICATED", "Invalid or expired token");
+  }
+
+  if (isAnonymousUser(decodedToken)) {
+    throw new ApiError(
+      "NOT_AUTHORIZED",
+      "Anonymous users cannot access this resource"
+    );
   }
+
+  const userId = decodedToken.uid;
+  const userEmail = decodedToken.email ?? null;
+  const roles = await resolveRoles(
+    c.get("db"),
+    c.get("storedRolesCache"),
+    userId,
+    decodedToken,
+    isSiteAdminEmail(userEmail, c.get("config").auth.siteAdminEmails)
+  );
+
+  c.set("firebaseUser", decodedToken);
+  c.set("userId", userId);
+  c.set("userEmail", userEmail);
+  c.set("roles", roles);
+  c.set("siteAdmin", roles.includes("admin"));
+  c.set("tokenScopes", null);
+
+  ensureUserExists(c.get("db"), userId, userEmail).catch((err) =>
+    c.get("logger").error("Failed to ensure user exists", { err })
+  );
+
+  await next();
 }
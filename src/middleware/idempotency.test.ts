@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import { handleError } from "./errors";
+import { idempotency } from "./idempotency";
+
+function createApp() {
+  const app = new Hono();
+  app.onError(handleError);
+  app.use("*", async (c, next) => {
+    c.set("userId", "user-1");
+    await next();
+  });
+  app.post("/items", idempotency(), c => c.json({ created: true }, 201));
+  return app;
+}
+
+describe("idempotency middleware", () => {
+  it("should pass requests without an Idempotency-Key through", async () => {
+    const res = await createApp().request("/items", {
+      method: "POST",
+      body: JSON.stringify({ value: 1 }),
+    });
+    expect(res.status).toBe(201);
+    expect(res.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("should reject an empty Idempotency-Key", async () => {
+    const res = await createApp().request("/items", {
+      method: "POST",
+      headers: { "Idempotency-Key": "" },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("should reject an overlong Idempotency-Key", async () => {
+    const res = await createApp().request("/items", {
+      method: "POST",
+      headers: { "Idempotency-Key": "k".repeat(256) },
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.success).toBe(false);
+    expect(body.error).toContain("Idempotency-Key");
+    expect(body.issues).toEqual([
+      expect.objectContaining({ path: "Idempotency-Key", code: "too_big" }),
+    ]);
+  });
+});
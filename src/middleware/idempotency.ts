@@ -0,0 +1,199 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { createHash } from "crypto";
+import { and, eq, isNull, lte, or } from "drizzle-orm";
+import { idempotencyKeys } from "../db";
+import { ApiError, validationFailed } from "../lib/api-error";
+
+/** Maximum accepted length of an `Idempotency-Key` header value */
+const MAX_KEY_LENGTH = 255;
+
+/** Default lifetime of a stored idempotency key: 24 hours */
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Default lease of an in-progress key: 60 seconds, longer than the default
+ * `REQUEST_TIMEOUT`, so a live request's claim is not taken over
+ */
+const DEFAULT_LEASE_SECONDS = 60;
+
+/** Response headers stored with the body and replayed with it */
+const REPLAYED_HEADERS = ["ETag"];
+
+/** Options for {@link idempotency} */
+export interface IdempotencyOptions {
+  /** How long a key and its stored response are kept, in seconds (default 24h) */
+  ttlSeconds?: number;
+  /**
+   * How long a request holds its key before a retry may take it over, in
+   * seconds (default 60)
+   */
+  leaseSeconds?: number;
+}
+
+/**
+ * Computes the fingerprint of a request: method, path and raw body.
+ * A replayed key must present the same fingerprint as the original request.
+ */
+async function hashRequest(c: Context): Promise<string> {
+  const body = await c.req.text();
+  return createHash("sha256")
+    .update(`${c.req.method}\n${c.req.path}\n${body}`)
+    .digest("hex");
+}
+
+/**
+ * Hono middleware factory that honors the `Idempotency-Key` request header.
+ *
+ * Must run after {@link firebaseAuthMiddleware}: keys are scoped to the
+ * authenticated `userId`. Requests without the header pass through untouched.
+ *
+ * For a request carrying a key:
+ * - **First use** -- the key is claimed for `leaseSeconds`, the handler runs,
+ *   and its status, JSON body and `ETag` are stored in
+ *   `superguide.idempotency_keys` until expiry.
+ * - **Replay with the same payload** -- the stored response is returned with
+ *   its original status (e.g. 201) and headers, plus an
+ *   `Idempotent-Replayed: true` header; the handler does not run again.
+ * - **Reuse with a different payload** (method, path or body) -- 422
+ *   `IDEMPOTENCY_KEY_REUSED`.
+ * - **Replay while the original is still running** -- 409
+ *   `IDEMPOTENCY_KEY_IN_USE`. Once the claim's lease lapses (the original
+ *   crashed, or never stored its response), the retry takes the key over and
+ *   runs the handler.
+ *
+ * Responses with a 5xx status -- including errors thrown by the handler,
+ * which the error handler answers with a 500 -- release the key so the client
+ * can retry. Expired keys are deleted on reuse and by the hourly purge (see
+ * `services/idempotencyPurge.ts`).
+ *
+ * Apply it per route to any mutating handler:
+ * `router.post("/", idempotency(), handler)`
+ *
+ * @param options - See {@link IdempotencyOptions}
+ * @returns The middleware handler
+ */
+export function idempotency(
+  options: IdempotencyOptions = {}
+): MiddlewareHandler {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  const leaseSeconds = options.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+
+  return async (c: Context, next: Next) => {
+    const key = c.req.header("Idempotency-Key");
+    if (key === undefined) {
+      return next();
+    }
+
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      throw validationFailed(
+        {
+          error: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+        },
+        "Idempotency-Key",
+        key ? "too_big" : "too_small"
+      );
+    }
+
+    const db = c.get("db");
+    const userId = c.get("userId");
+    const requestHash = await hashRequest(c);
+    const now = c.get("clock").now();
+    const lockedUntil = new Date(now.getTime() + leaseSeconds * 1000);
+    const target = and(
+      eq(idempotencyKeys.user_id, userId),
+      eq(idempotencyKeys.key, key)
+    );
+
+    await db
+      .delete(idempotencyKeys)
+      .where(and(target, lte(idempotencyKeys.expires_at, now)));
+
+    const reserved = await db
+      .insert(idempotencyKeys)
+      .values({
+        user_id: userId,
+        key,
+        request_hash: requestHash,
+        locked_until: lockedUntil,
+        expires_at: new Date(now.getTime() + ttlSeconds * 1000),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (reserved.length === 0) {
+      const [existing] = await db.select().from(idempotencyKeys).where(target);
+
+      if (!existing || existing.request_hash !== requestHash) {
+        throw new ApiError(
+          "IDEMPOTENCY_KEY_REUSED",
+          "Idempotency-Key has already been used with a different request"
+        );
+      }
+
+      if (existing.response_status === null) {
+        // Take over a claim whose lease lapsed; the condition makes sure
+        // only one retry wins
+        const takenOver = await db
+          .update(idempotencyKeys)
+          .set({ locked_until: lockedUntil })
+          .where(
+            and(
+              target,
+              isNull(idempotencyKeys.response_status),
+              or(
+                isNull(idempotencyKeys.locked_until),
+                lte(idempotencyKeys.locked_until, now)
+              )
+            )
+          )
+          .returning();
+        if (takenOver.length === 0) {
+          throw new ApiError(
+            "IDEMPOTENCY_KEY_IN_USE",
+            "A request with this Idempotency-Key is still being processed"
+          );
+        }
+      } else {
+        c.header("Idempotent-Replayed", "true");
+        for (const [name, value] of Object.entries(
+          existing.response_headers ?? {}
+        )) {
+          c.header(name, value);
+        }
+        return c.json(
+          existing.response_body as object,
+          existing.response_status as 200
+        );
+      }
+    }
+
+    await next();
+
+    if (c.res.status >= 500) {
+      await db.delete(idempotencyKeys).where(target);
+      return;
+    }
+
+    const responseBody = await c.res
+      .clone()
+      .json()
+      .catch(() => null);
+    const responseHeaders: Record<string, string> = {};
+    for (const name of REPLAYED_HEADERS) {
+      const value = c.res.headers.get(name);
+      if (value !== null) {
+        responseHeaders[name] = value;
+      }
+    }
+
+    await db
+      .update(idempotencyKeys)
+      .set({
+        response_status: c.res.status,
+        response_body: responseBody,
+        response_headers: responseHeaders,
+        locked_until: null,
+      })
+      .where(target);
+  };
+}
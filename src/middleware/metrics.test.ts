@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import type { Config } from "../config";
+import { createAppMetrics } from "../services/metrics";
+import { handleError } from "./errors";
+import { hasMetricsToken, httpMetrics, requireMetricsToken } from "./metrics";
+
+describe("httpMetrics middleware", () => {
+  it("counts requests by route pattern and status", async () => {
+    const metrics = createAppMetrics();
+    const app = new Hono();
+    app.use("*", httpMetrics(metrics));
+    app.get("/items/:id", c => c.json({}));
+
+    await app.request("/items/1");
+    await app.request("/items/2");
+    await app.request("/nowhere");
+
+    const ok = { method: "GET", route: "/items/:id", status: 200 };
+    expect(metrics.httpRequests.get(ok)).toBe(2);
+    expect(metrics.httpRequestDuration.get(ok).count).toBe(2);
+    expect(
+      metrics.httpRequests.get({ method: "GET", route: "/*", status: 404 })
+    ).toBe(1);
+  });
+});
+
+describe("requireMetricsToken middleware", () => {
+  function createApp(token?: string) {
+    const app = new Hono();
+    app.onError(handleError);
+    app.use("*", async (c, next) => {
+      c.set("config", { metrics: { token } } as Config);
+      await next();
+    });
+    app.get("/metrics", requireMetricsToken, c => c.text("ok"));
+    return app;
+  }
+
+  it("allows any caller without a configured token", async () => {
+    expect((await createApp().request("/metrics")).status).toBe(200);
+  });
+
+  it("requires the configured bearer token", async () => {
+    const app = createApp("s3cret");
+    const missing = await app.request("/metrics");
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).code).toBe("NOT_AUTHENTICATED");
+    const wrong = await app.request("/metrics", {
+      headers: { Authorization: "Bearer nope" },
+    });
+    expect(wrong.status).toBe(401);
+    const right = await app.request("/metrics", {
+      headers: { Authorization: "Bearer s3cret" },
+    });
+    expect(right.status).toBe(200);
+  });
+
+  it("compares tokens of any length safely", () => {
+    expect(hasMetricsToken("Bearer s3cret-but-longer", "s3cret")).toBe(false);
+    expect(hasMetricsToken(undefined, "s3cret")).toBe(false);
+  });
+});
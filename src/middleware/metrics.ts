@@ -0,0 +1,72 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { routePath } from "hono/route";
+import { timingSafeEqual } from "crypto";
+import { ApiError } from "../lib/api-error";
+import type { AppMetrics } from "../services/metrics";
+
+/**
+ * Hono middleware factory that counts and times every request, as
+ * `http_requests_total` and `http_request_duration_seconds`, labelled by
+ * method, matched route pattern and status.
+ *
+ * The route pattern (e.g. `/api/v1/users/:userId/histories`) rather than the
+ * path keeps the number of series bounded; unmatched requests share the
+ * pattern `/*`.
+ *
+ * @param metrics - Where to record
+ * @returns The middleware handler
+ */
+export function httpMetrics(
+  metrics: Pick<AppMetrics, "httpRequests" | "httpRequestDuration">
+): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const started = performance.now();
+    await next();
+
+    const labels = {
+      method: c.req.method,
+      route: routePath(c),
+      status: c.res.status,
+    };
+    metrics.httpRequests.inc(labels);
+    metrics.httpRequestDuration.observe(
+      labels,
+      (performance.now() - started) / 1000
+    );
+  };
+}
+
+/**
+ * Whether an `Authorization` header carries the metrics token, compared in
+ * constant time. Without a configured token every request passes.
+ *
+ * @param authorization - The request's `Authorization` header
+ * @param token - `config.metrics.token` (`METRICS_TOKEN`)
+ */
+export function hasMetricsToken(
+  authorization: string | undefined,
+  token: string | undefined
+): boolean {
+  if (!token) return true;
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(authorization ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Hono middleware that restricts a route to callers presenting
+ * `Authorization: Bearer <METRICS_TOKEN>`, when a token is configured.
+ *
+ * @throws 401 `NOT_AUTHENTICATED` if the token is missing or wrong
+ */
+export async function requireMetricsToken(c: Context, next: Next) {
+  if (
+    !hasMetricsToken(
+      c.req.header("Authorization"),
+      c.get("config").metrics.token
+    )
+  ) {
+    throw new ApiError("NOT_AUTHENTICATED", "Invalid or missing metrics token");
+  }
+  await next();
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Hono } from "hono";
+import type { Config } from "../config";
+import { createLogger } from "../lib/logger";
+import type { RouteSpec } from "../lib/openapi";
+import { handleError } from "./errors";
+import { describeRoute, describedRoutes } from "./openapi";
+import { requestContext } from "./requestContext";
+
+const lines: string[] = [];
+const logger = createLogger({
+  level: "error",
+  write: line => lines.push(line),
+});
+
+const spec: RouteSpec = {
+  operationId: "getCount",
+  summary: "Get the count",
+  tags: ["Counts"],
+  responses: {
+    200: {
+      description: "The count",
+      data: { type: "integer", minimum: 0 },
+    },
+  },
+};
+
+function createApp(validateResponses: boolean) {
+  const app = new Hono();
+  app.onError(handleError);
+  app.use("*", requestContext(logger));
+  app.use("*", async (c, next) => {
+    c.set("config", { openapi: { validateResponses } } as Config);
+    await next();
+  });
+  app.get("/count", describeRoute(spec), c =>
+    c.json({ success: true, data: 3, timestamp: new Date().toISOString() })
+  );
+  app.get("/drifted", describeRoute({ ...spec, operationId: "drifted" }), c =>
+    c.json({ success: true, data: "3", timestamp: new Date().toISOString() })
+  );
+  app.get("/undescribed", c => c.json({}));
+  return app;
+}
+
+describe("describeRoute middleware", () => {
+  beforeEach(() => {
+    lines.length = 0;
+  });
+
+  it("should pass responses matching the spec through", async () => {
+    const res = await createApp(true).request("/count");
+    expect(res.status).toBe(200);
+    expect((await res.json()).data).toBe(3);
+  });
+
+  it("should answer 500 and log when a handler drifts from its spec", async () => {
+    const res = await createApp(true).request("/drifted");
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ code: "INTERNAL_ERROR" });
+    expect(lines.join("\n")).toContain(
+      "Response to GET /drifted does not match its declared schema: data must be integer, got string"
+    );
+  });
+
+  it("should not validate when disabled", async () => {
+    const res = await createApp(false).request("/drifted");
+    expect(res.status).toBe(200);
+  });
+
+  it("should expose the specs of described routes", () => {
+    expect(
+      describedRoutes(createApp(true).routes).map(r => [
+        r.method,
+        r.path,
+        r.spec.operationId,
+      ])
+    ).toEqual([
+      ["GET", "/count", "getCount"],
+      ["GET", "/drifted", "drifted"],
+    ]);
+  });
+});
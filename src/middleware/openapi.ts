@@ -0,0 +1,62 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import type { RouterRoute } from "hono/types";
+import {
+  ResponseSchemaError,
+  validateResponse,
+  type DescribedRoute,
+  type RouteSpec,
+} from "../lib/openapi";
+
+/** The spec of each middleware returned by {@link describeRoute} */
+const routeSpecs = new WeakMap<object, RouteSpec>();
+
+/**
+ * Hono middleware factory declaring what a route accepts and answers with.
+ *
+ * Registered first on the route, the spec is published in `/openapi.json`
+ * (see {@link describedRoutes}). With `OPENAPI_VALIDATE_RESPONSES` (on under
+ * `NODE_ENV=test`), every response of the route -- errors included -- is
+ * checked against the spec, and a mismatch throws a
+ * {@link ResponseSchemaError}, answered as a logged 500. A handler that
+ * drifts from its declared schema therefore fails the tests that call it.
+ *
+ * `router.get("/", describeRoute({ operationId: "getUser", ... }), handler)`
+ *
+ * @param spec - See {@link RouteSpec}
+ * @returns The middleware handler
+ *
+ * @throws ResponseSchemaError if validation is on and the response does not
+ *   match `spec`
+ */
+export function describeRoute(spec: RouteSpec): MiddlewareHandler {
+  const middleware = async (c: Context, next: Next) => {
+    await next();
+
+    if (!c.get("config").openapi.validateResponses) {
+      return;
+    }
+    const violations = await validateResponse(spec, c.res);
+    if (violations.length > 0) {
+      throw new ResponseSchemaError(
+        `${c.req.method} ${c.req.routePath}`,
+        violations
+      );
+    }
+  };
+  routeSpecs.set(middleware, spec);
+  return middleware;
+}
+
+/**
+ * Picks the routes that declare a spec with {@link describeRoute} out of a
+ * Hono application's `routes`.
+ *
+ * @param routes - `app.routes`, with mounted routers' paths already joined
+ * @returns The described routes, in registration order
+ */
+export function describedRoutes(routes: RouterRoute[]): DescribedRoute[] {
+  return routes.flatMap(({ method, path, handler }) => {
+    const spec = routeSpecs.get(handler);
+    return spec ? [{ method, path, spec }] : [];
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import { handleError } from "./errors";
+import { requirePermission } from "./permissions";
+import type { Role } from "../lib/permissions";
+import type { TokenScope } from "../lib/api-token";
+
+function createApp(roles: Role[], tokenScopes: TokenScope[] | null = null) {
+  const app = new Hono();
+  app.onError(handleError);
+  app.use("*", async (c, next) => {
+    c.set("userId", "user-1");
+    c.set("roles", roles);
+    c.set("tokenScopes", tokenScopes);
+    await next();
+  });
+  app.get("/users/:userId/items", requirePermission("histories:read"), c =>
+    c.json({ ok: true })
+  );
+  app.put("/users/:userId/items", requirePermission("histories:write"), c =>
+    c.json({ ok: true })
+  );
+  app.get("/admin/audit", requirePermission("audit:read"), c =>
+    c.json({ ok: true })
+  );
+  return app;
+}
+
+describe("requirePermission middleware", () => {
+  it("should let users act on their own data", async () => {
+    const app = createApp(["user"]);
+    expect((await app.request("/users/user-1/items")).status).toBe(200);
+    expect(
+      (await app.request("/users/user-1/items", { method: "PUT" })).status
+    ).toBe(200);
+  });
+
+  it("should deny plain users access to other users' data", async () => {
+    const res = await createApp(["user"]).request("/users/user-2/items");
+    expect(res.status).toBe(403);
+    const body = await res.json();
+    expect(body.success).toBe(false);
+    expect(body.code).toBe("NOT_AUTHORIZED");
+  });
+
+  it("should let support staff read but not modify other users' data", async () => {
+    const app = createApp(["user", "support"]);
+    expect((await app.request("/users/user-2/items")).status).toBe(200);
+    expect(
+      (await app.request("/users/user-2/items", { method: "PUT" })).status
+    ).toBe(403);
+  });
+
+  it("should let admins modify other users' data", async () => {
+    const res = await createApp(["user", "admin"]).request(
+      "/users/user-2/items",
+      { method: "PUT" }
+    );
+    expect(res.status).toBe(200);
+  });
+
+  it("should require the role permission on routes without a userId", async () => {
+    expect((await createApp(["support"]).request("/admin/audit")).status).toBe(
+      403
+    );
+    expect((await createApp(["admin"]).request("/admin/audit")).status).toBe(
+      200
+    );
+  });
+
+  it("should limit API token requests to the token's scopes", async () => {
+    const app = createApp(["user"], ["histories:read"]);
+    expect((await app.request("/users/user-1/items")).status).toBe(200);
+    const res = await app.request("/users/user-1/items", { method: "PUT" });
+    expect(res.status).toBe(403);
+    const body = await res.json();
+    expect(body.error).toContain("histories:write");
+  });
+});
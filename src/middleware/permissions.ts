@@ -0,0 +1,45 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { ApiError } from "../lib/api-error";
+import { hasPermission, type Permission } from "../lib/permissions";
+
+/**
+ * Hono middleware factory that authorizes a route by permission.
+ *
+ * Must run after {@link firebaseAuthMiddleware}, which sets `roles`. The
+ * request is allowed when either:
+ * - the route has a `:userId` param equal to the caller's own UID -- users
+ *   always have full access to their own data, or
+ * - one of the caller's roles grants `permission` (see {@link ROLE_PERMISSIONS})
+ *
+ * Requests authenticated with a personal access token must additionally
+ * carry `permission` among the token's scopes.
+ *
+ * Otherwise it throws a 403 `NOT_AUTHORIZED` {@link ApiError} without running
+ * the handler.
+ *
+ * `router.put("/:historyId", requirePermission("histories:write"), handler)`
+ *
+ * @param permission - The permission needed to act on another user's data
+ * @returns The middleware handler
+ */
+export function requirePermission(permission: Permission): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const targetUserId = c.req.param("userId");
+    const isOwner =
+      targetUserId !== undefined && targetUserId === c.get("userId");
+
+    if (!isOwner && !hasPermission(c.get("roles"), permission)) {
+      throw new ApiError("NOT_AUTHORIZED", "Not authorized");
+    }
+
+    const scopes: readonly string[] | null | undefined = c.get("tokenScopes");
+    if (scopes && !scopes.includes(permission)) {
+      throw new ApiError(
+        "NOT_AUTHORIZED",
+        `API token does not grant ${permission}`
+      );
+    }
+
+    await next();
+  };
+}
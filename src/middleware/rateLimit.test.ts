@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import type { Config } from "../config";
+import { createLogger } from "../lib/logger";
+import {
+  createMemoryRateLimitStore,
+  type RateLimitStore,
+} from "../services/rateLimitStore";
+import { handleError } from "./errors";
+import { rateLimit } from "./rateLimit";
+
+const policy = { algorithm: "sliding-window", max: 2, windowMs: 60_000 };
+
+function createApp({
+  enabled = true,
+  trustProxy = false,
+  store = createMemoryRateLimitStore() as RateLimitStore,
+} = {}) {
+  const logs: string[] = [];
+  const app = new Hono();
+  app.onError(handleError);
+  app.use("*", async (c, next) => {
+    c.set("config", {
+      rateLimit: {
+        enabled,
+        trustProxy,
+        policies: { public: policy, auth: policy, authenticated: policy },
+      },
+    } as Config);
+    c.set("clock", { now: () => new Date("2024-01-01T00:00:30.000Z") });
+    c.set("logger", createLogger({ level: "error", write: l => logs.push(l) }));
+    c.set("rateLimitStore", store);
+    const userId = c.req.header("X-User");
+    if (userId) c.set("userId", userId);
+    await next();
+  });
+  app.get("/public", rateLimit("public", "ip"), c => c.text("ok"));
+  app.get("/private", rateLimit("authenticated", "user"), c => c.text("ok"));
+  app.get(
+    "/stacked",
+    rateLimit("auth", "ip"),
+    rateLimit("authenticated", "user"),
+    c => c.text("ok")
+  );
+  return { app, logs };
+}
+
+describe("rateLimit middleware", () => {
+  it("sets RateLimit headers and answers 429 with Retry-After", async () => {
+    const { app } = createApp();
+
+    const first = await app.request("/public");
+    expect(first.status).toBe(200);
+    expect(first.headers.get("RateLimit-Limit")).toBe("2");
+    expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+    expect(first.headers.get("RateLimit-Reset")).toBe("30");
+    expect(first.headers.get("RateLimit-Policy")).toBe("2;w=60");
+    expect(first.headers.get("Retry-After")).toBeNull();
+
+    await app.request("/public");
+    const limited = await app.request("/public");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(limited.headers.get("Retry-After")).toBe("30");
+    expect(await limited.json()).toMatchObject({
+      success: false,
+      error: "Too many requests",
+      code: "RATE_LIMITED",
+    });
+  });
+
+  it("counts each user separately", async () => {
+    const { app } = createApp();
+    const as = (user: string) =>
+      app.request("/private", { headers: { "X-User": user } });
+
+    await as("user-1");
+    await as("user-1");
+    expect((await as("user-1")).status).toBe(429);
+    expect((await as("user-2")).status).toBe(200);
+  });
+
+  it("reports the stacked limiter closest to denying", async () => {
+    const { app } = createApp();
+    const as = (user: string) =>
+      app.request("/stacked", { headers: { "X-User": user } });
+
+    expect((await as("user-1")).headers.get("RateLimit-Remaining")).toBe("1");
+    const second = await as("user-2");
+    expect(second.status).toBe(200);
+    expect(second.headers.get("RateLimit-Remaining")).toBe("0");
+    expect((await as("user-3")).status).toBe(429);
+  });
+
+  it("keys public routes by X-Forwarded-For only behind a trusted proxy", async () => {
+    const from = (app: Hono, ip: string) =>
+      app.request("/public", {
+        headers: { "X-Forwarded-For": `${ip}, 10.0.0.1` },
+      });
+
+    const trusted = createApp({ trustProxy: true }).app;
+    await from(trusted, "203.0.113.1");
+    await from(trusted, "203.0.113.1");
+    expect((await from(trusted, "203.0.113.1")).status).toBe(429);
+    expect((await from(trusted, "203.0.113.2")).status).toBe(200);
+
+    const untrusted = createApp().app;
+    await from(untrusted, "203.0.113.1");
+    await from(untrusted, "203.0.113.2");
+    expect((await from(untrusted, "203.0.113.3")).status).toBe(429);
+  });
+
+  it("keys by the peer address Bun reports", async () => {
+    const { app } = createApp();
+    const from = (address: string) =>
+      app.request("/public", {}, { requestIP: () => ({ address }) });
+
+    await from("198.51.100.1");
+    await from("198.51.100.1");
+    expect((await from("198.51.100.1")).status).toBe(429);
+    expect((await from("198.51.100.2")).status).toBe(200);
+  });
+
+  it("does nothing when disabled", async () => {
+    const { app } = createApp({ enabled: false });
+    for (let i = 0; i < 3; i++) {
+      const res = await app.request("/public");
+      expect(res.status).toBe(200);
+      expect(res.headers.get("RateLimit-Limit")).toBeNull();
+    }
+  });
+
+  it("lets requests through when the store fails", async () => {
+    const { app, logs } = createApp({
+      store: { consume: () => Promise.reject(new Error("connection refused")) },
+    });
+    expect((await app.request("/public")).status).toBe(200);
+    expect(JSON.parse(logs[0])).toMatchObject({
+      msg: "Rate limit store failed; request allowed",
+      group: "public",
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import type { RateLimitGroup } from "../config";
+import { ApiError } from "../lib/api-error";
+import type { RateLimitDecision, RateLimitPolicy } from "../lib/rate-limit";
+
+/** What a route group's clients are told apart by */
+export type RateLimitKeyKind = "ip" | "user";
+
+/** Stands in for the client IP when it cannot be determined */
+const UNKNOWN_IP = "unknown";
+
+/**
+ * The part of Bun's `Server` reporting a request's peer address. `Bun.serve`
+ * passes the server as the second argument of `fetch`, which Hono exposes as
+ * `c.env`.
+ */
+interface PeerAddressSource {
+  requestIP(request: Request): { address: string } | null;
+}
+
+/**
+ * The address the request came from.
+ *
+ * With `trustProxy` (`RATE_LIMIT_TRUST_PROXY`), the first `X-Forwarded-For`
+ * entry; only enable it behind a proxy that sets the header, as clients can
+ * send any value. Otherwise the peer address of the connection.
+ *
+ * @param c - The request context
+ * @param trustProxy - Whether to believe `X-Forwarded-For`
+ * @returns The IP, or `unknown` when not served by Bun (e.g. `app.request()`
+ *   in tests)
+ */
+export function clientIp(c: Context, trustProxy: boolean): string {
+  if (trustProxy) {
+    const forwarded = c.req.header("X-Forwarded-For")?.split(",")[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  const server = c.env as Partial<PeerAddressSource> | undefined;
+  return server?.requestIP?.(c.req.raw)?.address ?? UNKNOWN_IP;
+}
+
+/**
+ * Sets the `RateLimit-*` headers of the IETF RateLimit header fields draft:
+ * `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` (seconds until
+ * quota comes back, see {@link RateLimitDecision.resetMs}) and
+ * `RateLimit-Policy` (`<max>;w=<seconds>`), plus `Retry-After` (seconds) when
+ * the request was denied.
+ */
+function setRateLimitHeaders(
+  c: Context,
+  policy: RateLimitPolicy,
+  decision: RateLimitDecision
+): void {
+  c.header("RateLimit-Limit", String(decision.limit));
+  c.header("RateLimit-Remaining", String(decision.remaining));
+  c.header("RateLimit-Reset", String(Math.ceil(decision.resetMs / 1000)));
+  c.header(
+    "RateLimit-Policy",
+    `${policy.max};w=${Math.ceil(policy.windowMs / 1000)}`
+  );
+  if (!decision.allowed) {
+    c.header(
+      "Retry-After",
+      String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000)))
+    );
+  }
+}
+
+/**
+ * Hono middleware factory limiting how often each client may call a route
+ * group, with the group's policy from `config.rateLimit.policies` and the
+ * `rateLimitStore` context variable as the store.
+ *
+ * Clients are told apart by IP (`ip`, for public routes) or by the
+ * authenticated `userId` (`user`, mounted after the auth middleware; falls
+ * back to the IP if no user is set). Every response carries the
+ * `RateLimit-*` headers; when several limiters apply to a route, those of the
+ * one with the fewest requests remaining.
+ *
+ * If the store fails, e.g. the database is unreachable, the request is let
+ * through and the error logged: an outage of the limiter should not become
+ * an outage of the API.
+ *
+ * @param group - The route group, selecting the policy
+ * @param by - How clients are told apart
+ * @returns The middleware handler
+ *
+ * @throws 429 `RATE_LIMITED` once the client's quota is used up, with
+ *   `Retry-After`
+ */
+export function rateLimit(
+  group: RateLimitGroup,
+  by: RateLimitKeyKind
+): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const { enabled, trustProxy, policies } = c.get("config").rateLimit;
+    if (!enabled) {
+      return next();
+    }
+
+    const policy = policies[group];
+    const userId = by === "user" ? c.get("userId") : undefined;
+    const key = userId
+      ? `${group}:user:${userId}`
+      : `${group}:ip:${clientIp(c, trustProxy)}`;
+
+    let decision: RateLimitDecision;
+    try {
+      decision = await c
+        .get("rateLimitStore")
+        .consume(key, policy, c.get("clock").now().getTime());
+    } catch (err) {
+      c.get("logger").error("Rate limit store failed; request allowed", {
+        err,
+        group,
+      });
+      return next();
+    }
+
+    if (!decision.allowed) {
+      setRateLimitHeaders(c, policy, decision);
+      throw new ApiError("RATE_LIMITED", "Too many requests");
+    }
+
+    await next();
+    // Where limiters are stacked, report the one closest to denying
+    const inner = c.res.headers.get("RateLimit-Remaining");
+    if (inner === null || decision.remaining < Number(inner)) {
+      setRateLimitHeaders(c, policy, decision);
+    }
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { errorResponse } from "@sudobility/superguide_types";
+import { createLogger } from "../lib/logger";
+import { requestContext } from "./requestContext";
+
+const lines: string[] = [];
+const logged = () => lines.map(line => JSON.parse(line));
+
+function createApp() {
+  const app = new Hono();
+  app.use(
+    "*",
+    requestContext(
+      createLogger({ level: "info", write: line => lines.push(line) })
+    )
+  );
+  app.use("/users/*", async (c, next) => {
+    c.set("userId", "user-1");
+    await next();
+  });
+  app.get("/users/:userId/items", c => {
+    c.get("logger").info("listing");
+    return c.json({ success: true, data: [], requestId: c.get("requestId") });
+  });
+  app.get("/missing", c => c.json(errorResponse("Not found"), 404));
+  app.get("/boom", () => {
+    throw new Error("boom");
+  });
+  app.onError((_err, c) => c.json(errorResponse("Internal server error"), 500));
+  return app;
+}
+
+describe("requestContext middleware", () => {
+  beforeEach(() => {
+    lines.length = 0;
+  });
+
+  it("should generate a request id and echo it in the response", async () => {
+    const res = await createApp().request("/users/user-1/items");
+    const requestId = res.headers.get("X-Request-Id");
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect((await res.json()).requestId).toBe(requestId);
+  });
+
+  it("should propagate a valid incoming request id", async () => {
+    const res = await createApp().request("/users/user-1/items", {
+      headers: { "X-Request-Id": "req-1" },
+    });
+    expect(res.headers.get("X-Request-Id")).toBe("req-1");
+  });
+
+  it("should replace an invalid incoming request id", async () => {
+    for (const incoming of ["bad id {json}", "x".repeat(129)]) {
+      const res = await createApp().request("/users/user-1/items", {
+        headers: { "X-Request-Id": incoming },
+      });
+      expect(res.headers.get("X-Request-Id")).not.toBe(incoming);
+    }
+  });
+
+  it("should log one line per request with the route and user", async () => {
+    await createApp().request("/users/user-1/items", {
+      headers: { "X-Request-Id": "req-1" },
+    });
+    expect(logged()).toEqual([
+      expect.objectContaining({ msg: "listing", requestId: "req-1" }),
+      expect.objectContaining({
+        level: "info",
+        msg: "request",
+        requestId: "req-1",
+        method: "GET",
+        route: "/users/:userId/items",
+        path: "/users/user-1/items",
+        status: 200,
+        userId: "user-1",
+        latencyMs: expect.any(Number),
+      }),
+    ]);
+  });
+
+  it("should add the request id to error bodies", async () => {
+    const res = await createApp().request("/missing", {
+      headers: { "X-Request-Id": "req-2" },
+    });
+    expect(res.status).toBe(404);
+    expect(await res.json()).toMatchObject({
+      success: false,
+      error: "Not found",
+      requestId: "req-2",
+    });
+    expect(logged()[0]).toMatchObject({ status: 404, userId: null });
+  });
+
+  it("should log server errors at error level", async () => {
+    const res = await createApp().request("/boom");
+    expect(res.status).toBe(500);
+    expect((await res.json()).requestId).toBe(res.headers.get("X-Request-Id"));
+    expect(logged()[0]).toMatchObject({ level: "error", status: 500 });
+  });
+});
@@ -0,0 +1,96 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { routePath } from "hono/route";
+import { randomUUID } from "crypto";
+import type { Logger } from "../lib/logger";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    /** The request's id: the caller's `X-Request-Id`, or a generated UUID */
+    requestId: string;
+    /** The app logger, bound to this request's `requestId` */
+    logger: Logger;
+  }
+}
+
+/** Header carrying the request id in both directions */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Incoming request ids are propagated only if they look like an id, so
+ * callers cannot inject arbitrary text into logs and response headers.
+ */
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Adds the request id to a JSON error body (`success: false`), so support
+ * can match an error a user reports to its log line. Other responses are
+ * returned unchanged.
+ */
+async function withRequestId(res: Response, requestId: string) {
+  if (
+    res.status < 400 ||
+    !res.headers.get("Content-Type")?.includes("application/json")
+  ) {
+    return res;
+  }
+
+  const body = (await res
+    .clone()
+    .json()
+    .catch(() => null)) as Record<string, unknown> | null;
+  if (!body || typeof body !== "object" || body.success !== false) {
+    return res;
+  }
+
+  const headers = new Headers(res.headers);
+  headers.delete("Content-Length");
+  return new Response(JSON.stringify({ ...body, requestId }), {
+    status: res.status,
+    statusText: res.statusText,
+    headers,
+  });
+}
+
+/**
+ * Hono middleware factory that identifies and logs every request.
+ *
+ * Must run first, before any other middleware:
+ * - takes the request id from `X-Request-Id`, or generates one, and echoes
+ *   it in the `X-Request-Id` response header
+ * - exposes it as the `requestId` context variable, and a logger bound to it
+ *   as `logger`, for handlers to log with
+ * - adds `requestId` to every `errorResponse` body
+ * - once the response is ready, writes one line with the method, matched
+ *   route pattern, path, status, latency and the authenticated `userId`
+ *   (`error` level for 5xx responses, `info` otherwise)
+ *
+ * @param logger - The application logger
+ * @returns The middleware handler
+ */
+export function requestContext(logger: Logger): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const started = performance.now();
+    const incoming = c.req.header(REQUEST_ID_HEADER);
+    const requestId =
+      incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+    c.set("requestId", requestId);
+    c.set("logger", logger.child({ requestId }));
+
+    await next();
+
+    c.res = await withRequestId(c.res, requestId);
+    c.header(REQUEST_ID_HEADER, requestId);
+
+    const { status } = c.res;
+    logger[status >= 500 ? "error" : "info"]("request", {
+      requestId,
+      method: c.req.method,
+      route: routePath(c),
+      path: c.req.path,
+      status,
+      latencyMs: Math.round((performance.now() - started) * 10) / 10,
+      userId: c.get("userId") ?? null,
+    });
+  };
+}
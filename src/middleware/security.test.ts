@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import { handleError } from "./errors";
+import {
+  DOCS_ASSETS_ORIGIN,
+  corsPolicy,
+  limitBodySize,
+  rejectMalformedJson,
+  requestTimeout,
+  securityHeaders,
+} from "./security";
+
+/** An app answering errors the way `createApp` does */
+function createApp() {
+  const app = new Hono();
+  app.onError(handleError);
+  return app;
+}
+
+describe("corsPolicy middleware", () => {
+  const app = createApp();
+  app.use("*", corsPolicy(["https://app.example.com"]));
+  app.get("/", c => c.text("ok"));
+
+  it("allows listed origins and exposes the API's headers", async () => {
+    const res = await app.request("/", {
+      headers: { Origin: "https://app.example.com" },
+    });
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example.com"
+    );
+    expect(res.headers.get("Access-Control-Expose-Headers")).toContain(
+      "RateLimit-Remaining"
+    );
+  });
+
+  it("does not allow other origins", async () => {
+    const preflight = await app.request("/", {
+      method: "OPTIONS",
+      headers: {
+        Origin: "https://evil.example.com",
+        "Access-Control-Request-Method": "POST",
+      },
+    });
+    expect(preflight.headers.get("Access-Control-Allow-Origin")).toBeNull();
+  });
+});
+
+describe("securityHeaders middleware", () => {
+  it("sets the standard security headers", async () => {
+    const app = createApp();
+    app.use("*", securityHeaders());
+    app.get("/", c => c.json({}));
+
+    const res = await app.request("/");
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(res.headers.get("Strict-Transport-Security")).toContain("max-age=");
+    expect(res.headers.get("Content-Security-Policy")).toBe(
+      "default-src 'none'; frame-ancestors 'none'"
+    );
+  });
+
+  it("relaxes the policy for the docs page only", async () => {
+    const app = createApp();
+    app.use("*", securityHeaders({ docsPath: "/docs" }));
+    app.get("/docs", c => c.text(c.get("secureHeadersNonce") ?? ""));
+    app.get("/", c => c.json({}));
+
+    const docs = await app.request("/docs");
+    const nonce = await docs.text();
+    const csp = docs.headers.get("Content-Security-Policy");
+    expect(nonce).not.toBe("");
+    expect(csp).toContain(`script-src 'nonce-${nonce}' ${DOCS_ASSETS_ORIGIN}`);
+    expect(csp).toContain("connect-src 'self'");
+
+    const api = await app.request("/");
+    expect(api.headers.get("Content-Security-Policy")).toBe(
+      "default-src 'none'; frame-ancestors 'none'"
+    );
+  });
+});
+
+describe("limitBodySize middleware", () => {
+  const app = createApp();
+  app.use("*", limitBodySize(16));
+  app.post("/", async c => c.text(await c.req.text()));
+
+  it("accepts bodies up to the limit", async () => {
+    const res = await app.request("/", {
+      method: "POST",
+      body: "x".repeat(16),
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it("refuses larger bodies with 413", async () => {
+    const res = await app.request("/", {
+      method: "POST",
+      body: "x".repeat(17),
+    });
+    expect(res.status).toBe(413);
+    expect(await res.json()).toMatchObject({
+      error: "Request body must not exceed 16 bytes",
+      code: "PAYLOAD_TOO_LARGE",
+    });
+  });
+});
+
+describe("requestTimeout middleware", () => {
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it("answers 504 when the handler is too slow", async () => {
+    const app = createApp();
+    app.use("*", requestTimeout(20));
+    app.get("/slow", async c => {
+      await sleep(200);
+      return c.text("late");
+    });
+    app.get("/fast", c => c.text("ok"));
+
+    const slow = await app.request("/slow");
+    expect(slow.status).toBe(504);
+    expect(await slow.json()).toMatchObject({
+      error: "Request timed out",
+      code: "TIMEOUT",
+    });
+    expect((await app.request("/fast")).status).toBe(200);
+  });
+
+  it("is disabled by 0", async () => {
+    const app = createApp();
+    app.use("*", requestTimeout(0));
+    app.get("/", async c => {
+      await sleep(20);
+      return c.text("ok");
+    });
+    expect((await app.request("/")).status).toBe(200);
+  });
+});
+
+describe("rejectMalformedJson middleware", () => {
+  const app = createApp();
+  app.use("*", rejectMalformedJson);
+  app.post("/", async c => c.json(await c.req.json()));
+
+  it("answers 400 for a body that is not JSON", async () => {
+    const res = await app.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: '{"value": ',
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      error: "Malformed JSON body",
+      code: "MALFORMED_JSON",
+    });
+  });
+
+  it("passes valid JSON through", async () => {
+    const res = await app.request("/", {
+      method: "POST",
+      body: JSON.stringify({ value: 1 }),
+    });
+    expect(await res.json()).toEqual({ value: 1 });
+  });
+});
@@ -0,0 +1,138 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { bodyLimit } from "hono/body-limit";
+import { cors } from "hono/cors";
+import { NONCE, secureHeaders } from "hono/secure-headers";
+import { timeout } from "hono/timeout";
+import { ApiError } from "../lib/api-error";
+
+/**
+ * Response headers cross-origin browser clients may read, beyond the
+ * CORS-safelisted ones: request ids, validators and rate limit state.
+ */
+export const EXPOSED_HEADERS = [
+  "X-Request-Id",
+  "ETag",
+  "RateLimit-Limit",
+  "RateLimit-Remaining",
+  "RateLimit-Reset",
+  "RateLimit-Policy",
+  "Retry-After",
+];
+
+/**
+ * Hono middleware factory answering CORS requests from the allowed origins
+ * only (`CORS_ORIGINS`). Other origins get no `Access-Control-Allow-Origin`
+ * header, so browsers refuse to hand them the response.
+ *
+ * @param origins - Exact origins such as `https://app.example.com`; `*`
+ *   allows any
+ * @returns The middleware handler
+ */
+export function corsPolicy(origins: string[]): MiddlewareHandler {
+  return cors({
+    origin: origins.includes("*") ? "*" : origins,
+    exposeHeaders: EXPOSED_HEADERS,
+    maxAge: 600,
+  });
+}
+
+/** Where the `/docs` page loads the Swagger UI scripts and styles from */
+export const DOCS_ASSETS_ORIGIN = "https://cdn.jsdelivr.net";
+
+/**
+ * Hono middleware factory setting the standard security headers (HSTS,
+ * `X-Content-Type-Options: nosniff`, `X-Frame-Options`, `Referrer-Policy`,
+ * cross-origin isolation policies...) and a Content-Security-Policy that
+ * forbids every resource and framing, as the API serves no documents.
+ *
+ * The one exception is the docs page at `docsPath`, whose policy lets it
+ * load Swagger UI from {@link DOCS_ASSETS_ORIGIN}, run its inline script by
+ * nonce (`c.get("secureHeadersNonce")`) and fetch `/openapi.json`.
+ *
+ * @param options.docsPath - Path of the docs page, if served
+ * @returns The middleware handler
+ */
+export function securityHeaders(
+  options: { docsPath?: string } = {}
+): MiddlewareHandler {
+  const api = secureHeaders({
+    contentSecurityPolicy: {
+      defaultSrc: ["'none'"],
+      frameAncestors: ["'none'"],
+    },
+  });
+  const docs = secureHeaders({
+    contentSecurityPolicy: {
+      defaultSrc: ["'none'"],
+      scriptSrc: [NONCE, DOCS_ASSETS_ORIGIN],
+      styleSrc: [DOCS_ASSETS_ORIGIN, "'unsafe-inline'"],
+      imgSrc: ["'self'", "data:"],
+      connectSrc: ["'self'"],
+      frameAncestors: ["'none'"],
+    },
+  });
+  return (c, next) =>
+    options.docsPath !== undefined && c.req.path === options.docsPath
+      ? docs(c, next)
+      : api(c, next);
+}
+
+/**
+ * Hono middleware factory refusing request bodies over `maxBytes`
+ * (`BODY_LIMIT`), whether or not they declare a `Content-Length`, before a
+ * handler reads them.
+ *
+ * @param maxBytes - Largest body accepted
+ * @returns The middleware handler
+ *
+ * @throws 413 `PAYLOAD_TOO_LARGE` if the body is larger
+ */
+export function limitBodySize(maxBytes: number): MiddlewareHandler {
+  return bodyLimit({
+    maxSize: maxBytes,
+    onError: () => {
+      throw new ApiError(
+        "PAYLOAD_TOO_LARGE",
+        `Request body must not exceed ${maxBytes} bytes`
+      );
+    },
+  });
+}
+
+/**
+ * Hono middleware factory answering 504 when a request takes longer than
+ * `ms` (`REQUEST_TIMEOUT`).
+ *
+ * The handler is not interrupted, but the queries it is waiting on are:
+ * the database connections share the same limit as `statement_timeout`
+ * (see {@link getClient}).
+ *
+ * @param ms - Time limit; 0 disables it
+ * @returns The middleware handler
+ *
+ * @throws 504 `TIMEOUT` on timeout
+ */
+export function requestTimeout(ms: number): MiddlewareHandler {
+  if (ms <= 0) {
+    return (_c, next) => next();
+  }
+  return timeout(ms, () => new ApiError("TIMEOUT", "Request timed out"));
+}
+
+/**
+ * Hono middleware making `c.req.json()` throw a 400 {@link ApiError} for a
+ * body that is not valid JSON, instead of a `SyntaxError` that would be
+ * answered as an internal error.
+ *
+ * @throws 400 `MALFORMED_JSON` when a handler reads a malformed body
+ */
+export async function rejectMalformedJson(c: Context, next: Next) {
+  const json = c.req.json.bind(c.req);
+  c.req.json = () =>
+    json().catch(err => {
+      throw new ApiError("MALFORMED_JSON", "Malformed JSON body", {
+        cause: err,
+      });
+    });
+  await next();
+}
@@ -0,0 +1,104 @@
+import { Hono } from "hono";
+import { desc } from "drizzle-orm";
+import { auditEvents } from "../db";
+import { requirePermission } from "../middleware/permissions";
+import { successResponse } from "@sudobility/superguide_types";
+import { validationFailed } from "../lib/api-error";
+import { dateRangeQuery, paginationQuery } from "../lib/api-parameters";
+import { ref } from "../lib/json-schema";
+import { describeRoute } from "../middleware/openapi";
+import { serializeAuditEvent } from "../lib/serializers";
+import { parseAuditFilters, auditConditions } from "../lib/audit-query";
+
+const auditEventsRouter = new Hono();
+
+/** Default number of audit events returned per page */
+const DEFAULT_LIMIT = 50;
+
+/** Maximum number of audit events that can be requested in a single page */
+const MAX_LIMIT = 500;
+
+/**
+ * GET / - Search the audit log.
+ *
+ * Requires the `audit:read` permission (admins only). Events are ordered
+ * newest first.
+ *
+ * Supports filtering via query parameters (all optional, combined with AND):
+ * - `actor` (string) - Firebase UID of the user who made the call
+ * - `target` (string) - The `:userId` the call acted upon
+ * - `action` (string) - Exact action name, e.g. `history.update`
+ * - `from` / `to` (ISO 8601 date strings) - Inclusive range on `created_at`
+ *
+ * Supports pagination via `limit` (default 50, max 500) and `offset`.
+ *
+ * @returns {BaseResponse<SerializedAuditEvent[]>} Matching audit events
+ *
+ * @throws 400 if `from`/`to` are not valid date strings or `from` is after `to`
+ * @throws 403 if the requester lacks `audit:read`
+ *
+ * @example
+ * GET /api/v1/admin/audit-events?actor=<uid>&action=history.delete&from=2024-01-01
+ */
+auditEventsRouter.get(
+  "/",
+  describeRoute({
+    operationId: "listAuditEvents",
+    summary: "Search the audit log",
+    tags: ["Admin"],
+    security: "bearer",
+    query: {
+      actor: { description: "Firebase UID of the user who made the call" },
+      target: { description: "The `:userId` the call acted upon" },
+      action: {
+        description: "Exact action name",
+        schema: { type: "string", examples: ["history.update"] },
+      },
+      ...dateRangeQuery("created_at"),
+      ...paginationQuery(DEFAULT_LIMIT, MAX_LIMIT),
+    },
+    responses: {
+      200: {
+        description: "Matching events, newest first",
+        data: { type: "array", items: ref("AuditEvent") },
+      },
+    },
+    errors: ["VALIDATION_FAILED", "NOT_AUTHORIZED"],
+  }),
+  requirePermission("audit:read"),
+  async c => {
+    const db = c.get("db");
+    const filters = parseAuditFilters({
+      actor: c.req.query("actor"),
+      target: c.req.query("target"),
+      action: c.req.query("action"),
+      from: c.req.query("from"),
+      to: c.req.query("to"),
+    });
+    if (!filters.ok) {
+      throw validationFailed(filters);
+    }
+
+    const limit = Math.min(
+      Math.max(
+        1,
+        parseInt(c.req.query("limit") || String(DEFAULT_LIMIT), 10) ||
+          DEFAULT_LIMIT
+      ),
+      MAX_LIMIT
+    );
+    const offset = Math.max(0, parseInt(c.req.query("offset") || "0", 10) || 0);
+
+    const result = await db
+      .select()
+      .from(auditEvents)
+      .where(auditConditions(filters.value))
+      .orderBy(desc(auditEvents.created_at), desc(auditEvents.id))
+      .limit(limit)
+      .offset(offset);
+
+    return c.json(successResponse(result.map(serializeAuditEvent)));
+  }
+);
+
+export default auditEventsRouter;
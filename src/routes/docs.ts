@@ -0,0 +1,113 @@
+import { Hono } from "hono";
+import type { RouterRoute } from "hono/types";
+import { buildOpenApiDocument, type OpenApiDocument } from "../lib/openapi";
+import { describeRoute, describedRoutes } from "../middleware/openapi";
+import { DOCS_ASSETS_ORIGIN } from "../middleware/security";
+
+/** Path of the interactive API reference */
+export const DOCS_PATH = "/docs";
+
+/** Swagger UI release the docs page loads */
+const SWAGGER_UI = `${DOCS_ASSETS_ORIGIN}/npm/swagger-ui-dist@5`;
+
+/**
+ * Renders the docs page: Swagger UI pointed at `/openapi.json`.
+ *
+ * @param nonce - The CSP nonce allowing the inline script to run
+ */
+function renderDocsPage(nonce: string): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Superguide API</title>
+    <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${SWAGGER_UI}/swagger-ui-bundle.js"></script>
+    <script nonce="${nonce}">
+      window.ui = SwaggerUIBundle({
+        url: "/openapi.json",
+        dom_id: "#swagger-ui",
+        validatorUrl: null,
+      });
+    </script>
+  </body>
+</html>
+`;
+}
+
+/**
+ * Creates the router serving the API's documentation: the OpenAPI document
+ * at `/openapi.json` and an interactive reference at {@link DOCS_PATH}.
+ *
+ * The document is generated, on first request, from the specs routes
+ * declare with {@link describeRoute}; it is built from the application's
+ * routes once they are all registered, hence the callback.
+ *
+ * @param routes - Returns the application's `routes`
+ * @returns The router, to mount at `/`
+ */
+export function createDocsRouter(routes: () => RouterRoute[]): Hono {
+  const docsRouter = new Hono();
+  let document: OpenApiDocument | undefined;
+
+  /**
+   * GET /openapi.json - The OpenAPI 3.1 document describing every route.
+   */
+  docsRouter.get(
+    "/openapi.json",
+    describeRoute({
+      operationId: "getOpenApiDocument",
+      summary: "OpenAPI document",
+      tags: ["Docs"],
+      responses: {
+        200: {
+          description: "The OpenAPI 3.1 document of this API",
+          content: {
+            "application/json": {
+              type: "object",
+              required: ["openapi", "info", "paths", "components"],
+              properties: { openapi: { const: "3.1.0" } },
+            },
+          },
+        },
+      },
+    }),
+    c => {
+      document ??= buildOpenApiDocument(describedRoutes(routes()), {
+        title: "Superguide API",
+        version: "1.0.0",
+        description:
+          "Errors are answered with `ErrorResponse`; clients should branch on its `code`.",
+      });
+      return c.json(document);
+    }
+  );
+
+  /**
+   * GET /docs - Interactive API reference (Swagger UI).
+   *
+   * The page loads Swagger UI from a CDN, which the Content-Security-Policy
+   * allows for this path only (see {@link securityHeaders}).
+   */
+  docsRouter.get(
+    DOCS_PATH,
+    describeRoute({
+      operationId: "getDocs",
+      summary: "Interactive API reference",
+      tags: ["Docs"],
+      responses: {
+        200: {
+          description: "An HTML page rendering `/openapi.json`",
+          content: { "text/html": { type: "string" } },
+        },
+      },
+    }),
+    c => c.html(renderDocsPage(c.get("secureHeadersNonce") ?? ""))
+  );
+
+  return docsRouter;
+}
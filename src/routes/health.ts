@@ -0,0 +1,126 @@
+import { Hono } from "hono";
+import { successResponse } from "@sudobility/superguide_types";
+import { ApiError } from "../lib/api-error";
+import { ref } from "../lib/json-schema";
+import { describeRoute } from "../middleware/openapi";
+import { checkReadiness, LIFECYCLE_PHASES } from "../services/health";
+
+const healthRouter = new Hono();
+
+/**
+ * GET / - Health check endpoint.
+ *
+ * Public endpoint that returns a simple health status. Kept for existing
+ * monitors; it behaves like `/live` and does not check dependencies. Load
+ * balancers and orchestrators should use `/live` and `/ready`.
+ */
+healthRouter.get(
+  "/",
+  describeRoute({
+    operationId: "getHealth",
+    summary: "Health check",
+    description: "Same as `/health/live`; kept for existing monitors.",
+    tags: ["Health"],
+    responses: {
+      200: {
+        description: "The process is serving HTTP",
+        data: {
+          type: "object",
+          required: ["status", "version"],
+          properties: {
+            status: { const: "ok" },
+            version: { type: "string" },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+  }),
+  c => {
+    return c.json(successResponse({ status: "ok", version: "1.0.0" }));
+  }
+);
+
+/**
+ * GET /live - Liveness probe.
+ *
+ * Answers 200 as long as the process can serve HTTP at all, whatever the
+ * state of its dependencies, so an orchestrator only restarts an instance
+ * that is truly stuck -- not one waiting for the database.
+ */
+healthRouter.get(
+  "/live",
+  describeRoute({
+    operationId: "getLiveness",
+    summary: "Liveness probe",
+    tags: ["Health"],
+    responses: {
+      200: {
+        description: "The process is serving HTTP",
+        data: {
+          type: "object",
+          required: ["status", "phase"],
+          properties: {
+            status: { const: "ok" },
+            phase: { enum: LIFECYCLE_PHASES },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+  }),
+  c => {
+    return c.json(
+      successResponse({ status: "ok", phase: c.get("lifecycle").phase })
+    );
+  }
+);
+
+/**
+ * GET /ready - Readiness probe.
+ *
+ * Answers 200 only when the instance has finished starting, is not shutting
+ * down, and its dependencies respond (see {@link checkReadiness}). Load
+ * balancers should stop routing to an instance while this fails.
+ *
+ * The body reports the lifecycle `phase` and, per dependency, its `status`,
+ * `latencyMs` and `error`.
+ *
+ * @returns {BaseResponse<{ status: "ready"; phase: string; checks: Record<string, DependencyStatus> }>}
+ *
+ * @throws 503 `SERVICE_UNAVAILABLE` if not ready; `data` holds the same report. Why
+ *   startup failed is logged, not reported
+ */
+healthRouter.get(
+  "/ready",
+  describeRoute({
+    operationId: "getReadiness",
+    summary: "Readiness probe",
+    description:
+      "A 503 `SERVICE_UNAVAILABLE` carries the same report in `data`.",
+    tags: ["Health"],
+    responses: {
+      200: {
+        description: "The instance is ready and its dependencies respond",
+        data: ref("Readiness"),
+      },
+    },
+    errors: ["SERVICE_UNAVAILABLE"],
+  }),
+  async c => {
+    const { ready, phase, checks } = await checkReadiness({
+      db: c.get("db"),
+      lifecycle: c.get("lifecycle"),
+    });
+
+    if (!ready) {
+      throw new ApiError("SERVICE_UNAVAILABLE", "Service not ready", {
+        data: { status: "not_ready", phase, checks },
+      });
+    }
+
+    return c.json(successResponse({ status: "ready", phase, checks }));
+  }
+);
+
+export default healthRouter;
@@ -1,8 +1,97 @@
-import { Hono } from "hono";
-import { eq, and, desc, asc } from "drizzle-orm";
-import { db, histories } from "../db";
-import { successResponse, errorResponse } from "@sudobility/superguide_types";
-import { serializeHistory, isValidDatetime } from "../lib/serializers";
+import { Hono, type Context } from "hono";
+import { stream } from "hono/streaming";
+import {
+  eq,
+  and,
+  desc,
+  asc,
+  count,
+  sql,
+  inArray,
+  isNull,
+  type SQL,
+} from "drizzle-orm";
+import {
+  histories,
+  historyRevisions,
+  type Database,
+  type Transaction,
+} from "../db";
+import { successResponse } from "@sudobility/superguide_types";
+import {
+  ApiError,
+  nestIssues,
+  validationFailed,
+  type ErrorCode,
+  type ValidationIssue,
+} from "../lib/api-error";
+import {
+  ETAG_RESPONSE_HEADER,
+  IDEMPOTENCY_ERRORS,
+  IDEMPOTENCY_KEY_HEADER,
+  IF_MATCH_HEADER,
+  TIMEZONE_QUERY,
+  USER_ID_PARAM,
+  dateRangeQuery,
+  paginationQuery,
+} from "../lib/api-parameters";
+import { ref } from "../lib/json-schema";
+import {
+  serializeHistory,
+  serializeHistoryRevision,
+  historyEtag,
+  isValidUuid,
+  parseIfMatch,
+  type SerializedHistory,
+} from "../lib/serializers";
+import {
+  validateHistoryCreate,
+  validateHistoryUpdate,
+  validateBatchOperation,
+  type HistoryUpdateValues,
+  type HistoryBatchOperation,
+} from "../lib/history-validation";
+import {
+  parseHistoryFilters,
+  parseHistorySortField,
+  historyConditions,
+  historyByIdCondition,
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  historyCursorCondition,
+  parseStatsPeriod,
+  parseTimeZone,
+  HISTORY_SORT_FIELDS,
+  HISTORY_STATS_PERIODS,
+  type HistoryCursor,
+  type HistoryPage,
+  type HistoryStatsResponse,
+} from "../lib/history-query";
+import { invalidateHistoryTotals } from "../services/historyTotals";
+import {
+  reviseHistory,
+  revisionActor,
+  type RevisionActor,
+} from "../services/historyRevisions";
+import { idempotency } from "../middleware/idempotency";
+import { audit } from "../middleware/audit";
+import { describeRoute } from "../middleware/openapi";
+import { requirePermission } from "../middleware/permissions";
+import {
+  parseImportDocument,
+  validateImportRows,
+  duplicateKey,
+  type ImportRowError,
+  type ValidatedImport,
+} from "../lib/history-import";
+import {
+  EXPORT_FORMATS,
+  csvHeader,
+  formatDatetimeInZone,
+  toCsvLine,
+  toNdjsonLine,
+  type ExportFormat,
+} from "../lib/export-format";
 
 const historiesRouter = new Hono();
 
@@ -12,207 +101,1524 @@ const DEFAULT_LIMIT = 50;
 /** Maximum number of history records that can be requested in a single page */
 const MAX_LIMIT = 200;
 
+/** Number of rows read from the database per batch while streaming an export */
+const EXPORT_BATCH_SIZE = 1000;
+
+/** Number of rows inserted per statement when committing an import */
+const IMPORT_CHUNK_SIZE = 500;
+
+/** Maximum number of operations accepted by a single batch request */
+const MAX_BATCH_OPERATIONS = 500;
+
+/** Path parameters of the routes addressing one history record */
+const HISTORY_ID_PARAMS = {
+  ...USER_ID_PARAM,
+  historyId: "Id of the history record",
+};
+
+/**
+ * Converts validated update values into the column values for `UPDATE ... SET`,
+ * always bumping `updated_at` to `now`.
+ */
+function toHistoryUpdateSet(values: HistoryUpdateValues, now: Date) {
+  return {
+    ...(values.datetime !== undefined && { datetime: values.datetime }),
+    ...(values.value !== undefined && { value: String(values.value) }),
+    version: sql`${histories.version} + 1`,
+    updated_at: now,
+  };
+}
+
+/**
+ * Column values that soft-delete a history: it moves to the trash and is
+ * hidden from every query until restored or purged.
+ */
+function toHistoryDeleteSet(now: Date) {
+  return {
+    deleted_at: now,
+    version: sql`${histories.version} + 1`,
+    updated_at: now,
+  };
+}
+
+/**
+ * Builds the extra `WHERE` condition implied by an `If-Match` header.
+ *
+ * @param header - The raw `If-Match` header, if any
+ * @returns `undefined` when the header is absent or `*` (no version check),
+ *   otherwise a condition that only matches the listed versions
+ */
+function ifMatchCondition(header: string | undefined): SQL | undefined {
+  if (header === undefined) return undefined;
+  const versions = parseIfMatch(header);
+  if (versions === "*") return undefined;
+  return versions.length > 0
+    ? inArray(histories.version, versions)
+    : sql`false`;
+}
+
+/** The error for a history that does not exist or belongs to someone else */
+function historyNotFound() {
+  return new ApiError("HISTORY_NOT_FOUND", "History not found");
+}
+
+/**
+ * The error for a conditional write that matched no row: 412 with the
+ * current record (and its ETag) when it exists, so the client can resolve
+ * the conflict, else 404.
+ */
+async function preconditionFailedOrNotFound(
+  c: Context,
+  userId: string,
+  historyId: string
+): Promise<ApiError> {
+  const db = c.get("db");
+  const [current] = await db
+    .select()
+    .from(histories)
+    .where(historyByIdCondition(userId, historyId));
+
+  if (!current) {
+    return historyNotFound();
+  }
+
+  c.header("ETag", historyEtag(current.version));
+  return new ApiError(
+    "PRECONDITION_FAILED",
+    "History has been modified; If-Match does not match",
+    { data: serializeHistory(current) }
+  );
+}
+
+/** Outcome of one operation in a batch request */
+interface BatchOperationResult {
+  /** Position of the operation in the request's `operations` array */
+  index: number;
+  op: string;
+  /** HTTP status the equivalent single-record request would have returned */
+  status: number;
+  /** The created/updated record, or null for deletes */
+  data?: SerializedHistory | null;
+  error?: string;
+  /** Error code the equivalent single request would have returned */
+  code?: ErrorCode;
+  /** The operation's invalid fields, relative to the operation */
+  issues?: ValidationIssue[];
+}
+
+/** The result of a batch operation whose target record does not exist */
+function historyNotFoundResult(
+  index: number,
+  op: string
+): BatchOperationResult {
+  return {
+    index,
+    op,
+    status: 404,
+    error: "History not found",
+    code: "HISTORY_NOT_FOUND",
+  };
+}
+
+/**
+ * Thrown inside an all-or-nothing batch transaction to roll it back once an
+ * operation fails. Never escapes the batch handler.
+ */
+class BatchAbortedError extends Error {}
+
+/**
+ * Applies one validated batch operation for `userId` using `tx`, as of `now`.
+ * A missing target record is reported as a 404 result rather than thrown.
+ */
+async function applyBatchOperation(
+  tx: Transaction,
+  userId: string,
+  actor: RevisionActor,
+  now: Date,
+  index: number,
+  operation: HistoryBatchOperation
+): Promise<BatchOperationResult> {
+  const { op } = operation;
+
+  if (operation.op === "create") {
+    const [h] = await tx
+      .insert(histories)
+      .values({
+        user_id: userId,
+        datetime: operation.input.datetime,
+        value: String(operation.input.value),
+      })
+      .returning();
+    return { index, op, status: 201, data: serializeHistory(h) };
+  }
+
+  // An id that is not a UUID cannot match a record (and Postgres would
+  // reject it), so it is reported like any other missing record
+  if (!isValidUuid(operation.id)) {
+    return historyNotFoundResult(index, op);
+  }
+
+  const target = historyByIdCondition(userId, operation.id);
+
+  const h =
+    operation.op === "update"
+      ? await reviseHistory(
+          tx,
+          target,
+          toHistoryUpdateSet(operation.input, now),
+          "update",
+          actor
+        )
+      : await reviseHistory(
+          tx,
+          target,
+          toHistoryDeleteSet(now),
+          "delete",
+          actor
+        );
+
+  if (!h) {
+    return historyNotFoundResult(index, op);
+  }
+
+  return {
+    index,
+    op,
+    status: 200,
+    data: operation.op === "update" ? serializeHistory(h) : null,
+  };
+}
+
+/** Summary returned by the import endpoint */
+interface ImportReport {
+  dryRun: boolean;
+  /** Number of data rows in the upload */
+  total: number;
+  /** Rows that passed validation */
+  valid: number;
+  /** Rows that failed validation */
+  invalid: number;
+  /** Rows written (always 0 for a dry run) */
+  inserted: number;
+  /** Valid rows skipped as duplicates (only with `skipDuplicates=true`) */
+  skippedDuplicates: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Splits validated import rows into new rows and duplicates of an existing
+ * `(datetime, value)` pair -- either already stored for the user or earlier
+ * in the same upload. `seen` carries keys across chunks and is updated.
+ */
+async function partitionDuplicates(
+  executor: Database | Transaction,
+  userId: string,
+  rows: ValidatedImport["valid"],
+  seen: Set<string>
+) {
+  const existing = await executor
+    .select({ datetime: histories.datetime, value: histories.value })
+    .from(histories)
+    .where(
+      and(
+        eq(histories.user_id, userId),
+        isNull(histories.deleted_at),
+        inArray(
+          histories.datetime,
+          rows.map((r) => r.values.datetime)
+        )
+      )
+    );
+  for (const row of existing) {
+    seen.add(duplicateKey(row.datetime, row.value));
+  }
+
+  const fresh: ValidatedImport["valid"] = [];
+  let duplicates = 0;
+  for (const row of rows) {
+    const key = duplicateKey(row.values.datetime, row.values.value);
+    if (seen.has(key)) {
+      duplicates++;
+    } else {
+      seen.add(key);
+      fresh.push(row);
+    }
+  }
+  return { fresh, duplicates };
+}
+
+/** Splits `items` into consecutive chunks of at most `size` elements */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
 /**
  * GET / - List all histories for the authenticated user.
  *
  * Requires that the requesting user matches the `:userId` route param,
- * or that the requester is a site admin.
+ * or that the requester holds `histories:read`.
  *
  * Supports pagination via query parameters:
  * - `limit` (number, default 50, max 200) - Number of records to return
  * - `offset` (number, default 0) - Number of records to skip
- * - `orderBy` ("asc" | "desc", default "desc") - Sort order by datetime
+ * - `orderBy` ("asc" | "desc", default "desc") - Sort direction
+ * - `sortBy` ("datetime" | "value" | "created_at", default "datetime") - Sort field
+ *
+ * Supports filtering via query parameters (all bounds inclusive):
+ * - `from` / `to` (ISO 8601 date strings) - Range on `datetime`
+ * - `minValue` / `maxValue` (numbers) - Range on `value`
+ *
+ * Supports keyset pagination, which stays fast on deep pages and does not
+ * skip or repeat rows when records are inserted between page loads:
+ * - `cursor` (string) - Opaque cursor from a previous page's `nextCursor`;
+ *   pass it empty (`?cursor=`) to request the first page. Ordered by
+ *   `(datetime, id)`, so it cannot be combined with `offset` or another `sortBy`
+ * - `includeTotal` ("true") - Also return the total number of matching records
+ *
+ * In cursor mode, a `Link: <...>; rel="next"` header points at the next page
+ * whenever `hasMore` is true.
+ *
+ * @returns {BaseResponse<History[]>} Paginated list of serialized history records,
+ *   or {BaseResponse<HistoryPage>} when `cursor` is present
+ *
+ * @throws 400 if `from`/`to` are not valid date strings or `from` is after `to`
+ * @throws 400 if `minValue`/`maxValue` are not numbers or `minValue` exceeds `maxValue`
+ * @throws 400 if `sortBy` is not a supported field
+ * @throws 400 if `cursor` is malformed or combined with `offset` or a non-datetime `sortBy`
+ * @throws 403 if the user is not authorized
+ *
+ * @example
+ * GET /api/v1/users/:userId/histories?from=2024-01-01&to=2024-02-01&sortBy=value&orderBy=asc
+ * GET /api/v1/users/:userId/histories?cursor=&limit=100&includeTotal=true
+ */
+historiesRouter.get(
+  "/",
+  describeRoute({
+    operationId: "listHistories",
+    summary: "List histories",
+    description:
+      "Offset-paginated by default; with `cursor` (empty for the first page), keyset-paginated by `(datetime, id)`.",
+    tags: ["Histories"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    query: {
+      ...paginationQuery(DEFAULT_LIMIT, MAX_LIMIT),
+      orderBy: {
+        description: "Sort direction (default `desc`)",
+        schema: { enum: ["asc", "desc"] },
+      },
+      sortBy: {
+        description: "Sort field (default `datetime`)",
+        schema: { enum: HISTORY_SORT_FIELDS },
+      },
+      ...dateRangeQuery("datetime"),
+      minValue: {
+        description: "Smallest `value`, inclusive",
+        schema: { type: "number" },
+      },
+      maxValue: {
+        description: "Largest `value`, inclusive",
+        schema: { type: "number" },
+      },
+      cursor: {
+        description:
+          "`nextCursor` of the previous page, or empty for the first page; selects keyset pagination",
+        schema: { type: "string" },
+      },
+      includeTotal: {
+        description: "With `cursor`, also count the matching records",
+        schema: { enum: ["true", "false"] },
+      },
+    },
+    responses: {
+      200: {
+        description:
+          "The records, or a `HistoryPage` when `cursor` is present",
+        data: {
+          oneOf: [{ type: "array", items: ref("History") }, ref("HistoryPage")],
+        },
+        headers: { Link: 'With `cursor`, the next page as `rel="next"`' },
+      },
+    },
+    errors: ["VALIDATION_FAILED", "NOT_AUTHORIZED"],
+  }),
+  audit("history.list"),
+  requirePermission("histories:read"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    // Parse pagination parameters
+    const limitParam = c.req.query("limit");
+    const offsetParam = c.req.query("offset");
+    const orderByParam = c.req.query("orderBy");
+
+    const limit = Math.min(
+      Math.max(1, parseInt(limitParam || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT),
+      MAX_LIMIT
+    );
+    const offset = Math.max(0, parseInt(offsetParam || "0", 10) || 0);
+    const orderDirection = orderByParam === "asc" ? "asc" : "desc";
+
+    const sortBy = parseHistorySortField(c.req.query("sortBy"));
+    if (!sortBy.ok) {
+      throw validationFailed(sortBy, "sortBy");
+    }
+
+    const filters = parseHistoryFilters({
+      from: c.req.query("from"),
+      to: c.req.query("to"),
+      minValue: c.req.query("minValue"),
+      maxValue: c.req.query("maxValue"),
+    });
+    if (!filters.ok) {
+      throw validationFailed(filters);
+    }
+
+    const cursorParam = c.req.query("cursor");
+    if (cursorParam !== undefined) {
+      if (offsetParam) {
+        throw validationFailed(
+          { error: "offset cannot be combined with cursor" },
+          "offset",
+          "incompatible"
+        );
+      }
+      if (sortBy.value !== "datetime") {
+        throw validationFailed(
+          { error: "cursor pagination only supports sortBy=datetime" },
+          "sortBy",
+          "incompatible"
+        );
+      }
+
+      const conditions = [historyConditions(userId, filters.value)];
+      if (cursorParam) {
+        const cursor = decodeHistoryCursor(cursorParam);
+        if (!cursor.ok) {
+          throw validationFailed(cursor, "cursor", "invalid_format");
+        }
+        conditions.push(historyCursorCondition(cursor.value, orderDirection));
+      }
+
+      // Fetch one extra row to learn whether another page exists
+      const rows = await db
+        .select()
+        .from(histories)
+        .where(and(...conditions))
+        .orderBy(
+          orderDirection === "asc"
+            ? asc(histories.datetime)
+            : desc(histories.datetime),
+          orderDirection === "asc" ? asc(histories.id) : desc(histories.id)
+        )
+        .limit(limit + 1);
+
+      const hasMore = rows.length > limit;
+      const items = rows.slice(0, limit);
+      const last = items[items.length - 1];
+
+      const page: HistoryPage = {
+        items: items.map(serializeHistory),
+        nextCursor:
+          hasMore && last
+            ? encodeHistoryCursor({ datetime: last.datetime, id: last.id })
+            : null,
+        hasMore,
+      };
+
+      if (c.req.query("includeTotal") === "true") {
+        const [{ total }] = await db
+          .select({ total: count() })
+          .from(histories)
+          .where(historyConditions(userId, filters.value));
+        page.total = total;
+      }
+
+      if (page.nextCursor) {
+        const nextUrl = new URL(c.req.url);
+        nextUrl.searchParams.set("cursor", page.nextCursor);
+        c.header("Link", `<${nextUrl.toString()}>; rel="next"`);
+      }
+
+      return c.json(successResponse(page));
+    }
+
+    const sortColumn = histories[sortBy.value];
+
+    const result = await db
+      .select()
+      .from(histories)
+      .where(historyConditions(userId, filters.value))
+      .orderBy(
+        orderDirection === "asc" ? asc(sortColumn) : desc(sortColumn),
+        orderDirection === "asc" ? asc(histories.id) : desc(histories.id)
+      )
+      .limit(limit)
+      .offset(offset);
+
+    const data = result.map(serializeHistory);
+
+    return c.json(successResponse(data));
+  }
+);
+
+/**
+ * GET /stats - Time-bucketed statistics of the user's history values.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:read`.
+ *
+ * Aggregates `count`, `sum`, `average`, `min` and `max` of `value` per
+ * calendar bucket in the database, so clients no longer need to download
+ * every record. Buckets with no records are omitted.
  *
- * @returns {BaseResponse<History[]>} Paginated list of serialized history records
+ * Query parameters:
+ * - `groupBy` ("day" | "week" | "month" | "year", default "day") - Bucket size;
+ *   weeks start on Monday
+ * - `timezone` (IANA name, default "UTC") - Timezone that defines bucket boundaries
+ * - `from` / `to` (ISO 8601 date strings) - Inclusive range on `datetime`
+ *
+ * @returns {BaseResponse<HistoryStatsResponse>} Buckets in ascending order
+ *
+ * @throws 400 if `groupBy`, `timezone`, `from` or `to` is invalid
+ * @throws 403 if the user is not authorized
  *
  * @example
- * GET /api/v1/users/:userId/histories?limit=20&offset=0&orderBy=desc
+ * GET /api/v1/users/:userId/histories/stats?groupBy=month&timezone=America/New_York
  */
-historiesRouter.get("/", async (c) => {
-  const userId = c.req.param("userId")!;
-  const tokenUserId = c.get("userId");
+historiesRouter.get(
+  "/stats",
+  describeRoute({
+    operationId: "getHistoryStats",
+    summary: "History statistics per period",
+    tags: ["Histories"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    query: {
+      groupBy: {
+        description: "Bucket size (default `day`); weeks start on Monday",
+        schema: { enum: HISTORY_STATS_PERIODS },
+      },
+      timezone: TIMEZONE_QUERY,
+      ...dateRangeQuery("datetime"),
+    },
+    responses: {
+      200: {
+        description: "Non-empty buckets in ascending order",
+        data: ref("HistoryStats"),
+      },
+    },
+    errors: ["VALIDATION_FAILED", "NOT_AUTHORIZED"],
+  }),
+  audit("history.stats"),
+  requirePermission("histories:read"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    const groupBy = parseStatsPeriod(c.req.query("groupBy"));
+    if (!groupBy.ok) {
+      throw validationFailed(groupBy, "groupBy");
+    }
+
+    const timezone = parseTimeZone(c.req.query("timezone"));
+    if (!timezone.ok) {
+      throw validationFailed(timezone, "timezone");
+    }
+
+    const filters = parseHistoryFilters({
+      from: c.req.query("from"),
+      to: c.req.query("to"),
+    });
+    if (!filters.ok) {
+      throw validationFailed(filters);
+    }
+
+    // `datetime` is stored as a UTC timestamp without zone: interpret it as UTC,
+    // convert to local time in the requested zone, then truncate to the bucket.
+    const localBucket = sql`date_trunc(${groupBy.value}, (${histories.datetime} AT TIME ZONE 'UTC') AT TIME ZONE ${timezone.value})`;
+
+    // Grouped positionally: the bucket expressions carry bind parameters, which
+    // Postgres would not recognise as equal if repeated in GROUP BY.
+    const rows = await db
+      .select({
+        period: sql<string>`to_char(${localBucket}, 'YYYY-MM-DD')`,
+        start: sql<string>`to_char((${localBucket} AT TIME ZONE ${timezone.value}) AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`,
+        count: sql<number>`count(*)::int`,
+        sum: sql<string>`SUM(${histories.value})`,
+        average: sql<string>`AVG(${histories.value})`,
+        min: sql<string>`MIN(${histories.value})`,
+        max: sql<string>`MAX(${histories.value})`,
+      })
+      .from(histories)
+      .where(historyConditions(userId, filters.value))
+      .groupBy(sql`1, 2`)
+      .orderBy(sql`2`);
+
+    const data: HistoryStatsResponse = {
+      groupBy: groupBy.value,
+      timezone: timezone.value,
+      buckets: rows.map((row) => ({
+        period: row.period,
+        start: row.start,
+        count: Number(row.count),
+        sum: Number(row.sum),
+        average: Number(row.average),
+        min: Number(row.min),
+        max: Number(row.max),
+      })),
+    };
 
-  if (userId !== tokenUserId && !c.get("siteAdmin")) {
-    return c.json(errorResponse("Not authorized"), 403);
+    return c.json(successResponse(data));
   }
+);
 
-  // Parse pagination parameters
-  const limitParam = c.req.query("limit");
-  const offsetParam = c.req.query("offset");
-  const orderByParam = c.req.query("orderBy");
+/**
+ * GET /export - Download all of the user's histories as CSV or NDJSON.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:read`.
+ *
+ * The response is streamed: rows are read in keyset-paginated batches of
+ * {@link EXPORT_BATCH_SIZE} ordered by `(datetime, id)` and written as they
+ * arrive, so memory use stays bounded regardless of how many rows match.
+ *
+ * Query parameters:
+ * - `format` ("csv" | "ndjson", default "csv") - Output format
+ * - `from` / `to` (ISO 8601 date strings) - Inclusive range on `datetime`
+ * - `timezone` (IANA name, default "UTC") - Zone used to format `datetime`,
+ *   written with an explicit offset; other timestamps stay in UTC
+ *
+ * @returns A `text/csv` or `application/x-ndjson` attachment
+ *
+ * @throws 400 if `format`, `from`, `to` or `timezone` is invalid
+ * @throws 403 if the user is not authorized
+ *
+ * @example
+ * GET /api/v1/users/:userId/histories/export?format=ndjson&timezone=Europe/Berlin
+ */
+historiesRouter.get(
+  "/export",
+  describeRoute({
+    operationId: "exportHistories",
+    summary: "Export histories",
+    tags: ["Histories"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    query: {
+      format: {
+        description: "Output format (default `csv`)",
+        schema: { enum: EXPORT_FORMATS },
+      },
+      ...dateRangeQuery("datetime"),
+      timezone: TIMEZONE_QUERY,
+    },
+    responses: {
+      200: {
+        description: "A streamed attachment, one record per line",
+        content: {
+          "text/csv": { type: "string" },
+          "application/x-ndjson": { type: "string" },
+        },
+        headers: { "Content-Disposition": "Attachment file name" },
+      },
+    },
+    errors: ["VALIDATION_FAILED", "NOT_AUTHORIZED"],
+  }),
+  audit("history.export"),
+  requirePermission("histories:read"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
 
-  const limit = Math.min(
-    Math.max(1, parseInt(limitParam || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT),
-    MAX_LIMIT
-  );
-  const offset = Math.max(0, parseInt(offsetParam || "0", 10) || 0);
-  const orderDirection = orderByParam === "asc" ? "asc" : "desc";
+    const formatParam = c.req.query("format") || "csv";
+    if (!(EXPORT_FORMATS as readonly string[]).includes(formatParam)) {
+      throw validationFailed(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        "format"
+      );
+    }
+    const format = formatParam as ExportFormat;
 
-  const result = await db
-    .select()
-    .from(histories)
-    .where(eq(histories.user_id, userId))
-    .orderBy(
-      orderDirection === "asc"
-        ? asc(histories.datetime)
-        : desc(histories.datetime)
-    )
-    .limit(limit)
-    .offset(offset);
+    const timezone = parseTimeZone(c.req.query("timezone"));
+    if (!timezone.ok) {
+      throw validationFailed(timezone, "timezone");
+    }
+
+    const filters = parseHistoryFilters({
+      from: c.req.query("from"),
+      to: c.req.query("to"),
+    });
+    if (!filters.ok) {
+      throw validationFailed(filters);
+    }
+
+    c.header(
+      "Content-Type",
+      format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson"
+    );
+    c.header(
+      "Content-Disposition",
+      `attachment; filename="histories.${format}"`
+    );
+
+    return stream(
+      c,
+      async (s) => {
+        if (format === "csv") {
+          await s.write(csvHeader());
+        }
+
+        let cursor: HistoryCursor | undefined;
+        while (!s.aborted) {
+          const rows = await db
+            .select()
+            .from(histories)
+            .where(
+              and(
+                historyConditions(userId, filters.value),
+                cursor && historyCursorCondition(cursor, "asc")
+              )
+            )
+            .orderBy(asc(histories.datetime), asc(histories.id))
+            .limit(EXPORT_BATCH_SIZE);
 
-  const data = result.map(serializeHistory);
+          let chunk = "";
+          for (const row of rows) {
+            const h = {
+              ...serializeHistory(row),
+              datetime: formatDatetimeInZone(row.datetime, timezone.value),
+            };
+            chunk += format === "csv" ? toCsvLine(h) : toNdjsonLine(h);
+          }
+          if (chunk) {
+            await s.write(chunk);
+          }
 
-  return c.json(successResponse(data));
-});
+          if (rows.length < EXPORT_BATCH_SIZE) {
+            break;
+          }
+          const last = rows[rows.length - 1];
+          cursor = { datetime: last.datetime, id: last.id };
+        }
+      },
+      async (err) => {
+        // Headers are already sent, so the client sees a truncated download
+        c.get("logger").error("History export failed", { err });
+      }
+    );
+  }
+);
 
 /**
  * POST / - Create a new history record for the authenticated user.
  *
  * Requires that the requesting user matches the `:userId` route param,
- * or that the requester is a site admin.
+ * or that the requester holds `histories:write`.
  *
  * @param {HistoryCreateRequest} body - Request body with `datetime` (ISO 8601 string)
  *   and `value` (positive number)
  * @returns {BaseResponse<History>} The newly created history record (HTTP 201)
  *
+ * Honors the `Idempotency-Key` header: a retried request with the same key
+ * and body returns the original 201 response instead of creating a duplicate
+ * (see {@link idempotency}).
+ *
  * @throws 400 if `datetime` or `value` is missing
- * @throws 400 if `value` is not a positive number
+ * @throws 400 if `value` is not a positive number that fits the value column
  * @throws 400 if `datetime` is not a valid date string
  * @throws 403 if the user is not authorized
+ * @throws 409 if a request with the same `Idempotency-Key` is still in progress
+ * @throws 422 if the `Idempotency-Key` was already used with a different body
  */
-historiesRouter.post("/", async (c) => {
-  const userId = c.req.param("userId")!;
-  const tokenUserId = c.get("userId");
+historiesRouter.post(
+  "/",
+  describeRoute({
+    operationId: "createHistory",
+    summary: "Create a history",
+    tags: ["Histories"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    headers: IDEMPOTENCY_KEY_HEADER,
+    body: { content: { "application/json": ref("HistoryCreateRequest") } },
+    responses: {
+      201: {
+        description: "The created record",
+        data: ref("History"),
+        headers: ETAG_RESPONSE_HEADER,
+      },
+    },
+    errors: [...IDEMPOTENCY_ERRORS, "NOT_AUTHORIZED"],
+  }),
+  audit("history.create"),
+  requirePermission("histories:write"),
+  idempotency(),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
 
-  if (userId !== tokenUserId && !c.get("siteAdmin")) {
-    return c.json(errorResponse("Not authorized"), 403);
-  }
+    const input = validateHistoryCreate(await c.req.json());
+    if (!input.ok) {
+      throw validationFailed(input);
+    }
 
-  const body = await c.req.json();
-  const { datetime, value } = body;
+    const result = await db
+      .insert(histories)
+      .values({
+        user_id: userId,
+        datetime: input.value.datetime,
+        value: String(input.value.value),
+      })
+      .returning();
 
-  if (!datetime || value === undefined || value === null) {
-    return c.json(errorResponse("datetime and value are required"), 400);
-  }
+    invalidateHistoryTotals(c);
+    c.get("metrics").historyWrites.inc({ operation: "create" });
 
-  if (typeof value !== "number" || value <= 0) {
-    return c.json(errorResponse("value must be a positive number"), 400);
+    const h = result[0];
+    c.header("ETag", historyEtag(h.version));
+    return c.json(successResponse(serializeHistory(h)), 201);
   }
+);
 
-  if (typeof datetime !== "string" || !isValidDatetime(datetime)) {
-    return c.json(
-      errorResponse("datetime must be a valid ISO 8601 date string"),
-      400
-    );
+/**
+ * POST /batch - Create, update and delete several history records at once.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:write`.
+ *
+ * Intended for clients replaying queued offline changes. Every operation is
+ * validated with the same rules as the single-record POST and PUT handlers,
+ * and all operations run inside one database transaction, in order.
+ *
+ * Request body:
+ * - `operations` (array, 1-500 items) - Each item is one of
+ *   `{ op: "create", datetime, value }`, `{ op: "update", id, datetime?, value? }`
+ *   or `{ op: "delete", id }`
+ * - `atomic` (boolean, default true) - When true, the batch is all-or-nothing:
+ *   if any operation is invalid or fails, nothing is written. When false
+ *   (best-effort), each operation runs in its own savepoint and failures are
+ *   reported without affecting the others.
+ *
+ * Each result carries the HTTP status the equivalent single request would
+ * have returned (201, 200, 400, 404 or 500) plus the record, or the error
+ * with its `code` and, for invalid operations, its `issues`.
+ *
+ * @returns {BaseResponse<{ committed: boolean; results: BatchOperationResult[] }>}
+ *   200 when the transaction committed. For a failed atomic batch, the code
+ *   and status of the first failing operation with `committed: false` in
+ *   `data`; invalid operations are `VALIDATION_FAILED`, with `issues` paths
+ *   such as `operations[2].value`.
+ *
+ * Honors the `Idempotency-Key` header, so a queue replayed after a timeout
+ * is not applied twice.
+ *
+ * @throws 400 if `operations` is missing, empty or longer than 500 items
+ * @throws 403 if the user is not authorized
+ * @throws 409/422 on `Idempotency-Key` conflicts (see {@link idempotency})
+ */
+historiesRouter.post(
+  "/batch",
+  describeRoute({
+    operationId: "batchHistories",
+    summary: "Apply several history changes at once",
+    description:
+      "When an atomic batch fails, the error carries the first failing operation's code and status, with the results in `data`.",
+    tags: ["Histories"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    headers: IDEMPOTENCY_KEY_HEADER,
+    body: { content: { "application/json": ref("BatchRequest") } },
+    responses: {
+      200: {
+        description: "The transaction committed",
+        data: ref("BatchResponse"),
+      },
+    },
+    errors: [...IDEMPOTENCY_ERRORS, "NOT_AUTHORIZED", "HISTORY_NOT_FOUND"],
+  }),
+  audit("history.batch"),
+  requirePermission("histories:write"),
+  idempotency(),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    const body = await c.req.json();
+    const operations: unknown = body?.operations;
+    const atomic = body?.atomic !== false;
+
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw validationFailed(
+        { error: "operations must be a non-empty array" },
+        "operations",
+        Array.isArray(operations) ? "too_small" : "invalid_type"
+      );
+    }
+    if (operations.length > MAX_BATCH_OPERATIONS) {
+      throw validationFailed(
+        {
+          error: `operations must not contain more than ${MAX_BATCH_OPERATIONS} items`,
+        },
+        "operations",
+        "too_big"
+      );
+    }
+
+    const results: BatchOperationResult[] = [];
+    const valid: { index: number; operation: HistoryBatchOperation }[] = [];
+
+    operations.forEach((raw, index) => {
+      const parsed = validateBatchOperation(raw);
+      if (parsed.ok) {
+        valid.push({ index, operation: parsed.value });
+      } else {
+        const op = typeof raw?.op === "string" ? raw.op : "unknown";
+        results.push({
+          index,
+          op,
+          status: 400,
+          error: parsed.error,
+          code: "VALIDATION_FAILED",
+          issues: parsed.issues,
+        });
+      }
+    });
+
+    if (atomic && results.length > 0) {
+      throw new ApiError(
+        "VALIDATION_FAILED",
+        "Batch validation failed; no operations were applied",
+        {
+          issues: results.flatMap((r) =>
+            nestIssues(`operations[${r.index}]`, r.issues ?? [])
+          ),
+          data: { committed: false, results },
+        }
+      );
+    }
+
+    const actor = revisionActor(c, userId);
+    const now = c.get("clock").now();
+    let failed: BatchOperationResult | undefined;
+
+    try {
+      await db.transaction(async (tx) => {
+        for (const { index, operation } of valid) {
+          let result: BatchOperationResult;
+          try {
+            result = atomic
+              ? await applyBatchOperation(
+                  tx,
+                  userId,
+                  actor,
+                  now,
+                  index,
+                  operation
+                )
+              : await tx.transaction((savepoint) =>
+                  applyBatchOperation(
+                    savepoint,
+                    userId,
+                    actor,
+                    now,
+                    index,
+                    operation
+                  )
+                );
+          } catch (err) {
+            c.get("logger").error("Batch operation failed", { index, err });
+            result = {
+              index,
+              op: operation.op,
+              status: 500,
+              error: "Operation failed",
+              code: "INTERNAL_ERROR",
+            };
+          }
+
+          results.push(result);
+          if (atomic && result.status >= 400) {
+            failed = result;
+            throw new BatchAbortedError();
+          }
+        }
+      });
+    } catch (err) {
+      if (!(err instanceof BatchAbortedError)) {
+        throw err;
+      }
+    }
+
+    results.sort((a, b) => a.index - b.index);
+
+    if (failed) {
+      throw new ApiError(
+        failed.code ?? "INTERNAL_ERROR",
+        `Operation ${failed.index} failed; no operations were applied`,
+        { data: { committed: false, results } }
+      );
+    }
+
+    if (results.some((r) => r.status < 400)) {
+      invalidateHistoryTotals(c);
+    }
+    for (const r of results) {
+      if (r.status < 400) {
+        c.get("metrics").historyWrites.inc({ operation: r.op });
+      }
+    }
+
+    return c.json(successResponse({ committed: true, results }));
   }
+);
+
+/**
+ * POST /import - Bulk-load histories from a CSV or JSON upload.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:write`.
+ *
+ * The body is either CSV (`Content-Type: text/csv`, header row with
+ * `datetime` and `value` columns) or JSON (an array of `{ datetime, value }`,
+ * or `{ rows: [...] }`); `format=csv|json` overrides the content type. Up to
+ * 10,000 rows are accepted. Every row is validated with the same rules as
+ * POST `/`, and all row-level errors are reported together.
+ *
+ * Query parameters:
+ * - `dryRun` ("true") - Validate and report only; nothing is written
+ * - `skipDuplicates` ("true") - Skip rows whose `(datetime, value)` pair
+ *   already exists for the user or appears earlier in the upload
+ *
+ * A committed import is all-or-nothing: if any row is invalid nothing is
+ * written; otherwise rows are inserted in chunks of {@link IMPORT_CHUNK_SIZE}
+ * inside a single transaction.
+ *
+ * @returns {BaseResponse<ImportReport>} 200 for a dry run, 201 when committed
+ *
+ * @throws 400 if the document is malformed, empty or too large
+ * @throws 400 if any row is invalid (committed imports only); `data` holds the
+ *   report and `issues` paths point into the rows, e.g. `rows[0].value`
+ * @throws 403 if the user is not authorized
+ *
+ * @example
+ * POST /api/v1/users/:userId/histories/import?dryRun=true&skipDuplicates=true
+ */
+historiesRouter.post(
+  "/import",
+  describeRoute({
+    operationId: "importHistories",
+    summary: "Import histories from CSV or JSON",
+    tags: ["Histories"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    query: {
+      format: {
+        description: "Overrides the format implied by `Content-Type`",
+        schema: { enum: ["csv", "json"] },
+      },
+      dryRun: {
+        description: "Validate and report only",
+        schema: { enum: ["true", "false"] },
+      },
+      skipDuplicates: {
+        description: "Skip rows whose `(datetime, value)` already exists",
+        schema: { enum: ["true", "false"] },
+      },
+    },
+    headers: IDEMPOTENCY_KEY_HEADER,
+    body: {
+      description: "CSV with `datetime` and `value` columns, or JSON rows",
+      content: {
+        "application/json": ref("ImportRequest"),
+        "text/csv": { type: "string" },
+      },
+    },
+    responses: {
+      200: { description: "Dry run report", data: ref("ImportReport") },
+      201: { description: "The rows were imported", data: ref("ImportReport") },
+    },
+    errors: [...IDEMPOTENCY_ERRORS, "NOT_AUTHORIZED"],
+  }),
+  audit("history.import"),
+  requirePermission("histories:write"),
+  idempotency(),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    const formatParam = c.req.query("format");
+    if (formatParam && formatParam !== "csv" && formatParam !== "json") {
+      throw validationFailed(
+        { error: "format must be one of: csv, json" },
+        "format"
+      );
+    }
+    const format: "csv" | "json" =
+      formatParam === "csv" || formatParam === "json"
+        ? formatParam
+        : c.req.header("Content-Type")?.includes("text/csv")
+          ? "csv"
+          : "json";
+
+    const dryRun = c.req.query("dryRun") === "true";
+    const skipDuplicates = c.req.query("skipDuplicates") === "true";
+
+    const document = parseImportDocument(await c.req.text(), format);
+    if (!document.ok) {
+      throw validationFailed(document);
+    }
+
+    const { valid, errors } = validateImportRows(document.value);
+    const report: ImportReport = {
+      dryRun,
+      total: document.value.length,
+      valid: valid.length,
+      invalid: errors.length,
+      inserted: 0,
+      skippedDuplicates: 0,
+      errors,
+    };
+
+    if (dryRun) {
+      if (skipDuplicates) {
+        const seen = new Set<string>();
+        for (const rows of chunk(valid, IMPORT_CHUNK_SIZE)) {
+          const { duplicates } = await partitionDuplicates(
+            db,
+            userId,
+            rows,
+            seen
+          );
+          report.skippedDuplicates += duplicates;
+        }
+      }
+      return c.json(successResponse(report));
+    }
+
+    if (errors.length > 0) {
+      throw new ApiError(
+        "VALIDATION_FAILED",
+        `${errors.length} row(s) failed validation; nothing was imported`,
+        {
+          issues: errors.flatMap((e) =>
+            nestIssues(`rows[${e.row - 1}]`, e.issues)
+          ),
+          data: report,
+        }
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      const seen = new Set<string>();
+      for (const rows of chunk(valid, IMPORT_CHUNK_SIZE)) {
+        let toInsert = rows;
+        if (skipDuplicates) {
+          const { fresh, duplicates } = await partitionDuplicates(
+            tx,
+            userId,
+            rows,
+            seen
+          );
+          toInsert = fresh;
+          report.skippedDuplicates += duplicates;
+        }
+        if (toInsert.length === 0) continue;
+
+        await tx.insert(histories).values(
+          toInsert.map((r) => ({
+            user_id: userId,
+            datetime: r.values.datetime,
+            value: String(r.values.value),
+          }))
+        );
+        report.inserted += toInsert.length;
+      }
+    });
 
-  const result = await db
-    .insert(histories)
-    .values({
-      user_id: userId,
-      datetime: new Date(datetime),
-      value: String(value),
-    })
-    .returning();
+    if (report.inserted > 0) {
+      invalidateHistoryTotals(c);
+      c.get("metrics").historyWrites.inc(
+        { operation: "create" },
+        report.inserted
+      );
+    }
 
-  const h = result[0];
-  return c.json(successResponse(serializeHistory(h)), 201);
-});
+    return c.json(successResponse(report), 201);
+  }
+);
 
 /**
  * PUT /:historyId - Update an existing history record.
  *
  * Requires that the requesting user matches the `:userId` route param,
- * or that the requester is a site admin. At least one field (`datetime` or `value`)
- * must be provided.
+ * or that the requester holds `histories:write`. At least one field
+ * (`datetime` or `value`) must be provided.
+ *
+ * Supports optimistic concurrency: when an `If-Match` header carrying the
+ * record's ETag (`"<version>"`, also returned as `version` in the body) is
+ * sent, the update only applies if the record has not changed since. Each
+ * successful update increments `version`, and the response carries the new
+ * `ETag`.
+ *
+ * The previous and new values are recorded as an `update` revision (see
+ * GET `/:historyId/revisions`).
  *
  * @param {HistoryUpdateRequest} body - Request body with optional `datetime` and/or `value`
  * @returns {BaseResponse<History>} The updated history record
  *
  * @throws 400 if no fields are provided to update
- * @throws 400 if `value` is provided but not a positive number
+ * @throws 400 if `value` is provided but not a positive number that fits the
+ *   value column
  * @throws 400 if `datetime` is provided but not a valid date string
  * @throws 403 if the user is not authorized
- * @throws 404 if the history record is not found or does not belong to the user
+ * @throws 404 `HISTORY_NOT_FOUND` if the history record is not found or does not belong to the user
+ * @throws 412 `PRECONDITION_FAILED` if `If-Match` does not match; `data` holds the current record
  */
-historiesRouter.put("/:historyId", async (c) => {
-  const userId = c.req.param("userId")!;
-  const historyId = c.req.param("historyId")!;
-  const tokenUserId = c.get("userId");
+historiesRouter.put(
+  "/:historyId",
+  describeRoute({
+    operationId: "updateHistory",
+    summary: "Update a history",
+    tags: ["Histories"],
+    security: "bearer",
+    params: HISTORY_ID_PARAMS,
+    headers: IF_MATCH_HEADER,
+    body: { content: { "application/json": ref("HistoryUpdateRequest") } },
+    responses: {
+      200: {
+        description: "The updated record",
+        data: ref("History"),
+        headers: ETAG_RESPONSE_HEADER,
+      },
+    },
+    errors: [
+      "VALIDATION_FAILED",
+      "NOT_AUTHORIZED",
+      "HISTORY_NOT_FOUND",
+      "PRECONDITION_FAILED",
+    ],
+  }),
+  audit("history.update"),
+  requirePermission("histories:write"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+    const historyId = c.req.param("historyId")!;
+    if (!isValidUuid(historyId)) {
+      throw historyNotFound();
+    }
 
-  if (userId !== tokenUserId && !c.get("siteAdmin")) {
-    return c.json(errorResponse("Not authorized"), 403);
-  }
+    const input = validateHistoryUpdate(await c.req.json());
+    if (!input.ok) {
+      throw validationFailed(input);
+    }
 
-  const body = await c.req.json();
-  const updates: Record<string, unknown> = {};
+    const ifMatch = c.req.header("If-Match");
+    const actor = revisionActor(c, userId);
 
-  if (body.datetime !== undefined) {
-    if (typeof body.datetime !== "string" || !isValidDatetime(body.datetime)) {
-      return c.json(
-        errorResponse("datetime must be a valid ISO 8601 date string"),
-        400
-      );
+    const h = await db.transaction((tx) =>
+      reviseHistory(
+        tx,
+        and(
+          historyByIdCondition(userId, historyId),
+          ifMatchCondition(ifMatch)
+        )!,
+        toHistoryUpdateSet(input.value, c.get("clock").now()),
+        "update",
+        actor
+      )
+    );
+
+    if (!h) {
+      throw ifMatch === undefined
+        ? historyNotFound()
+        : await preconditionFailedOrNotFound(c, userId, historyId);
     }
-    updates.datetime = new Date(body.datetime);
+
+    invalidateHistoryTotals(c);
+    c.get("metrics").historyWrites.inc({ operation: "update" });
+
+    c.header("ETag", historyEtag(h.version));
+    return c.json(successResponse(serializeHistory(h)));
   }
-  if (body.value !== undefined) {
-    if (typeof body.value !== "number" || body.value <= 0) {
-      return c.json(errorResponse("value must be a positive number"), 400);
+);
+
+/**
+ * DELETE /:historyId - Move a history record to the trash.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:write`.
+ *
+ * This is a soft delete: `deleted_at` is set and the record is hidden from
+ * every other endpoint, but it can be restored via the trash routes until
+ * the retention purge removes it (see `services/trashPurge.ts`). The
+ * deletion is recorded as a `delete` revision.
+ *
+ * Honors `If-Match` like the PUT handler: with a stale ETag nothing is
+ * deleted.
+ *
+ * @returns {BaseResponse<null>} Success response with null data
+ *
+ * @throws 403 if the user is not authorized
+ * @throws 404 `HISTORY_NOT_FOUND` if the history record is not found or does not belong to the user
+ * @throws 412 `PRECONDITION_FAILED` if `If-Match` does not match; `data` holds the current record
+ */
+historiesRouter.delete(
+  "/:historyId",
+  describeRoute({
+    operationId: "deleteHistory",
+    summary: "Move a history to the trash",
+    tags: ["Histories"],
+    security: "bearer",
+    params: HISTORY_ID_PARAMS,
+    headers: IF_MATCH_HEADER,
+    responses: {
+      200: { description: "The record was trashed", data: { type: "null" } },
+    },
+    errors: ["NOT_AUTHORIZED", "HISTORY_NOT_FOUND", "PRECONDITION_FAILED"],
+  }),
+  audit("history.delete"),
+  requirePermission("histories:write"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+    const historyId = c.req.param("historyId")!;
+    if (!isValidUuid(historyId)) {
+      throw historyNotFound();
     }
-    updates.value = String(body.value);
-  }
 
-  if (Object.keys(updates).length === 0) {
-    return c.json(errorResponse("No fields to update"), 400);
-  }
+    const ifMatch = c.req.header("If-Match");
+    const actor = revisionActor(c, userId);
+
+    const h = await db.transaction((tx) =>
+      reviseHistory(
+        tx,
+        and(
+          historyByIdCondition(userId, historyId),
+          ifMatchCondition(ifMatch)
+        )!,
+        toHistoryDeleteSet(c.get("clock").now()),
+        "delete",
+        actor
+      )
+    );
 
-  updates.updated_at = new Date();
+    if (!h) {
+      throw ifMatch === undefined
+        ? historyNotFound()
+        : await preconditionFailedOrNotFound(c, userId, historyId);
+    }
 
-  const result = await db
-    .update(histories)
-    .set(updates)
-    .where(and(eq(histories.id, historyId), eq(histories.user_id, userId)))
-    .returning();
+    invalidateHistoryTotals(c);
+    c.get("metrics").historyWrites.inc({ operation: "delete" });
 
-  if (result.length === 0) {
-    return c.json(errorResponse("History not found"), 404);
+    return c.json(successResponse(null));
   }
-
-  const h = result[0];
-  return c.json(successResponse(serializeHistory(h)));
-});
+);
 
 /**
- * DELETE /:historyId - Delete a history record.
+ * GET /:historyId/revisions - List the recorded changes to a history record.
  *
  * Requires that the requesting user matches the `:userId` route param,
- * or that the requester is a site admin.
+ * or that the requester holds `histories:read`.
  *
- * @returns {BaseResponse<null>} Success response with null data
+ * Revisions are ordered newest first. Each carries the values before and
+ * after the change, the record's resulting `version`, the acting user and
+ * whether they acted on another user's record as a site admin. Revisions of
+ * trashed records remain readable until the record is purged.
+ *
+ * Supports pagination via `limit` (default 50, max 200) and `offset`.
+ *
+ * @returns {BaseResponse<SerializedHistoryRevision[]>} The record's revisions
  *
  * @throws 403 if the user is not authorized
- * @throws 404 if the history record is not found or does not belong to the user
+ * @throws 404 `HISTORY_NOT_FOUND` if the history record is not found or does not belong to the user
  */
-historiesRouter.delete("/:historyId", async (c) => {
-  const userId = c.req.param("userId")!;
-  const historyId = c.req.param("historyId")!;
-  const tokenUserId = c.get("userId");
+historiesRouter.get(
+  "/:historyId/revisions",
+  describeRoute({
+    operationId: "listHistoryRevisions",
+    summary: "List a history's revisions",
+    tags: ["Histories"],
+    security: "bearer",
+    params: HISTORY_ID_PARAMS,
+    query: paginationQuery(DEFAULT_LIMIT, MAX_LIMIT),
+    responses: {
+      200: {
+        description: "The revisions, newest first",
+        data: { type: "array", items: ref("HistoryRevision") },
+      },
+    },
+    errors: ["NOT_AUTHORIZED", "HISTORY_NOT_FOUND"],
+  }),
+  audit("history.revisions"),
+  requirePermission("histories:read"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+    const historyId = c.req.param("historyId")!;
+    if (!isValidUuid(historyId)) {
+      throw historyNotFound();
+    }
 
-  if (userId !== tokenUserId && !c.get("siteAdmin")) {
-    return c.json(errorResponse("Not authorized"), 403);
-  }
+    const limit = Math.min(
+      Math.max(
+        1,
+        parseInt(c.req.query("limit") || String(DEFAULT_LIMIT), 10) ||
+          DEFAULT_LIMIT
+      ),
+      MAX_LIMIT
+    );
+    const offset = Math.max(0, parseInt(c.req.query("offset") || "0", 10) || 0);
 
-  const result = await db
-    .delete(histories)
-    .where(and(eq(histories.id, historyId), eq(histories.user_id, userId)))
-    .returning();
+    const [history] = await db
+      .select({ id: histories.id })
+      .from(histories)
+      .where(and(eq(histories.id, historyId), eq(histories.user_id, userId)));
 
-  if (result.length === 0) {
-    return c.json(errorResponse("History not found"), 404);
+    if (!history) {
+      throw historyNotFound();
+    }
+
+    const revisions = await db
+      .select()
+      .from(historyRevisions)
+      .where(eq(historyRevisions.history_id, historyId))
+      .orderBy(
+        desc(historyRevisions.created_at),
+        desc(historyRevisions.version)
+      )
+      .limit(limit)
+      .offset(offset);
+
+    return c.json(successResponse(revisions.map(serializeHistoryRevision)));
   }
+);
+
+/**
+ * POST /:historyId/revisions/:revisionId/revert - Undo a recorded change.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:write`.
+ *
+ * Sets the record's `datetime` and `value` back to the revision's old
+ * values -- the state the record was in just before that change. The revert
+ * is itself recorded as a `revert` revision pointing at the reverted one, so
+ * it can be undone in turn. Only `update` and `revert` revisions can be
+ * reverted; deletes are undone by restoring the record from the trash.
+ *
+ * Honors `If-Match` like the PUT handler.
+ *
+ * @returns {BaseResponse<History>} The reverted history record
+ *
+ * @throws 400 `REVISION_NOT_REVERTIBLE` if the revision is a `delete` or `restore`
+ * @throws 403 if the user is not authorized
+ * @throws 404 `HISTORY_NOT_FOUND` (or `REVISION_NOT_FOUND`) if the record
+ *   (or revision) is not found, does not belong to
+ *   the user, or the record is in the trash
+ * @throws 412 `PRECONDITION_FAILED` if `If-Match` does not match; `data` holds the current record
+ */
+historiesRouter.post(
+  "/:historyId/revisions/:revisionId/revert",
+  describeRoute({
+    operationId: "revertHistoryRevision",
+    summary: "Revert a history to before a revision",
+    tags: ["Histories"],
+    security: "bearer",
+    params: {
+      ...HISTORY_ID_PARAMS,
+      revisionId: "Id of the `update` or `revert` revision to undo",
+    },
+    headers: IF_MATCH_HEADER,
+    responses: {
+      200: {
+        description: "The reverted record",
+        data: ref("History"),
+        headers: ETAG_RESPONSE_HEADER,
+      },
+    },
+    errors: [
+      "REVISION_NOT_REVERTIBLE",
+      "NOT_AUTHORIZED",
+      "HISTORY_NOT_FOUND",
+      "REVISION_NOT_FOUND",
+      "PRECONDITION_FAILED",
+    ],
+  }),
+  audit("history.revert"),
+  requirePermission("histories:write"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+    const historyId = c.req.param("historyId")!;
+    const revisionId = c.req.param("revisionId")!;
+    if (!isValidUuid(historyId)) {
+      throw historyNotFound();
+    }
+    if (!isValidUuid(revisionId)) {
+      throw new ApiError("REVISION_NOT_FOUND", "Revision not found");
+    }
+
+    const [revision] = await db
+      .select()
+      .from(historyRevisions)
+      .where(
+        and(
+          eq(historyRevisions.id, revisionId),
+          eq(historyRevisions.history_id, historyId),
+          eq(historyRevisions.user_id, userId)
+        )
+      );
+
+    if (!revision) {
+      throw new ApiError("REVISION_NOT_FOUND", "Revision not found");
+    }
+    if (revision.action !== "update" && revision.action !== "revert") {
+      throw new ApiError(
+        "REVISION_NOT_REVERTIBLE",
+        `A ${revision.action} revision cannot be reverted; use the trash to restore deleted histories`
+      );
+    }
+
+    const ifMatch = c.req.header("If-Match");
+    const actor = revisionActor(c, userId);
+
+    const h = await db.transaction((tx) =>
+      reviseHistory(
+        tx,
+        and(
+          historyByIdCondition(userId, historyId),
+          ifMatchCondition(ifMatch)
+        )!,
+        {
+          datetime: revision.old_datetime,
+          value: revision.old_value,
+          version: sql`${histories.version} + 1`,
+          updated_at: c.get("clock").now(),
+        },
+        "revert",
+        actor,
+        revision.id
+      )
+    );
 
-  return c.json(successResponse(null));
-});
+    if (!h) {
+      throw ifMatch === undefined
+        ? historyNotFound()
+        : await preconditionFailedOrNotFound(c, userId, historyId);
+    }
+
+    invalidateHistoryTotals(c);
+    c.get("metrics").historyWrites.inc({ operation: "update" });
+
+    c.header("ETag", historyEtag(h.version));
+    return c.json(successResponse(serializeHistory(h)));
+  }
+);
 
 export default historiesRouter;
@@ -1,10 +1,23 @@
 import { Hono } from "hono";
-import { sql } from "drizzle-orm";
-import { db, histories } from "../db";
+import { etag } from "hono/etag";
+import { and, sql } from "drizzle-orm";
+import { histories } from "../db";
 import { successResponse } from "@sudobility/superguide_types";
+import { validationFailed } from "../lib/api-error";
+import { dateRangeQuery } from "../lib/api-parameters";
+import { ref } from "../lib/json-schema";
+import {
+  parseHistoryFilters,
+  historyFilterConditions,
+  HISTORY_TOTAL_PERIODS,
+  type HistoryTotalPeriod,
+} from "../lib/history-query";
+import { describeRoute } from "../middleware/openapi";
 
 const historiesTotalRouter = new Hono();
 
+historiesTotalRouter.use("/total", etag());
+
 /**
  * GET /total - Get the global total of all history values.
  *
@@ -14,17 +27,122 @@ const historiesTotalRouter = new Hono();
  *
  * Returns 0 if no history records exist (via `COALESCE`).
  *
- * @returns {BaseResponse<HistoryTotalResponse>} Object with a `total` number field
+ * Optional query parameters:
+ * - `from` / `to` (ISO 8601 date strings) - Inclusive range on `datetime`
+ * - `period` ("day" | "week" | "month") - Additionally return a `series` of
+ *   per-period totals (UTC boundaries, weeks start on Monday), ascending;
+ *   periods with no records are omitted
+ *
+ * Responses are cached in-process for `HISTORIES_TOTAL_CACHE_TTL_SECONDS`
+ * (see {@link HistoryTotalsCache}); the cache is cleared whenever a history is
+ * created, updated or deleted. Responses carry `Cache-Control` and `ETag`
+ * headers, and a matching `If-None-Match` yields a 304.
+ *
+ * @returns {BaseResponse<HistoryTotalResponse>} Object with a `total` number field,
+ *   plus `period` and `series` when `period` is given
+ *
+ * @throws 400 if `period`, `from` or `to` is invalid
+ *
+ * @example
+ * GET /api/v1/histories/total?period=month&from=2024-01-01&to=2024-12-31
  */
-historiesTotalRouter.get("/total", async (c) => {
-  const result = await db
-    .select({
-      total: sql<string>`COALESCE(SUM(${histories.value}), 0)`,
-    })
-    .from(histories);
-
-  const total = Number(result[0].total);
-  return c.json(successResponse({ total }));
-});
+historiesTotalRouter.get(
+  "/total",
+  describeRoute({
+    operationId: "getHistoriesTotal",
+    summary: "Global total of all history values",
+    description:
+      "Public and cached; a matching `If-None-Match` yields a 304.",
+    tags: ["Histories"],
+    query: {
+      ...dateRangeQuery("datetime"),
+      period: {
+        description: "Also return a `series` of per-period totals (UTC)",
+        schema: { enum: HISTORY_TOTAL_PERIODS },
+      },
+    },
+    responses: {
+      200: {
+        description: "The total, with a `series` when `period` is given",
+        data: ref("HistoryTotal"),
+        headers: {
+          ETag: "Entity tag of the body, for `If-None-Match`",
+          "Cache-Control": "How long the total may be cached",
+        },
+      },
+      304: { description: "The body matches `If-None-Match`" },
+    },
+    errors: ["VALIDATION_FAILED", "RATE_LIMITED"],
+  }),
+  async (c) => {
+    const db = c.get("db");
+    const periodParam = c.req.query("period");
+    if (
+      periodParam &&
+      !(HISTORY_TOTAL_PERIODS as readonly string[]).includes(periodParam)
+    ) {
+      throw validationFailed(
+        { error: `period must be one of: ${HISTORY_TOTAL_PERIODS.join(", ")}` },
+        "period"
+      );
+    }
+    const period = periodParam as HistoryTotalPeriod | undefined;
+
+    const filters = parseHistoryFilters({
+      from: c.req.query("from"),
+      to: c.req.query("to"),
+    });
+    if (!filters.ok) {
+      throw validationFailed(filters);
+    }
+
+    const cacheKey = [
+      period ?? "",
+      filters.value.from?.toISOString() ?? "",
+      filters.value.to?.toISOString() ?? "",
+    ].join("|");
+
+    const ttlSeconds = c.get("config").features.historiesTotalCacheTtlSeconds;
+
+    const body = await c.get("historyTotalsCache").getOrSet(cacheKey, async () => {
+      const where = and(...historyFilterConditions(filters.value));
+
+      const result = await db
+        .select({
+          total: sql<string>`COALESCE(SUM(${histories.value}), 0)`,
+        })
+        .from(histories)
+        .where(where);
+
+      const total = Number(result[0].total);
+      if (!period) {
+        return successResponse({ total });
+      }
+
+      const bucket = sql`date_trunc(${period}, ${histories.datetime})`;
+      const rows = await db
+        .select({
+          period: sql<string>`to_char(${bucket}, 'YYYY-MM-DD')`,
+          total: sql<string>`SUM(${histories.value})`,
+        })
+        .from(histories)
+        .where(where)
+        .groupBy(sql`1`)
+        .orderBy(sql`1`);
+
+      return successResponse({
+        total,
+        period,
+        series: rows.map((row) => ({
+          period: row.period,
+          total: Number(row.total),
+        })),
+      });
+    }, ttlSeconds * 1000);
+
+    c.header("Cache-Control", `public, max-age=${ttlSeconds}`);
+    return c.json(body);
+  }
+);
 
 export default historiesTotalRouter;
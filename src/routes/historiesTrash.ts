@@ -0,0 +1,263 @@
+import { Hono } from "hono";
+import { and, desc, eq, isNotNull, sql } from "drizzle-orm";
+import { histories } from "../db";
+import { audit } from "../middleware/audit";
+import { describeRoute } from "../middleware/openapi";
+import { requirePermission } from "../middleware/permissions";
+import { successResponse } from "@sudobility/superguide_types";
+import { ApiError } from "../lib/api-error";
+import {
+  ETAG_RESPONSE_HEADER,
+  USER_ID_PARAM,
+  paginationQuery,
+} from "../lib/api-parameters";
+import { ref } from "../lib/json-schema";
+import { serializeHistory, historyEtag, isValidUuid } from "../lib/serializers";
+import { historyByIdCondition } from "../lib/history-query";
+import { invalidateHistoryTotals } from "../services/historyTotals";
+import { trashPurgeAt } from "../services/trashPurge";
+import { reviseHistory, revisionActor } from "../services/historyRevisions";
+
+const historiesTrashRouter = new Hono();
+
+/** Default number of trashed records returned per page */
+const DEFAULT_LIMIT = 50;
+
+/** Maximum number of trashed records that can be requested in a single page */
+const MAX_LIMIT = 200;
+
+/**
+ * GET / - List the user's trashed (soft-deleted) histories.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:read`.
+ *
+ * Records are ordered by `deleted_at`, most recently deleted first. Each
+ * item is a serialized history plus `deleted_at` and `purge_at` -- when the
+ * retention purge will permanently remove it.
+ *
+ * Supports pagination via `limit` (default 50, max 200) and `offset`.
+ *
+ * @returns {BaseResponse<TrashedHistory[]>} Paginated list of trashed records
+ *
+ * @throws 403 if the user is not authorized
+ */
+historiesTrashRouter.get(
+  "/",
+  describeRoute({
+    operationId: "listTrashedHistories",
+    summary: "List trashed histories",
+    tags: ["Trash"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    query: paginationQuery(DEFAULT_LIMIT, MAX_LIMIT),
+    responses: {
+      200: {
+        description: "Trashed records, most recently deleted first",
+        data: { type: "array", items: ref("TrashedHistory") },
+      },
+    },
+    errors: ["NOT_AUTHORIZED"],
+  }),
+  audit("history.trash.list"),
+  requirePermission("histories:read"),
+  async c => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    const limit = Math.min(
+      Math.max(
+        1,
+        parseInt(c.req.query("limit") || String(DEFAULT_LIMIT), 10) ||
+          DEFAULT_LIMIT
+      ),
+      MAX_LIMIT
+    );
+    const offset = Math.max(0, parseInt(c.req.query("offset") || "0", 10) || 0);
+
+    const result = await db
+      .select()
+      .from(histories)
+      .where(
+        and(eq(histories.user_id, userId), isNotNull(histories.deleted_at))
+      )
+      .orderBy(desc(histories.deleted_at), desc(histories.id))
+      .limit(limit)
+      .offset(offset);
+
+    const { trashRetentionDays } = c.get("config").features;
+    const data = result.map(h => ({
+      ...serializeHistory(h),
+      deleted_at: h.deleted_at!.toISOString(),
+      purge_at: trashPurgeAt(h.deleted_at!, trashRetentionDays).toISOString(),
+    }));
+
+    return c.json(successResponse(data));
+  }
+);
+
+/**
+ * POST /:historyId/restore - Move a trashed history back out of the trash.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:write`.
+ *
+ * Restoring counts as an update: `version` is incremented and a `restore`
+ * revision is recorded.
+ *
+ * @returns {BaseResponse<History>} The restored history record
+ *
+ * @throws 403 if the user is not authorized
+ * @throws 404 if no trashed record with this id belongs to the user
+ */
+historiesTrashRouter.post(
+  "/:historyId/restore",
+  describeRoute({
+    operationId: "restoreHistory",
+    summary: "Restore a trashed history",
+    tags: ["Trash"],
+    security: "bearer",
+    params: { ...USER_ID_PARAM, historyId: "Id of the trashed history" },
+    responses: {
+      200: {
+        description: "The restored record",
+        data: ref("History"),
+        headers: ETAG_RESPONSE_HEADER,
+      },
+    },
+    errors: ["NOT_AUTHORIZED", "HISTORY_NOT_FOUND"],
+  }),
+  audit("history.restore"),
+  requirePermission("histories:write"),
+  async c => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+    const historyId = c.req.param("historyId")!;
+    if (!isValidUuid(historyId)) {
+      throw new ApiError("HISTORY_NOT_FOUND", "History not found in trash");
+    }
+
+    const actor = revisionActor(c, userId);
+
+    const h = await db.transaction(tx =>
+      reviseHistory(
+        tx,
+        historyByIdCondition(userId, historyId, true),
+        {
+          deleted_at: null,
+          version: sql`${histories.version} + 1`,
+          updated_at: c.get("clock").now(),
+        },
+        "restore",
+        actor
+      )
+    );
+
+    if (!h) {
+      throw new ApiError("HISTORY_NOT_FOUND", "History not found in trash");
+    }
+
+    invalidateHistoryTotals(c);
+
+    c.header("ETag", historyEtag(h.version));
+    return c.json(successResponse(serializeHistory(h)));
+  }
+);
+
+/**
+ * DELETE /:historyId - Permanently delete one trashed history.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:write`. Only records already in
+ * the trash can be purged; this cannot be undone.
+ *
+ * @returns {BaseResponse<null>} Success response with null data
+ *
+ * @throws 403 if the user is not authorized
+ * @throws 404 if no trashed record with this id belongs to the user
+ */
+historiesTrashRouter.delete(
+  "/:historyId",
+  describeRoute({
+    operationId: "purgeHistory",
+    summary: "Permanently delete a trashed history",
+    tags: ["Trash"],
+    security: "bearer",
+    params: { ...USER_ID_PARAM, historyId: "Id of the trashed history" },
+    responses: {
+      200: { description: "The record was deleted", data: { type: "null" } },
+    },
+    errors: ["NOT_AUTHORIZED", "HISTORY_NOT_FOUND"],
+  }),
+  audit("history.purge"),
+  requirePermission("histories:write"),
+  async c => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+    const historyId = c.req.param("historyId")!;
+    if (!isValidUuid(historyId)) {
+      throw new ApiError("HISTORY_NOT_FOUND", "History not found in trash");
+    }
+
+    const result = await db
+      .delete(histories)
+      .where(historyByIdCondition(userId, historyId, true))
+      .returning({ id: histories.id });
+
+    if (result.length === 0) {
+      throw new ApiError("HISTORY_NOT_FOUND", "History not found in trash");
+    }
+
+    return c.json(successResponse(null));
+  }
+);
+
+/**
+ * DELETE / - Empty the user's trash, permanently deleting every trashed record.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `histories:write`. This cannot be undone.
+ *
+ * @returns {BaseResponse<{ purged: number }>} Number of records deleted
+ *
+ * @throws 403 if the user is not authorized
+ */
+historiesTrashRouter.delete(
+  "/",
+  describeRoute({
+    operationId: "emptyTrash",
+    summary: "Empty the trash",
+    tags: ["Trash"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    responses: {
+      200: {
+        description: "Number of records permanently deleted",
+        data: {
+          type: "object",
+          required: ["purged"],
+          properties: { purged: { type: "integer", minimum: 0 } },
+          additionalProperties: false,
+        },
+      },
+    },
+    errors: ["NOT_AUTHORIZED"],
+  }),
+  audit("history.trash.empty"),
+  requirePermission("histories:write"),
+  async c => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    const result = await db
+      .delete(histories)
+      .where(
+        and(eq(histories.user_id, userId), isNotNull(histories.deleted_at))
+      )
+      .returning({ id: histories.id });
+
+    return c.json(successResponse({ purged: result.length }));
+  }
+);
+
+export default historiesTrashRouter;
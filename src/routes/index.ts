@@ -1,8 +1,12 @@
 import { Hono } from "hono";
 import { firebaseAuthMiddleware } from "../middleware/firebaseAuth";
+import { rateLimit } from "../middleware/rateLimit";
 import usersRouter from "./users";
 import historiesRouter from "./histories";
 import historiesTotalRouter from "./historiesTotal";
+import historiesTrashRouter from "./historiesTrash";
+import auditEventsRouter from "./auditEvents";
+import tokensRouter from "./tokens";
 
 /**
  * Aggregated API routes for the `/api/v1` prefix.
@@ -10,22 +14,43 @@ import historiesTotalRouter from "./historiesTotal";
  * Route structure:
  * - **Public** (no auth): `/histories/total` - Global history total
  * - **Authenticated**: `/users/:userId` - User profile
+ * - **Authenticated**: `/users/:userId/histories/trash` - Trashed histories: list, restore, purge
  * - **Authenticated**: `/users/:userId/histories` - User history CRUD with pagination
+ * - **Authenticated**: `/users/:userId/tokens` - Personal access tokens
+ * - **Site admin**: `/admin/audit-events` - Audit log search
  *
  * The Firebase auth middleware is applied to all authenticated routes,
- * setting context variables (`firebaseUser`, `userId`, `userEmail`, `siteAdmin`)
- * for downstream handlers.
+ * setting context variables (`firebaseUser`, `userId`, `userEmail`, `roles`,
+ * `siteAdmin`) for downstream handlers, which authorize with `requirePermission`.
+ *
+ * Requests are rate limited per route group (see {@link rateLimit}): public
+ * routes per client IP, authenticated routes per client IP before the token
+ * is checked -- so bad tokens cannot be tried, and verified, without limit --
+ * and per user once authenticated.
+ *
+ * Every route declares its parameters and responses with `describeRoute`,
+ * from which `/openapi.json` is generated (see `docs.ts`).
  */
 const routes = new Hono();
 
 // Public routes (no auth required)
+routes.use("/histories/total", rateLimit("public", "ip"));
 routes.route("/histories", historiesTotalRouter);
 
 // Auth-required routes
 const authRoutes = new Hono();
-authRoutes.use("*", firebaseAuthMiddleware);
+authRoutes.use(
+  "*",
+  rateLimit("auth", "ip"),
+  firebaseAuthMiddleware,
+  rateLimit("authenticated", "user")
+);
 authRoutes.route("/users/:userId", usersRouter);
+// Mounted before the histories router so `/trash` is not taken for a `:historyId`
+authRoutes.route("/users/:userId/histories/trash", historiesTrashRouter);
 authRoutes.route("/users/:userId/histories", historiesRouter);
+authRoutes.route("/users/:userId/tokens", tokensRouter);
+authRoutes.route("/admin/audit-events", auditEventsRouter);
 routes.route("/", authRoutes);
 
 export default routes;
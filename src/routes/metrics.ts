@@ -0,0 +1,43 @@
+import { Hono } from "hono";
+import { requireMetricsToken } from "../middleware/metrics";
+import { PROMETHEUS_CONTENT_TYPE } from "../lib/metrics";
+import { describeRoute } from "../middleware/openapi";
+
+const metricsRouter = new Hono();
+
+/**
+ * GET / - The application's metrics in the Prometheus text format.
+ *
+ * Mounted at `/metrics`, on the API port or, when `METRICS_PORT` is set, on
+ * a separate listener bound to `METRICS_HOST` (see `services/metricsServer.ts`).
+ * Requires `Authorization: Bearer <METRICS_TOKEN>` when a token is configured.
+ *
+ * Exposes request counts and latency by route and status, database query
+ * durations and pool usage, token verification cache hits and misses, and
+ * history writes (see {@link createAppMetrics}).
+ *
+ * @throws 401 if `METRICS_TOKEN` is set and the request does not carry it
+ */
+metricsRouter.get(
+  "/",
+  describeRoute({
+    operationId: "getMetrics",
+    summary: "Prometheus metrics",
+    tags: ["Health"],
+    security: "metricsToken",
+    responses: {
+      200: {
+        description: "The metrics in the Prometheus text format",
+        content: { "text/plain": { type: "string" } },
+      },
+    },
+  }),
+  requireMetricsToken,
+  c => {
+    return c.body(c.get("metrics").registry.render(), 200, {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+    });
+  }
+);
+
+export default metricsRouter;
@@ -0,0 +1,187 @@
+import { Hono } from "hono";
+import { and, desc, eq } from "drizzle-orm";
+import { apiTokens } from "../db";
+import { successResponse } from "@sudobility/superguide_types";
+import { ApiError, validationFailed } from "../lib/api-error";
+import { USER_ID_PARAM } from "../lib/api-parameters";
+import { ref } from "../lib/json-schema";
+import { audit } from "../middleware/audit";
+import { describeRoute } from "../middleware/openapi";
+import { requirePermission } from "../middleware/permissions";
+import { isValidUuid, serializeApiToken } from "../lib/serializers";
+import {
+  generateApiToken,
+  hashApiToken,
+  validateApiTokenCreate,
+} from "../lib/api-token";
+
+const tokensRouter = new Hono();
+
+/** Number of leading token characters stored for display */
+const TOKEN_PREFIX_LENGTH = 12;
+
+/**
+ * GET / - List the user's personal access tokens.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `tokens:manage`. Tokens cannot list tokens.
+ *
+ * @returns {BaseResponse<SerializedApiToken[]>} The tokens, newest first,
+ *   with their scopes, expiry and last use -- never the token itself
+ *
+ * @throws 403 if the user is not authorized
+ */
+tokensRouter.get(
+  "/",
+  describeRoute({
+    operationId: "listApiTokens",
+    summary: "List personal access tokens",
+    tags: ["Tokens"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    responses: {
+      200: {
+        description: "The tokens, newest first",
+        data: { type: "array", items: ref("ApiToken") },
+      },
+    },
+    errors: ["NOT_AUTHORIZED"],
+  }),
+  audit("token.list"),
+  requirePermission("tokens:manage"),
+  async c => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    const result = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.user_id, userId))
+      .orderBy(desc(apiTokens.created_at));
+
+    return c.json(successResponse(result.map(serializeApiToken)));
+  }
+);
+
+/**
+ * POST / - Create a personal access token.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `tokens:manage`.
+ *
+ * Request body:
+ * - `name` (string, 1-100 characters) - Display name
+ * - `scopes` (array) - `histories:read` and/or `histories:write`; write
+ *   implies read
+ * - `expiresAt` (ISO 8601 string, optional) - Omit for a token that never
+ *   expires
+ *
+ * The plaintext token (`sgp_...`) is returned in `data.token` exactly once;
+ * only its hash is stored. Send it as `Authorization: Bearer <token>`.
+ *
+ * @returns {BaseResponse<SerializedApiToken & { token: string }>} 201 with the new token
+ *
+ * @throws 400 if the body is invalid
+ * @throws 403 if the user is not authorized
+ */
+tokensRouter.post(
+  "/",
+  describeRoute({
+    operationId: "createApiToken",
+    summary: "Create a personal access token",
+    tags: ["Tokens"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    body: { content: { "application/json": ref("ApiTokenCreateRequest") } },
+    responses: {
+      201: {
+        description: "The new token; `token` is never shown again",
+        data: ref("CreatedApiToken"),
+      },
+    },
+    errors: ["VALIDATION_FAILED", "NOT_AUTHORIZED"],
+  }),
+  audit("token.create"),
+  requirePermission("tokens:manage"),
+  async c => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+
+    const input = validateApiTokenCreate(
+      await c.req.json(),
+      c.get("clock").now()
+    );
+    if (!input.ok) {
+      throw validationFailed(input);
+    }
+
+    const token = generateApiToken();
+
+    const [created] = await db
+      .insert(apiTokens)
+      .values({
+        user_id: userId,
+        name: input.value.name,
+        token_hash: hashApiToken(token),
+        token_prefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+        scopes: input.value.scopes,
+        expires_at: input.value.expiresAt,
+      })
+      .returning();
+
+    return c.json(
+      successResponse({ ...serializeApiToken(created), token }),
+      201
+    );
+  }
+);
+
+/**
+ * DELETE /:tokenId - Revoke a personal access token.
+ *
+ * Requires that the requesting user matches the `:userId` route param,
+ * or that the requester holds `tokens:manage`. The token stops working
+ * immediately.
+ *
+ * @returns {BaseResponse<null>} Success response with null data
+ *
+ * @throws 403 if the user is not authorized
+ * @throws 404 if the token is not found or does not belong to the user
+ */
+tokensRouter.delete(
+  "/:tokenId",
+  describeRoute({
+    operationId: "revokeApiToken",
+    summary: "Revoke a personal access token",
+    tags: ["Tokens"],
+    security: "bearer",
+    params: { ...USER_ID_PARAM, tokenId: "Id of the token" },
+    responses: {
+      200: { description: "The token was revoked", data: { type: "null" } },
+    },
+    errors: ["NOT_AUTHORIZED", "TOKEN_NOT_FOUND"],
+  }),
+  audit("token.revoke", { entityParam: "tokenId" }),
+  requirePermission("tokens:manage"),
+  async c => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
+    const tokenId = c.req.param("tokenId")!;
+    if (!isValidUuid(tokenId)) {
+      throw new ApiError("TOKEN_NOT_FOUND", "Token not found");
+    }
+
+    const result = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.user_id, userId)))
+      .returning({ id: apiTokens.id });
+
+    if (result.length === 0) {
+      throw new ApiError("TOKEN_NOT_FOUND", "Token not found");
+    }
+
+    return c.json(successResponse(null));
+  }
+);
+
+export default tokensRouter;
@@ -1,8 +1,14 @@
 import { Hono } from "hono";
 import { eq } from "drizzle-orm";
-import { db, users } from "../db";
-import { successResponse, errorResponse } from "@sudobility/superguide_types";
+import { users } from "../db";
+import { successResponse } from "@sudobility/superguide_types";
+import { ApiError } from "../lib/api-error";
+import { USER_ID_PARAM } from "../lib/api-parameters";
+import { ref } from "../lib/json-schema";
 import { serializeUser } from "../lib/serializers";
+import { audit } from "../middleware/audit";
+import { describeRoute } from "../middleware/openapi";
+import { requirePermission } from "../middleware/permissions";
 
 const usersRouter = new Hono();
 
@@ -10,7 +16,7 @@ const usersRouter = new Hono();
  * GET / - Get user profile information.
  *
  * Returns the authenticated user's profile. The requesting user must match
- * the `:userId` route param, or be a site admin.
+ * the `:userId` route param, or hold `users:read` (admins and support staff).
  *
  * The `:userId` param is the user's Firebase UID (not a database-generated ID).
  * Note: this route is mounted at `/api/v1/users/:userId`, so the handler's
@@ -19,27 +25,39 @@ const usersRouter = new Hono();
  *
  * @returns {BaseResponse<User>} The serialized user profile
  *
- * @throws 403 if the requesting user is not authorized to view this profile
- * @throws 404 if no user record exists for the given Firebase UID
+ * @throws 403 `NOT_AUTHORIZED` if the requesting user may not view this profile
+ * @throws 404 `USER_NOT_FOUND` if no user record exists for the given Firebase UID
  */
-usersRouter.get("/:userId", async (c) => {
-  const userId = c.req.param("userId");
-  const tokenUserId = c.get("userId");
+usersRouter.get(
+  "/",
+  describeRoute({
+    operationId: "getUser",
+    summary: "Get a user profile",
+    tags: ["Users"],
+    security: "bearer",
+    params: USER_ID_PARAM,
+    responses: {
+      200: { description: "The user's profile", data: ref("User") },
+    },
+    errors: ["NOT_AUTHORIZED", "USER_NOT_FOUND"],
+  }),
+  audit("user.read", { entityParam: "userId" }),
+  requirePermission("users:read"),
+  async (c) => {
+    const db = c.get("db");
+    const userId = c.req.param("userId")!;
 
-  if (userId !== tokenUserId && !c.get("siteAdmin")) {
-    return c.json(errorResponse("Not authorized to view this user"), 403);
-  }
+    const result = await db
+      .select()
+      .from(users)
+      .where(eq(users.firebase_uid, userId));
 
-  const result = await db
-    .select()
-    .from(users)
-    .where(eq(users.firebase_uid, userId));
+    if (result.length === 0) {
+      throw new ApiError("USER_NOT_FOUND", "User not found");
+    }
 
-  if (result.length === 0) {
-    return c.json(errorResponse("User not found"), 404);
+    return c.json(successResponse(serializeUser(result[0])));
   }
-
-  return c.json(successResponse(serializeUser(result[0])));
-});
+);
 
 export default usersRouter;
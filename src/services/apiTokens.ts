@@ -0,0 +1,54 @@
+import { and, eq, gt, isNull, or } from "drizzle-orm";
+import { apiTokens, users, type Database } from "../db";
+import { hashApiToken, type TokenScope } from "../lib/api-token";
+
+/** The caller identified by a valid personal access token */
+export interface ApiTokenIdentity {
+  userId: string;
+  userEmail: string | null;
+  scopes: TokenScope[];
+}
+
+/**
+ * Looks up a personal access token by its hash and records its use.
+ *
+ * Expired tokens are rejected. A successful lookup sets `last_used_at` in
+ * the same statement, so every authenticated request is reflected.
+ *
+ * @param db - The database holding `api_tokens`
+ * @param token - The plaintext bearer token
+ * @param now - The current time
+ * @returns The token owner and scopes, or null if the token is unknown,
+ *   revoked or expired
+ */
+export async function authenticateApiToken(
+  db: Database,
+  token: string,
+  now: Date
+): Promise<ApiTokenIdentity | null> {
+  const [match] = await db
+    .update(apiTokens)
+    .set({ last_used_at: now })
+    .where(
+      and(
+        eq(apiTokens.token_hash, hashApiToken(token)),
+        or(isNull(apiTokens.expires_at), gt(apiTokens.expires_at, now))
+      )
+    )
+    .returning({ userId: apiTokens.user_id, scopes: apiTokens.scopes });
+
+  if (!match) {
+    return null;
+  }
+
+  const [owner] = await db
+    .select({ email: users.email })
+    .from(users)
+    .where(eq(users.firebase_uid, match.userId));
+
+  return {
+    userId: match.userId,
+    userEmail: owner?.email ?? null,
+    scopes: match.scopes as TokenScope[],
+  };
+}
@@ -2,54 +2,48 @@ import {
   initializeAuth,
   createCachedVerifier,
   getUserInfo as getFirebaseUserInfo,
-  isSiteAdmin,
-  isAnonymousUser,
 } from "@sudobility/auth_service";
-import { getRequiredEnv, getEnv } from "../lib/env-helper";
+import { getEnv } from "../lib/env-helper";
+import type { FirebaseConfig } from "../config";
+import type { TokenVerifier } from "./tokenVerifier";
 
 /**
  * Whether the application is running in test mode.
  *
  * In test mode, Firebase Admin SDK is not initialized and token verification
- * will throw an error. This prevents tests from requiring real Firebase credentials.
+ * will throw an error. This prevents tests from requiring real Firebase
+ * credentials; use the `jwt` or `dev` token verifier instead.
  */
-const isTestMode = getEnv("NODE_ENV") === "test" || getEnv("BUN_ENV") === "test";
-
-if (!isTestMode) {
-  initializeAuth({
-    firebase: {
-      projectId: getRequiredEnv("FIREBASE_PROJECT_ID"),
-      clientEmail: getRequiredEnv("FIREBASE_CLIENT_EMAIL"),
-      privateKey: getRequiredEnv("FIREBASE_PRIVATE_KEY"),
-    },
-    siteAdminEmails: getEnv("SITEADMIN_EMAILS"),
-  });
-}
+const isTestMode =
+  getEnv("NODE_ENV") === "test" || getEnv("BUN_ENV") === "test";
 
 /**
- * Cached Firebase token verifier with a 5-minute (300,000ms) TTL.
+ * Creates the `firebase` token verifier, which checks Firebase ID tokens with
+ * the Firebase Admin SDK.
  *
- * Wraps the Firebase Admin SDK's `verifyIdToken` with an in-memory cache
- * to reduce latency for repeated verifications of the same token.
- */
-const cachedVerifier = createCachedVerifier(300000);
-
-/**
- * Verifies a Firebase ID token and returns the decoded token payload.
- *
- * Uses a cached verifier to avoid redundant verification calls to Firebase.
- * Not available in test mode -- throws an error if called during tests.
+ * The SDK is initialized on the first verification, and wrapped in a cached
+ * verifier (5-minute / 300,000ms TTL) to avoid redundant verification calls.
+ * Not available in test mode -- verification throws an error during tests.
  *
- * @param token - The Firebase ID token string (from the Authorization header)
- * @returns The decoded Firebase ID token containing `uid`, `email`, and other claims
- * @throws If in test mode, or if the token is invalid/expired
+ * @param config - The service account credentials (`FIREBASE_*`)
+ * @returns The verifier; invalid or expired tokens are rejected by throwing
  */
-export async function verifyIdToken(token: string) {
-  if (isTestMode) {
-    throw new Error("Firebase verification not available in test mode");
-  }
-  return cachedVerifier.verify(token);
+export function createFirebaseVerifier(config: FirebaseConfig): TokenVerifier {
+  let cachedVerifier: ReturnType<typeof createCachedVerifier> | null = null;
+
+  return {
+    name: "firebase",
+    async verify(token) {
+      if (isTestMode) {
+        throw new Error("Firebase verification not available in test mode");
+      }
+      if (!cachedVerifier) {
+        initializeAuth({ firebase: config });
+        cachedVerifier = createCachedVerifier(300000);
+      }
+      return cachedVerifier.verify(token);
+    },
+  };
 }
 
-export { isSiteAdmin, isAnonymousUser };
 export { getFirebaseUserInfo as getUserInfo };
@@ -0,0 +1,148 @@
+import { sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { listPendingMigrations } from "../db/migrator";
+
+/**
+ * Where the process is in its life:
+ * - `starting` -- migrations are being applied
+ * - `ready` -- serving traffic
+ * - `failed` -- startup failed; the process exits after `SHUTDOWN_DELAY`
+ * - `stopping` -- draining in-flight requests before exit
+ */
+export const LIFECYCLE_PHASES = [
+  "starting",
+  "ready",
+  "failed",
+  "stopping",
+] as const;
+
+export type LifecyclePhase = (typeof LIFECYCLE_PHASES)[number];
+
+/** The process's {@link LifecyclePhase}, moved on by startup and shutdown */
+export interface Lifecycle {
+  readonly phase: LifecyclePhase;
+  ready(): void;
+  fail(): void;
+  stop(): void;
+}
+
+/**
+ * Creates a {@link Lifecycle}.
+ *
+ * @param phase - The initial phase (default `starting`)
+ */
+export function createLifecycle(phase: LifecyclePhase = "starting"): Lifecycle {
+  return {
+    get phase() {
+      return phase;
+    },
+    ready: () => {
+      phase = "ready";
+    },
+    fail: () => {
+      phase = "failed";
+    },
+    stop: () => {
+      phase = "stopping";
+    },
+  };
+}
+
+/** Outcome of one dependency check */
+export interface DependencyStatus {
+  status: "ok" | "fail";
+  latencyMs: number;
+  error?: string;
+}
+
+/** Result of {@link checkReadiness} */
+export interface Readiness {
+  ready: boolean;
+  phase: LifecyclePhase;
+  checks: Record<string, DependencyStatus>;
+}
+
+/** How long a single dependency check may take before it counts as failed */
+export const DEFAULT_CHECK_TIMEOUT_MS = 2000;
+
+/**
+ * Runs `check`, timing it and turning a rejection or timeout into a `fail`.
+ */
+async function runCheck(
+  check: () => Promise<void>,
+  timeoutMs: number
+): Promise<DependencyStatus> {
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+          timeoutMs
+        );
+      }),
+    ]);
+    return { status: "ok", latencyMs: elapsedMs(started) };
+  } catch (err) {
+    return {
+      status: "fail",
+      latencyMs: elapsedMs(started),
+      error: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function elapsedMs(started: number): number {
+  return Math.round((performance.now() - started) * 10) / 10;
+}
+
+/**
+ * Checks whether the instance can serve traffic.
+ *
+ * Ready means the lifecycle is in the `ready` phase and every dependency
+ * check passes:
+ * - `database` -- a `SELECT 1` round trip
+ * - `migrations` -- every migration in the codebase is recorded in the
+ *   ledger, with a matching checksum
+ *
+ * Checks run in parallel, each bounded by `timeoutMs`. They are skipped while
+ * `stopping`, as the connection pool may already be closing.
+ *
+ * @param deps - The database and lifecycle
+ * @param timeoutMs - Per-check time limit (default {@link DEFAULT_CHECK_TIMEOUT_MS})
+ * @returns Overall readiness, the phase, and each check's status and latency
+ */
+export async function checkReadiness(
+  { db, lifecycle }: { db: Database; lifecycle: Lifecycle },
+  timeoutMs = DEFAULT_CHECK_TIMEOUT_MS
+): Promise<Readiness> {
+  const { phase } = lifecycle;
+  if (phase === "stopping") {
+    return { ready: false, phase, checks: {} };
+  }
+
+  const [database, migrations] = await Promise.all([
+    runCheck(async () => {
+      await db.execute(sql`SELECT 1`);
+    }, timeoutMs),
+    runCheck(async () => {
+      const pending = await listPendingMigrations(db);
+      if (pending.length > 0) {
+        throw new Error(`Pending migrations: ${pending.join(", ")}`);
+      }
+    }, timeoutMs),
+  ]);
+
+  const checks = { database, migrations };
+  return {
+    ready:
+      phase === "ready" &&
+      Object.values(checks).every(check => check.status === "ok"),
+    phase,
+    checks,
+  };
+}
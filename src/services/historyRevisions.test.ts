@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import type { Context } from "hono";
+import { revisionActor } from "./historyRevisions";
+
+/** A context holding only what {@link revisionActor} reads */
+function contextOf(userId: string, siteAdmin: boolean): Context {
+  const vars: Record<string, unknown> = { userId, siteAdmin };
+  return { get: (key: string) => vars[key] } as unknown as Context;
+}
+
+describe("revisionActor", () => {
+  it("marks a site admin's change to another user's record", () => {
+    expect(revisionActor(contextOf("admin-1", true), "user-1")).toEqual({
+      userId: "admin-1",
+      siteAdmin: true,
+    });
+  });
+
+  it("does not mark a site admin's change to their own record", () => {
+    expect(revisionActor(contextOf("admin-1", true), "admin-1").siteAdmin).toBe(
+      false
+    );
+  });
+
+  it("does not mark another user's change made without the admin role", () => {
+    expect(revisionActor(contextOf("support-1", false), "user-1")).toEqual({
+      userId: "support-1",
+      siteAdmin: false,
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import type { Context } from "hono";
+import { eq, type SQL } from "drizzle-orm";
+import { histories, historyRevisions, type Transaction } from "../db";
+
+/** Kinds of change recorded in `history_revisions` */
+export const REVISION_ACTIONS = [
+  "update",
+  "delete",
+  "restore",
+  "revert",
+] as const;
+
+export type RevisionAction = (typeof REVISION_ACTIONS)[number];
+
+/** Who made a change, as recorded on each revision */
+export interface RevisionActor {
+  /** Firebase UID of the authenticated user */
+  userId: string;
+  /** True when the actor changed another user's record as a site admin */
+  siteAdmin: boolean;
+}
+
+/**
+ * Describes the authenticated user acting on `ownerId`'s records.
+ *
+ * A change counts as made as a site admin only when the caller holds the
+ * `admin` role and the record is someone else's; other roles granting access
+ * to other users' records are recorded as plain changes.
+ *
+ * @param c - The request context, after {@link firebaseAuthMiddleware}
+ * @param ownerId - The `:userId` route param
+ */
+export function revisionActor(c: Context, ownerId: string): RevisionActor {
+  const userId = c.get("userId");
+  return { userId, siteAdmin: c.get("siteAdmin") && userId !== ownerId };
+}
+
+/** Column values accepted by {@link reviseHistory} */
+type HistorySet = Omit<Partial<typeof histories.$inferInsert>, "version"> & {
+  version: SQL;
+  updated_at: Date;
+};
+
+/**
+ * Updates one history record and records the change as a revision.
+ *
+ * The current row is read with `SELECT ... FOR UPDATE`, so the old values
+ * stored on the revision are exactly the ones the update replaced, even
+ * under concurrent writes. Must run inside a transaction.
+ *
+ * @param tx - The enclosing transaction
+ * @param target - Condition selecting the record (including any `If-Match`
+ *   version check); should match at most one row
+ * @param set - Column values to write; must bump `version`
+ * @param action - The kind of change being recorded
+ * @param actor - Who is making the change
+ * @param revertedRevisionId - For `revert`, the revision being reverted
+ * @returns The updated row, or null if `target` matched nothing
+ */
+export async function reviseHistory(
+  tx: Transaction,
+  target: SQL,
+  set: HistorySet,
+  action: RevisionAction,
+  actor: RevisionActor,
+  revertedRevisionId?: string
+) {
+  const [before] = await tx
+    .select()
+    .from(histories)
+    .where(target)
+    .for("update");
+
+  if (!before) {
+    return null;
+  }
+
+  const [after] = await tx
+    .update(histories)
+    .set(set)
+    .where(eq(histories.id, before.id))
+    .returning();
+
+  await tx.insert(historyRevisions).values({
+    history_id: after.id,
+    user_id: after.user_id,
+    version: after.version,
+    action,
+    old_datetime: before.datetime,
+    old_value: before.value,
+    new_datetime: after.datetime,
+    new_value: after.value,
+    actor_id: actor.userId,
+    actor_site_admin: actor.siteAdmin,
+    reverted_revision_id: revertedRevisionId ?? null,
+  });
+
+  return after;
+}
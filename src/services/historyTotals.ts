@@ -0,0 +1,37 @@
+import type { BaseResponse } from "@sudobility/superguide_types";
+import type { Context } from "hono";
+import { TtlCache } from "../lib/ttl-cache";
+import type { Clock } from "../app";
+
+/**
+ * Cache of complete `/histories/total` response bodies, keyed by the
+ * normalized query (period and range). Entries live for
+ * `config.features.historiesTotalCacheTtlSeconds`
+ * (`HISTORIES_TOTAL_CACHE_TTL_SECONDS`, default 60).
+ *
+ * Whole response envelopes are cached -- including their `timestamp` -- so
+ * that repeated requests produce byte-identical bodies and therefore stable
+ * `ETag` values while an entry is fresh.
+ */
+export type HistoryTotalsCache = TtlCache<BaseResponse<unknown>>;
+
+/**
+ * Creates an application's {@link HistoryTotalsCache}, see {@link createApp}.
+ *
+ * @param clock - The clock entries expire by
+ */
+export function createHistoryTotalsCache(clock: Clock): HistoryTotalsCache {
+  return new TtlCache(60 * 1000, 500, () => clock.now().getTime());
+}
+
+/**
+ * Drops all cached history totals.
+ *
+ * Called by every handler that creates, updates or deletes histories so the
+ * next public request recomputes the totals.
+ *
+ * @param c - The request's context, holding the `historyTotalsCache`
+ */
+export function invalidateHistoryTotals(c: Context): void {
+  c.get("historyTotalsCache").clear();
+}
@@ -0,0 +1,57 @@
+import { lte } from "drizzle-orm";
+import { idempotencyKeys, type Database } from "../db";
+import type { AppDeps } from "../app";
+
+/** How often expired idempotency keys are purged: hourly */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Deletes every idempotency key past its `expires_at`. Keys are otherwise
+ * only deleted when the same key is sent again, so without this the table
+ * grows forever.
+ *
+ * @param db - The database to purge
+ * @param now - The current time
+ * @returns The number of purged keys
+ */
+export async function purgeExpiredIdempotencyKeys(
+  db: Database,
+  now: Date
+): Promise<number> {
+  const purged = await db
+    .delete(idempotencyKeys)
+    .where(lte(idempotencyKeys.expires_at, now))
+    .returning({ key: idempotencyKeys.key });
+
+  return purged.length;
+}
+
+/**
+ * Starts the hourly purge of expired idempotency keys. The first run happens
+ * immediately.
+ *
+ * The timer is `unref`'d so it never keeps the process alive on its own.
+ * Failures are logged and retried on the next tick.
+ *
+ * @param deps - The application's database, clock and logger
+ * @returns The interval handle, for `clearInterval` on shutdown
+ */
+export function startIdempotencyPurgeSchedule({
+  db,
+  clock,
+  logger,
+}: Pick<AppDeps, "db" | "clock" | "logger">): ReturnType<typeof setInterval> {
+  const run = () =>
+    purgeExpiredIdempotencyKeys(db, clock.now())
+      .then(count => {
+        if (count > 0) {
+          logger.info("Purged expired idempotency keys", { count });
+        }
+      })
+      .catch(err => logger.error("Failed to purge idempotency keys", { err }));
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { generateKeyPairSync } from "crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sign } from "hono/jwt";
+import {
+  createDevVerifier,
+  createJwtVerifier,
+  toDecodedIdToken,
+} from "./jwtVerifier";
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const privatePem = privateKey
+  .export({ type: "pkcs8", format: "pem" })
+  .toString();
+const publicPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+
+describe("toDecodedIdToken", () => {
+  it("maps sub to uid and defaults the custom sign-in provider", () => {
+    const decoded = toDecodedIdToken({ sub: "user-1", iat: 100, exp: 200 });
+    expect(decoded.uid).toBe("user-1");
+    expect(decoded.auth_time).toBe(100);
+    expect(decoded.firebase.sign_in_provider).toBe("custom");
+  });
+
+  it("keeps a firebase claim that is present", () => {
+    const decoded = toDecodedIdToken({
+      sub: "user-1",
+      firebase: { identities: {}, sign_in_provider: "anonymous" },
+    });
+    expect(decoded.firebase.sign_in_provider).toBe("anonymous");
+  });
+
+  it("rejects tokens without a subject", () => {
+    expect(() => toDecodedIdToken({ email: "a@example.com" })).toThrow("sub");
+  });
+});
+
+describe("createDevVerifier", () => {
+  const verifier = createDevVerifier("test-secret");
+
+  it("verifies the tokens it mints, with their claims", async () => {
+    const token = await verifier.mint({
+      uid: "user-1",
+      email: "user@example.com",
+      roles: ["support"],
+    });
+    const decoded = await verifier.verify(token);
+    expect(decoded.uid).toBe("user-1");
+    expect(decoded.email).toBe("user@example.com");
+    expect(decoded.roles).toEqual(["support"]);
+  });
+
+  it("rejects expired tokens", async () => {
+    const token = await verifier.mint({ uid: "user-1" }, -60);
+    await expect(verifier.verify(token)).rejects.toThrow();
+  });
+
+  it("rejects tokens signed with another secret", async () => {
+    const token = await createDevVerifier("other-secret").mint({
+      uid: "user-1",
+    });
+    await expect(verifier.verify(token)).rejects.toThrow();
+  });
+});
+
+describe("createJwtVerifier", () => {
+  it("requires key material", () => {
+    expect(() => createJwtVerifier({ algorithm: "HS256" })).toThrow();
+    expect(() => createJwtVerifier({ algorithm: "RS256" })).toThrow();
+  });
+
+  it("checks issuer and audience when configured", async () => {
+    const verifier = createJwtVerifier({
+      algorithm: "HS256",
+      secret: "s3cret",
+      issuer: "https://issuer.example.com",
+      audience: "superguide",
+    });
+    const claims = { sub: "user-1", exp: now() + 60 };
+
+    const good = await sign(
+      { ...claims, iss: "https://issuer.example.com", aud: "superguide" },
+      "s3cret"
+    );
+    expect((await verifier.verify(good)).uid).toBe("user-1");
+
+    const wrongIssuer = await sign(
+      { ...claims, iss: "https://evil.example.com", aud: "superguide" },
+      "s3cret"
+    );
+    await expect(verifier.verify(wrongIssuer)).rejects.toThrow();
+
+    const wrongAudience = await sign(
+      { ...claims, iss: "https://issuer.example.com", aud: "other" },
+      "s3cret"
+    );
+    await expect(verifier.verify(wrongAudience)).rejects.toThrow();
+  });
+
+  it("verifies RS256 tokens against a PEM public key", async () => {
+    const verifier = createJwtVerifier({
+      algorithm: "RS256",
+      publicKey: publicPem,
+    });
+    const token = await sign(
+      { sub: "user-1", exp: now() + 60 },
+      privatePem,
+      "RS256"
+    );
+    expect((await verifier.verify(token)).uid).toBe("user-1");
+
+    const other = generateKeyPairSync("rsa", { modulusLength: 2048 })
+      .privateKey.export({ type: "pkcs8", format: "pem" })
+      .toString();
+    const forged = await sign(
+      { sub: "user-1", exp: now() + 60 },
+      other,
+      "RS256"
+    );
+    await expect(verifier.verify(forged)).rejects.toThrow();
+  });
+
+  describe("with a JWKS file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    const jwksFile = join(dir, "jwks.json");
+    writeFileSync(
+      jwksFile,
+      JSON.stringify({
+        keys: [{ ...publicKey.export({ format: "jwk" }), kid: "key-1" }],
+      })
+    );
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    it("verifies tokens whose kid is in the file", async () => {
+      const verifier = createJwtVerifier({ algorithm: "RS256", jwksFile });
+      const token = await sign(
+        { sub: "user-1", exp: now() + 60 },
+        { ...privateKey.export({ format: "jwk" }), kid: "key-1", alg: "RS256" },
+        "RS256"
+      );
+      expect((await verifier.verify(token)).uid).toBe("user-1");
+    });
+
+    it("rejects tokens with an unknown kid", async () => {
+      const verifier = createJwtVerifier({ algorithm: "RS256", jwksFile });
+      const token = await sign(
+        { sub: "user-1", exp: now() + 60 },
+        { ...privateKey.export({ format: "jwk" }), kid: "key-2", alg: "RS256" },
+        "RS256"
+      );
+      await expect(verifier.verify(token)).rejects.toThrow();
+    });
+  });
+});
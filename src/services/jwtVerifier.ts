@@ -0,0 +1,173 @@
+import { readFileSync } from "fs";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { sign, verify, verifyWithJwks } from "hono/jwt";
+import type { TokenVerifier } from "./tokenVerifier";
+
+/** Signature algorithms accepted by {@link createJwtVerifier} */
+export const JWT_ALGORITHMS = ["HS256", "RS256"] as const;
+
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+/** Options for {@link createJwtVerifier} */
+export interface JwtVerifierOptions {
+  algorithm: JwtAlgorithm;
+  /** Shared secret, for HS256 */
+  secret?: string;
+  /** PEM-encoded public key (`-----BEGIN PUBLIC KEY-----`), for RS256 */
+  publicKey?: string;
+  /** Path to a JWKS JSON file (`{ "keys": [...] }`), for RS256 */
+  jwksFile?: string;
+  /** Expected `iss` claim, if any */
+  issuer?: string;
+  /** Expected `aud` claim, if any */
+  audience?: string;
+}
+
+/** Claims accepted by {@link DevTokenVerifier.mint} */
+export interface DevTokenClaims {
+  /** Becomes the `sub` claim and the request's `userId` */
+  uid: string;
+  email?: string;
+  /** Custom role claim (see {@link rolesFromClaims}) */
+  roles?: string[];
+  [claim: string]: unknown;
+}
+
+/** A {@link TokenVerifier} that can also issue tokens it accepts */
+export interface DevTokenVerifier extends TokenVerifier {
+  /**
+   * Signs a token with the dev secret.
+   *
+   * @param claims - Claims to include; `uid` becomes `sub`
+   * @param ttlSeconds - Lifetime of the token (default one hour)
+   */
+  mint(claims: DevTokenClaims, ttlSeconds?: number): Promise<string>;
+}
+
+/**
+ * Shapes verified JWT claims like a Firebase ID token, so the rest of the
+ * API (anonymous-user check, custom role claims) treats both the same way.
+ *
+ * `sub` becomes `uid`. A missing `firebase` claim is filled in with the
+ * `custom` sign-in provider.
+ *
+ * @param payload - Claims of a token whose signature has been verified
+ * @throws If the token has no `sub` claim
+ */
+export function toDecodedIdToken(
+  payload: Record<string, unknown>
+): DecodedIdToken {
+  const uid = payload.sub;
+  if (typeof uid !== "string" || uid === "") {
+    throw new Error("Token has no sub claim");
+  }
+
+  return {
+    ...payload,
+    uid,
+    sub: uid,
+    auth_time: payload.auth_time ?? payload.iat,
+    firebase: payload.firebase ?? {
+      identities: {},
+      sign_in_provider: "custom",
+    },
+  } as DecodedIdToken;
+}
+
+/**
+ * Creates a verifier for locally signed JWTs.
+ *
+ * - **HS256** checks the signature against `secret`
+ * - **RS256** checks it against `publicKey`, or against the key in
+ *   `jwksFile` whose `kid` matches the token header
+ *
+ * `exp` and `nbf` are always enforced; `iss` and `aud` when configured.
+ * The JWKS file is read once, when the verifier is created.
+ *
+ * @param options - See {@link JwtVerifierOptions}
+ * @returns The verifier
+ * @throws If the key material required by `algorithm` is missing
+ */
+export function createJwtVerifier(options: JwtVerifierOptions): TokenVerifier {
+  const verification = {
+    ...(options.issuer && { iss: options.issuer }),
+    ...(options.audience && { aud: options.audience }),
+  };
+
+  if (options.algorithm === "HS256") {
+    const { secret } = options;
+    if (!secret) {
+      throw new Error("HS256 JWT verification requires a secret");
+    }
+    return {
+      name: "jwt",
+      async verify(token) {
+        return toDecodedIdToken(
+          await verify(token, secret, { alg: "HS256", ...verification })
+        );
+      },
+    };
+  }
+
+  if (options.jwksFile) {
+    const { keys } = JSON.parse(readFileSync(options.jwksFile, "utf8"));
+    if (!Array.isArray(keys)) {
+      throw new Error(`JWKS file ${options.jwksFile} has no keys array`);
+    }
+    return {
+      name: "jwt",
+      async verify(token) {
+        return toDecodedIdToken(
+          await verifyWithJwks(token, {
+            keys,
+            allowedAlgorithms: ["RS256"],
+            verification,
+          })
+        );
+      },
+    };
+  }
+
+  const { publicKey } = options;
+  if (!publicKey) {
+    throw new Error(
+      "RS256 JWT verification requires a public key or JWKS file"
+    );
+  }
+  return {
+    name: "jwt",
+    async verify(token) {
+      return toDecodedIdToken(
+        await verify(token, publicKey, { alg: "RS256", ...verification })
+      );
+    },
+  };
+}
+
+/**
+ * Creates the development verifier: an HS256 {@link createJwtVerifier} that
+ * can also mint tokens with arbitrary claims, so the API can be run and
+ * tested fully offline.
+ *
+ * Never use it in production -- anyone who knows the secret can sign in as
+ * anyone.
+ *
+ * @param secret - The signing secret
+ * @returns The verifier, with a `mint` method
+ */
+export function createDevVerifier(secret: string): DevTokenVerifier {
+  const verifier = createJwtVerifier({ algorithm: "HS256", secret });
+
+  return {
+    name: "dev",
+    verify: verifier.verify,
+    async mint({ uid, ...claims }, ttlSeconds = 60 * 60) {
+      const now = Math.floor(Date.now() / 1000);
+      return sign(
+        { ...claims, sub: uid, iat: now, exp: now + ttlSeconds },
+        secret,
+        "HS256"
+      );
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from "../lib/metrics";
+
+/** Buckets for database query durations, in seconds: 1ms to 5s */
+const DB_QUERY_BUCKETS = [
+  0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5,
+];
+
+/**
+ * The application's Prometheus metrics, served at `/metrics`.
+ *
+ * Created once per process by {@link createAppMetrics} and passed to
+ * {@link createApp}; handlers reach it through the `metrics` context
+ * variable.
+ */
+export interface AppMetrics {
+  registry: MetricsRegistry;
+  /** `http_requests_total{method,route,status}` */
+  httpRequests: Counter<"method" | "route" | "status">;
+  /** `http_request_duration_seconds{method,route,status}` */
+  httpRequestDuration: Histogram<"method" | "route" | "status">;
+  /** `db_query_duration_seconds{operation}`, `operation` being `select`, `insert`, ... */
+  dbQueryDuration: Histogram<"operation">;
+  /** `db_pool_connections_active`: connections running a query or transaction */
+  dbPoolActive: Gauge;
+  /** `db_pool_connections_max`: the pool's size limit */
+  dbPoolMax: Gauge;
+  /** `token_verification_cache_hits_total` */
+  tokenCacheHits: Counter;
+  /** `token_verification_cache_misses_total` */
+  tokenCacheMisses: Counter;
+  /** `history_writes_total{operation}`, `operation` being `create`, `update` or `delete` */
+  historyWrites: Counter<"operation">;
+}
+
+/**
+ * Creates the application's metrics on a new registry.
+ *
+ * @returns The metrics, all at zero
+ */
+export function createAppMetrics(): AppMetrics {
+  const registry = new MetricsRegistry();
+
+  return {
+    registry,
+    httpRequests: registry.register(
+      new Counter("http_requests_total", "HTTP requests served", [
+        "method",
+        "route",
+        "status",
+      ])
+    ),
+    httpRequestDuration: registry.register(
+      new Histogram(
+        "http_request_duration_seconds",
+        "Time to produce an HTTP response, in seconds",
+        ["method", "route", "status"]
+      )
+    ),
+    dbQueryDuration: registry.register(
+      new Histogram(
+        "db_query_duration_seconds",
+        "Database query duration, in seconds",
+        ["operation"],
+        DB_QUERY_BUCKETS
+      )
+    ),
+    dbPoolActive: registry.register(
+      new Gauge(
+        "db_pool_connections_active",
+        "Database connections running a query or transaction"
+      )
+    ),
+    dbPoolMax: registry.register(
+      new Gauge("db_pool_connections_max", "Database connection pool size")
+    ),
+    tokenCacheHits: registry.register(
+      new Counter(
+        "token_verification_cache_hits_total",
+        "Bearer tokens answered from the verification cache"
+      )
+    ),
+    tokenCacheMisses: registry.register(
+      new Counter(
+        "token_verification_cache_misses_total",
+        "Bearer tokens that had to be verified"
+      )
+    ),
+    historyWrites: registry.register(
+      new Counter(
+        "history_writes_total",
+        "History records created, updated or deleted",
+        ["operation"]
+      )
+    ),
+  };
+}
@@ -0,0 +1,44 @@
+import { createServer, type Server } from "http";
+import type { Hono } from "hono";
+import type { Logger } from "../lib/logger";
+
+/**
+ * Serves `app` on its own listener, for `/metrics` on `METRICS_PORT`.
+ *
+ * Binding to `METRICS_HOST` (default `127.0.0.1`) keeps the metrics off the
+ * public interface: only the host itself, or the network the address belongs
+ * to, can scrape them.
+ *
+ * @param app - The metrics application (see {@link createMetricsApp})
+ * @param options - Address to listen on, and where to log
+ * @returns The server, for `close` on shutdown
+ */
+export function startMetricsServer(
+  app: Hono,
+  { host, port, logger }: { host: string; port: number; logger: Logger }
+): Server {
+  const server = createServer(async (req, res) => {
+    try {
+      const response = await app.fetch(
+        new Request(`http://${host}:${port}${req.url ?? "/"}`, {
+          method: req.method,
+          headers: Object.entries(req.headers).flatMap(([name, value]) =>
+            value === undefined
+              ? []
+              : [[name, Array.isArray(value) ? value.join(", ") : value]]
+          ),
+        })
+      );
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (err) {
+      logger.error("Metrics request failed", { err });
+      res.writeHead(500).end();
+    }
+  });
+
+  server.listen(port, host, () => {
+    logger.info(`Metrics available on http://${host}:${port}/metrics`);
+  });
+  return server;
+}
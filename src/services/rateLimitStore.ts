@@ -0,0 +1,129 @@
+import { eq, lte } from "drizzle-orm";
+import { rateLimits, type Database } from "../db";
+import type { Logger } from "../lib/logger";
+import { TtlCache } from "../lib/ttl-cache";
+import {
+  consumeRateLimit,
+  type RateLimitDecision,
+  type RateLimitPolicy,
+  type RateLimitState,
+} from "../lib/rate-limit";
+
+/**
+ * Where rate limit state is kept, selected with `RATE_LIMIT_STORE`.
+ *
+ * Implementations count a request atomically per key, so concurrent
+ * requests from one client cannot both take its last slot.
+ */
+export interface RateLimitStore {
+  /**
+   * Counts one request for `key` (see {@link consumeRateLimit}).
+   *
+   * @param key - Route group and client, e.g. `authenticated:user:abc123`
+   * @param policy - The route group's policy
+   * @param now - Current time, epoch ms
+   * @returns Whether the request is allowed, and the client's quota
+   */
+  consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitDecision>;
+}
+
+/** A {@link RateLimitStore} held in process memory */
+export interface MemoryRateLimitStore extends RateLimitStore {
+  /** Forgets every client */
+  clear(): void;
+}
+
+/** Clients tracked at once by the memory store before the oldest are forgotten */
+const MEMORY_STORE_MAX_KEYS = 100_000;
+
+/**
+ * Creates a {@link RateLimitStore} holding state in process memory.
+ *
+ * Fast and dependency-free, but each instance counts separately: with N
+ * instances behind a load balancer a client gets up to N times its quota.
+ * Use {@link createPostgresRateLimitStore} for multi-instance deployments.
+ *
+ * @param maxKeys - Clients tracked at once; the least recently seen are
+ *   forgotten beyond that
+ */
+export function createMemoryRateLimitStore(
+  maxKeys = MEMORY_STORE_MAX_KEYS
+): MemoryRateLimitStore {
+  const states = new TtlCache<RateLimitState>(0, maxKeys);
+  return {
+    consume: async (key, policy, now) => {
+      const { decision, state, expiresAt } = consumeRateLimit(
+        policy,
+        states.get(key),
+        now
+      );
+      states.set(key, state, expiresAt - now);
+      return decision;
+    },
+    clear: () => states.clear(),
+  };
+}
+
+/** How often the Postgres store deletes expired rows */
+const PURGE_INTERVAL_MS = 60_000;
+
+/**
+ * Creates a {@link RateLimitStore} keeping state in `superguide.rate_limits`,
+ * shared by every instance using the database.
+ *
+ * Each request runs a short transaction that locks the client's row
+ * (`SELECT ... FOR UPDATE`), so concurrent requests are counted one at a
+ * time. Expired rows are deleted in the background at most once a minute.
+ *
+ * @param db - The database holding `rate_limits`
+ * @param logger - Where failed purges are reported
+ */
+export function createPostgresRateLimitStore(
+  db: Database,
+  logger: Logger
+): RateLimitStore {
+  let lastPurge = -Infinity;
+
+  function purgeExpired(now: number): void {
+    if (now - lastPurge < PURGE_INTERVAL_MS) return;
+    lastPurge = now;
+    db.delete(rateLimits)
+      .where(lte(rateLimits.expires_at, new Date(now)))
+      .catch(err =>
+        logger.error("Failed to purge expired rate limits", { err })
+      );
+  }
+
+  return {
+    consume: async (key, policy, now) => {
+      purgeExpired(now);
+      return db.transaction(async tx => {
+        await tx
+          .insert(rateLimits)
+          .values({ key, state: {}, expires_at: new Date(now) })
+          .onConflictDoNothing();
+        const [row] = await tx
+          .select()
+          .from(rateLimits)
+          .where(eq(rateLimits.key, key))
+          .for("update");
+
+        const stored = row.expires_at.getTime() > now ? row.state : undefined;
+        const { decision, state, expiresAt } = consumeRateLimit(
+          policy,
+          stored,
+          now
+        );
+        await tx
+          .update(rateLimits)
+          .set({ state, expires_at: new Date(expiresAt) })
+          .where(eq(rateLimits.key, key));
+        return decision;
+      });
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { eq } from "drizzle-orm";
+import { userRoles, type Database } from "../db";
+import { TtlCache } from "../lib/ttl-cache";
+import { isRole, rolesFromClaims, type Role } from "../lib/permissions";
+import type { Clock } from "../app";
+
+/** How long roles read from `user_roles` are cached: one minute */
+const ROLES_CACHE_TTL_MS = 60 * 1000;
+
+/** Roles granted in `user_roles`, keyed by Firebase UID */
+export type StoredRolesCache = TtlCache<Role[]>;
+
+/**
+ * Creates an application's {@link StoredRolesCache}, see {@link createApp}.
+ *
+ * @param clock - The clock entries expire by
+ */
+export function createStoredRolesCache(clock: Clock): StoredRolesCache {
+  return new TtlCache(ROLES_CACHE_TTL_MS, 10000, () => clock.now().getTime());
+}
+
+/**
+ * Reads the roles granted to a user in the `user_roles` table.
+ * Results are cached for a minute, so grants and revocations take up to that
+ * long to apply.
+ */
+async function storedRoles(
+  db: Database,
+  cache: StoredRolesCache,
+  userId: string
+): Promise<Role[]> {
+  return cache.getOrSet(userId, async () => {
+    const rows = await db
+      .select({ role: userRoles.role })
+      .from(userRoles)
+      .where(eq(userRoles.user_id, userId));
+    return rows.map(row => row.role).filter(isRole);
+  });
+}
+
+/**
+ * Whether `email` is one of the site admin emails (`SITEADMIN_EMAILS`),
+ * compared case-insensitively.
+ *
+ * Checked here rather than by the Firebase auth service, so it works with
+ * every token verifier.
+ *
+ * @param email - The caller's email, if any
+ * @param siteAdminEmails - `config.auth.siteAdminEmails`
+ */
+export function isSiteAdminEmail(
+  email: string | null,
+  siteAdminEmails: string[]
+): boolean {
+  if (!email) return false;
+  return siteAdminEmails.some(
+    entry => entry.toLowerCase() === email.toLowerCase()
+  );
+}
+
+/**
+ * Works out every role a caller holds.
+ *
+ * Combines, without duplicates:
+ * - roles from the Firebase custom claims (`roles` or `role`)
+ * - roles granted in the `user_roles` table
+ * - `admin` when `siteAdmin` is true, so `SITEADMIN_EMAILS` keeps working
+ * - the implicit `user` role, which everyone holds
+ *
+ * @param db - The database holding `user_roles`
+ * @param cache - Where roles read from `user_roles` are cached
+ * @param userId - The caller's Firebase UID
+ * @param claims - The decoded ID token
+ * @param siteAdmin - Whether the caller's email is in `SITEADMIN_EMAILS`
+ * @returns The caller's roles
+ */
+export async function resolveRoles(
+  db: Database,
+  cache: StoredRolesCache,
+  userId: string,
+  claims: Record<string, unknown>,
+  siteAdmin: boolean
+): Promise<Role[]> {
+  const roles = new Set<Role>([
+    ...rolesFromClaims(claims),
+    ...(await storedRoles(db, cache, userId)),
+  ]);
+  if (siteAdmin) roles.add("admin");
+  roles.add("user");
+  return [...roles];
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createLogger } from "../lib/logger";
+import { createLifecycle } from "./health";
+import { shutdown, type ShutdownOptions } from "./shutdown";
+
+describe("shutdown", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function setup(overrides: Partial<ShutdownOptions> = {}) {
+    const events: string[] = [];
+    const lifecycle = createLifecycle("ready");
+    const options: ShutdownOptions = {
+      lifecycle,
+      logger: createLogger({ level: "error", write: () => {} }),
+      stopServer: async force => {
+        events.push(`stop server (force: ${force})`);
+      },
+      steps: [
+        { name: "timer", run: () => events.push("clear timer") },
+        { name: "pool", run: async () => events.push("close pool") },
+      ],
+      delayMs: 0,
+      timeoutMs: 1000,
+      ...overrides,
+    };
+    return { events, lifecycle, options };
+  }
+
+  it("stops serving, then releases resources in order", async () => {
+    const { events, lifecycle, options } = setup();
+    await shutdown(options);
+    expect(lifecycle.phase).toBe("stopping");
+    expect(events).toEqual([
+      "stop server (force: false)",
+      "clear timer",
+      "close pool",
+    ]);
+  });
+
+  it("keeps serving for the delay with readiness failing", async () => {
+    vi.useFakeTimers();
+    const { events, lifecycle, options } = setup({ delayMs: 5000 });
+
+    const done = shutdown(options);
+    expect(lifecycle.phase).toBe("stopping");
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(events).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    await done;
+    expect(events[0]).toBe("stop server (force: false)");
+  });
+
+  it("cuts off requests that outlast the timeout", async () => {
+    vi.useFakeTimers();
+    const { events, options } = setup({
+      stopServer: force => {
+        events.push(`stop server (force: ${force})`);
+        return force ? Promise.resolve() : new Promise(() => {});
+      },
+    });
+
+    const done = shutdown(options);
+    await vi.advanceTimersByTimeAsync(1000);
+    await done;
+    expect(events).toEqual([
+      "stop server (force: false)",
+      "stop server (force: true)",
+      "clear timer",
+      "close pool",
+    ]);
+  });
+
+  it("runs every step even when one fails", async () => {
+    const { events, options } = setup();
+    options.steps.unshift({
+      name: "broken",
+      run: () => {
+        throw new Error("boom");
+      },
+    });
+    await expect(shutdown(options)).resolves.toBeUndefined();
+    expect(events).toContain("close pool");
+  });
+});
@@ -0,0 +1,92 @@
+import type { Logger } from "../lib/logger";
+import type { Lifecycle } from "./health";
+
+/** A resource released once the server has drained, e.g. the pool */
+export interface ShutdownStep {
+  name: string;
+  run(): unknown;
+}
+
+/** Options for {@link shutdown} */
+export interface ShutdownOptions {
+  lifecycle: Lifecycle;
+  logger: Logger;
+  /**
+   * Stops accepting connections. Resolves once in-flight requests have
+   * finished; with `force`, cuts them off instead.
+   */
+  stopServer(force: boolean): Promise<void>;
+  /** Run in order after the server has stopped; failures are logged and skipped */
+  steps: ShutdownStep[];
+  /** How long to keep serving while readiness fails, so load balancers notice */
+  delayMs: number;
+  /** How long in-flight requests may take to finish before they are cut off */
+  timeoutMs: number;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Shuts the process down without dropping requests:
+ *
+ * 1. moves the lifecycle to `stopping`, so `/health/ready` answers 503
+ * 2. keeps serving for `delayMs` (`SHUTDOWN_DELAY`) while load balancers
+ *    take the instance out of rotation
+ * 3. stops accepting connections and waits up to `timeoutMs`
+ *    (`SHUTDOWN_TIMEOUT`) for in-flight requests, then cuts off the rest
+ * 4. runs each cleanup step, e.g. stopping timers and closing the pool
+ *
+ * Never throws; the caller exits afterwards.
+ *
+ * @param options - See {@link ShutdownOptions}
+ */
+export async function shutdown({
+  lifecycle,
+  logger,
+  stopServer,
+  steps,
+  delayMs,
+  timeoutMs,
+}: ShutdownOptions): Promise<void> {
+  lifecycle.stop();
+  logger.info("Shutting down", { delayMs, timeoutMs });
+
+  if (delayMs > 0) {
+    await sleep(delayMs);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const drained = await Promise.race([
+    stopServer(false).then(
+      () => true,
+      err => {
+        logger.error("Failed to stop the server", { err });
+        return true;
+      }
+    ),
+    new Promise<false>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (!drained) {
+    logger.warn("In-flight requests did not finish in time; closing them", {
+      timeoutMs,
+    });
+    await stopServer(true).catch(err =>
+      logger.error("Failed to stop the server", { err })
+    );
+  }
+
+  for (const step of steps) {
+    try {
+      await step.run();
+    } catch (err) {
+      logger.error(`Shutdown step failed: ${step.name}`, { err });
+    }
+  }
+
+  logger.info("Shutdown complete");
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { createAppMetrics } from "./metrics";
+import { withVerificationCache } from "./tokenCache";
+import type { TokenVerifier } from "./tokenVerifier";
+
+describe("withVerificationCache", () => {
+  function setup(expSeconds = 10_000) {
+    let now = 1_000_000;
+    const verify = vi.fn(
+      async (token: string) =>
+        ({ uid: token, exp: expSeconds }) as unknown as DecodedIdToken
+    );
+    const inner: TokenVerifier = { name: "test", verify };
+    const metrics = createAppMetrics();
+    const verifier = withVerificationCache(inner, {
+      ttlMs: 60_000,
+      metrics,
+      now: () => now,
+    });
+    return { verifier, verify, metrics, advance: (ms: number) => (now += ms) };
+  }
+
+  it("verifies a token once until the TTL passes", async () => {
+    const { verifier, verify, metrics, advance } = setup();
+
+    expect((await verifier.verify("a")).uid).toBe("a");
+    expect((await verifier.verify("a")).uid).toBe("a");
+    expect(verify).toHaveBeenCalledTimes(1);
+
+    advance(60_000);
+    await verifier.verify("a");
+    expect(verify).toHaveBeenCalledTimes(2);
+
+    expect(metrics.tokenCacheHits.get()).toBe(1);
+    expect(metrics.tokenCacheMisses.get()).toBe(2);
+    expect(verifier.name).toBe("test");
+  });
+
+  it("never reuses a token past its expiry", async () => {
+    // exp is 1,010s; the clock starts at 1,000s, so only 10s remain
+    const { verifier, verify, advance } = setup(1_010);
+
+    await verifier.verify("a");
+    advance(9_999);
+    await verifier.verify("a");
+    expect(verify).toHaveBeenCalledTimes(1);
+
+    advance(1);
+    await verifier.verify("a");
+    expect(verify).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache rejected tokens", async () => {
+    const { verifier, verify } = setup();
+    verify.mockRejectedValueOnce(new Error("expired"));
+
+    await expect(verifier.verify("a")).rejects.toThrow("expired");
+    await expect(verifier.verify("a")).resolves.toMatchObject({ uid: "a" });
+    expect(verify).toHaveBeenCalledTimes(2);
+  });
+});
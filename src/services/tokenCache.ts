@@ -0,0 +1,65 @@
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { createHash } from "crypto";
+import { TtlCache } from "../lib/ttl-cache";
+import type { AppMetrics } from "./metrics";
+import type { TokenVerifier } from "./tokenVerifier";
+
+/** Most tokens the verification cache holds at once */
+const TOKEN_CACHE_MAX_ENTRIES = 10000;
+
+/** Options for {@link withVerificationCache} */
+export interface VerificationCacheOptions {
+  /**
+   * Longest time a verified token is reused; tokens expiring sooner are
+   * cached until they expire
+   */
+  ttlMs: number;
+  /** Hits and misses are counted here */
+  metrics: Pick<AppMetrics, "tokenCacheHits" | "tokenCacheMisses">;
+  /** Clock for expiry, in milliseconds (injectable for tests) */
+  now?: () => number;
+}
+
+/**
+ * Wraps a verifier so a token verified once is not verified again for a
+ * while, saving a signature check (or a Firebase round trip) per request.
+ *
+ * Only successful verifications are cached, keyed by the token's SHA-256
+ * hash, and never past the token's own `exp`. Cache hits and misses are
+ * counted in `token_verification_cache_hits_total` and
+ * `token_verification_cache_misses_total`.
+ *
+ * @param verifier - The verifier to cache
+ * @param options - See {@link VerificationCacheOptions}
+ * @returns A verifier with the same `name`
+ */
+export function withVerificationCache(
+  verifier: TokenVerifier,
+  { ttlMs, metrics, now = Date.now }: VerificationCacheOptions
+): TokenVerifier {
+  const cache = new TtlCache<DecodedIdToken>(
+    ttlMs,
+    TOKEN_CACHE_MAX_ENTRIES,
+    now
+  );
+
+  return {
+    name: verifier.name,
+    async verify(token) {
+      const key = createHash("sha256").update(token).digest("hex");
+      const cached = cache.get(key);
+      if (cached) {
+        metrics.tokenCacheHits.inc();
+        return cached;
+      }
+
+      metrics.tokenCacheMisses.inc();
+      const decoded = await verifier.verify(token);
+      const lifetime = Math.min(ttlMs, decoded.exp * 1000 - now());
+      if (lifetime > 0) {
+        cache.set(key, decoded, lifetime);
+      }
+      return decoded;
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { readFileSync } from "fs";
+import type { Clock } from "../app";
+import type { AuthConfig } from "../config";
+import { createFirebaseVerifier } from "./firebase";
+import { createDevVerifier, createJwtVerifier } from "./jwtVerifier";
+import {
+  withVerificationCache,
+  type VerificationCacheOptions,
+} from "./tokenCache";
+
+/**
+ * Verifies bearer tokens for {@link firebaseAuthMiddleware}.
+ *
+ * Implementations return Firebase ID token-shaped claims (`uid`, `email`,
+ * custom claims, `firebase.sign_in_provider`) whatever the token's origin,
+ * and reject invalid or expired tokens by throwing.
+ */
+export interface TokenVerifier {
+  /** Which implementation this is, e.g. `firebase` */
+  readonly name: string;
+  verify(token: string): Promise<DecodedIdToken>;
+}
+
+/**
+ * Creates the token verifier selected by `auth.verifier` (`AUTH_VERIFIER`):
+ * - **firebase** -- Firebase Admin SDK, using the `FIREBASE_*` credentials
+ * - **jwt** -- locally signed JWTs: `AUTH_JWT_ALGORITHM` (`HS256` default or
+ *   `RS256`) with `AUTH_JWT_SECRET`, `AUTH_JWT_PUBLIC_KEY` (PEM),
+ *   `AUTH_JWT_PUBLIC_KEY_FILE` or `AUTH_JWKS_FILE`; optional
+ *   `AUTH_JWT_ISSUER` / `AUTH_JWT_AUDIENCE`
+ * - **dev** -- HS256 tokens signed with `AUTH_DEV_SECRET`, which
+ *   `bun run auth:dev-token` mints
+ *
+ * {@link loadConfig} has already checked that the selection's settings are
+ * complete, and that `dev` is not used in production.
+ *
+ * Verified tokens are cached for `auth.tokenCacheTtlMs`
+ * (`AUTH_TOKEN_CACHE_TTL`, see {@link withVerificationCache}); `0` turns the
+ * cache off.
+ *
+ * @param auth - The `auth` section of the config
+ * @param metrics - Where token cache hits and misses are counted
+ * @param clock - Expires cached tokens
+ * @returns The verifier
+ * @throws If a configured key or JWKS file cannot be read
+ */
+export function createTokenVerifier(
+  auth: AuthConfig,
+  metrics: VerificationCacheOptions["metrics"],
+  clock: Clock
+): TokenVerifier {
+  const verifier = createUncachedVerifier(auth);
+  return auth.tokenCacheTtlMs > 0
+    ? withVerificationCache(verifier, {
+        ttlMs: auth.tokenCacheTtlMs,
+        metrics,
+        now: () => clock.now().getTime(),
+      })
+    : verifier;
+}
+
+function createUncachedVerifier(auth: AuthConfig): TokenVerifier {
+  switch (auth.verifier) {
+    case "firebase":
+      return createFirebaseVerifier(auth.firebase);
+
+    case "jwt": {
+      const { publicKeyFile, ...jwt } = auth.jwt;
+      return createJwtVerifier({
+        ...jwt,
+        publicKey: publicKeyFile
+          ? readFileSync(publicKeyFile, "utf8")
+          : jwt.publicKey,
+      });
+    }
+
+    case "dev":
+      return createDevVerifier(auth.devSecret);
+  }
+}
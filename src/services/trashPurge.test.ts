@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_TRASH_RETENTION_DAYS, trashPurgeAt } from "./trashPurge";
+
+describe("trashPurgeAt", () => {
+  it("adds the retention period to the deletion time", () => {
+    const deletedAt = new Date("2024-01-01T00:00:00.000Z");
+    const purgeAt = trashPurgeAt(deletedAt);
+    expect(purgeAt.getTime() - deletedAt.getTime()).toBe(
+      DEFAULT_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it("defaults to a 30 day retention", () => {
+    expect(DEFAULT_TRASH_RETENTION_DAYS).toBe(30);
+    expect(
+      trashPurgeAt(new Date("2024-01-01T12:00:00.000Z")).toISOString()
+    ).toBe("2024-01-31T12:00:00.000Z");
+  });
+
+  it("honors a configured retention", () => {
+    expect(
+      trashPurgeAt(new Date("2024-01-01T12:00:00.000Z"), 7).toISOString()
+    ).toBe("2024-01-08T12:00:00.000Z");
+  });
+});
@@ -0,0 +1,84 @@
+import { and, isNotNull, lte } from "drizzle-orm";
+import { histories, type Database } from "../db";
+import type { AppDeps } from "../app";
+
+/**
+ * Default number of days a soft-deleted history stays in the trash before it
+ * is permanently deleted, when `HISTORY_TRASH_RETENTION_DAYS` is not set.
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** How often the retention purge runs: hourly */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Computes when a history trashed at `deletedAt` will be purged.
+ *
+ * @param deletedAt - The record's `deleted_at` timestamp
+ * @param retentionDays - Days trashed records are kept (`config.features.trashRetentionDays`)
+ * @returns The instant after which the retention purge removes it
+ */
+export function trashPurgeAt(
+  deletedAt: Date,
+  retentionDays = DEFAULT_TRASH_RETENTION_DAYS
+): Date {
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Permanently deletes every history that has been in the trash for longer
+ * than `retentionDays`.
+ *
+ * @param db - The database to purge
+ * @param retentionDays - Days trashed records are kept
+ * @param now - The current time
+ * @returns The number of purged records
+ */
+export async function purgeExpiredTrash(
+  db: Database,
+  retentionDays: number,
+  now: Date
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const purged = await db
+    .delete(histories)
+    .where(
+      and(isNotNull(histories.deleted_at), lte(histories.deleted_at, cutoff))
+    )
+    .returning({ id: histories.id });
+
+  return purged.length;
+}
+
+/**
+ * Starts the hourly retention purge. The first run happens immediately.
+ *
+ * The timer is `unref`'d so it never keeps the process alive on its own.
+ * Failures are logged and retried on the next tick.
+ *
+ * @param deps - The application's database, clock, config and logger
+ * @returns The interval handle, for `clearInterval` on shutdown
+ */
+export function startTrashPurgeSchedule({
+  db,
+  clock,
+  config,
+  logger,
+}: Pick<AppDeps, "db" | "clock" | "config" | "logger">): ReturnType<
+  typeof setInterval
+> {
+  const run = () =>
+    purgeExpiredTrash(db, config.features.trashRetentionDays, clock.now())
+      .then(count => {
+        if (count > 0) {
+          logger.info("Purged expired trashed histories", { count });
+        }
+      })
+      .catch(err => logger.error("Failed to purge trashed histories", { err }));
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}